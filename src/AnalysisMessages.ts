@@ -0,0 +1,58 @@
+import { NoiseProfile } from "./NoiseProfile";
+import { DetectedNote, DetectionMode } from "./NoteDetector";
+import { PitchEstimate } from "./PitchTracker";
+import { AnalysisSettings } from "./Settings";
+import { AnalysisFrame } from "./SpectrumAnalyser";
+import { Tuning } from "./Tuning";
+
+// Shared between the AudioEngine, the AnalysisProcessor worklet and the
+// AnalysisWorker, which can only talk to each other through message ports.
+// The worklet sends the input on to the worker, which analyses it and sends
+// the results to the UI thread.
+
+export const ANALYSIS_PROCESSOR_NAME = 'analysis-processor';
+
+export interface AnalysisProcessorOptions {
+    hopSize: number; // Samples between blocks
+}
+
+export interface AnalysisWorkerOptions {
+    mode: DetectionMode;
+    settings: AnalysisSettings;
+    tuning: Tuning;
+    noiseProfile: NoiseProfile | null;
+    subtractNoise: boolean; // Spectral subtraction of the noise profile before detection
+}
+
+// UI thread -> worklet
+export type ProcessorCommand =
+    | { type: 'hopSize', hopSize: number }
+    | { type: 'output', port: MessagePort }; // To the worker, blocks are sent once it's set
+
+// Worklet -> worker, one per hop
+export interface AnalysisBlock {
+    samples: Float32Array; // The input since the previous block, mixed to mono
+    sampleRate: number;
+    timeMs: number; // Of the end of the block, on the audio context's clock
+}
+
+// UI thread -> worker, 'start' before anything else, or a 'file' on its own
+export type AnalysisCommand =
+    | { type: 'start', options: AnalysisWorkerOptions, input: MessagePort } // From the worklet
+    | { type: 'file', options: AnalysisWorkerOptions, samples: Float32Array, sampleRate: number, hopSize: number } // Mono
+    | { type: 'mode', mode: DetectionMode }
+    | { type: 'settings', settings: AnalysisSettings }
+    | { type: 'tuning', tuning: Tuning }
+    | { type: 'noise', profile: NoiseProfile | null, subtract: boolean }
+    | { type: 'capture', capture: boolean }
+    | { type: 'reset' };
+
+// Worker -> UI thread, one per block. The frame's arrays are copies owned by
+// the receiver, after any noise subtraction. A file's results end with null.
+export interface AnalysisResult {
+    frame: AnalysisFrame;
+    notes: DetectedNote[]; // Debounced, as from NoteDetector.detectFrame
+    pitch: PitchEstimate | null; // Only set in monophonic mode
+    onsetStrength: number; // 0-1, of the whole spectrum
+    samples: Float32Array | null; // While capturing, the input since the previous result, ending at frame.timeMs
+}
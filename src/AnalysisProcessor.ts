@@ -0,0 +1,77 @@
+import { ANALYSIS_PROCESSOR_NAME, AnalysisBlock, AnalysisProcessorOptions, ProcessorCommand } from "./AnalysisMessages";
+import { ANALYSIS_HOP_SIZE } from "./Constants";
+
+// Loaded with audioContext.audioWorklet.addModule, runs on the audio
+// rendering thread. It only mixes the input to mono and sends it on every
+// `hopSize` samples, the spectrum and note detection run in the
+// AnalysisWorker so a large FFT or polyphonic mode can't overrun the render
+// quantum and glitch the audio. The frame rate still doesn't depend on the
+// display and carries on in background tabs.
+
+// The AudioWorkletGlobalScope is not part of the DOM lib
+declare abstract class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: AudioWorkletNodeOptions);
+    abstract process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean;
+}
+declare function registerProcessor(name: string, processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+declare const sampleRate: number;
+declare const currentTime: number; // seconds, start of the current render quantum
+
+class AnalysisProcessor extends AudioWorkletProcessor {
+    private hopSize: number;
+    private block: Float32Array; // Input since the last block was sent
+    private blockLength = 0;
+    private output: MessagePort | null = null;
+
+    constructor(options: AudioWorkletNodeOptions) {
+        super(options);
+        const processorOptions = options.processorOptions as Partial<AnalysisProcessorOptions> | undefined;
+        this.hopSize = processorOptions?.hopSize ?? ANALYSIS_HOP_SIZE;
+        this.block = new Float32Array(this.hopSize);
+        this.port.onmessage = (e: MessageEvent<ProcessorCommand>) => this.handleCommand(e.data);
+    }
+
+    process(inputs: Float32Array[][]): boolean {
+        const channels = inputs[0];
+        // Nothing connected yet, or the source has ended
+        if (!channels || channels.length === 0) return true;
+
+        const length = channels[0]!.length;
+        for (let i = 0; i < length; i++) {
+            let sum = 0;
+            for (const channel of channels) sum += channel[i]!;
+            this.block[this.blockLength++] = sum / channels.length;
+            if (this.blockLength >= this.hopSize) {
+                this.send((currentTime + (i + 1) / sampleRate) * 1000);
+            }
+        }
+        return true;
+    }
+
+    private send(timeMs: number) {
+        const block: AnalysisBlock = { samples: this.block.slice(0, this.blockLength), sampleRate, timeMs };
+        this.output?.postMessage(block, [block.samples.buffer]);
+        this.blockLength = 0;
+    }
+
+    private handleCommand(command: ProcessorCommand) {
+        switch (command.type) {
+            case 'hopSize':
+                if (command.hopSize >= 1) this.hopSize = Math.round(command.hopSize);
+                // Keeps the samples waiting to be sent, which can be more
+                // than the new hop until the next block goes
+                if (this.block.length < this.hopSize) {
+                    const block = new Float32Array(this.hopSize);
+                    block.set(this.block.subarray(0, this.blockLength));
+                    this.block = block;
+                }
+                break;
+            case 'output':
+                this.output = command.port;
+                break;
+        }
+    }
+}
+
+registerProcessor(ANALYSIS_PROCESSOR_NAME, AnalysisProcessor);
@@ -0,0 +1,148 @@
+import { AnalysisBlock, AnalysisCommand, AnalysisResult, AnalysisWorkerOptions } from "./AnalysisMessages";
+import { NoiseProfile, subtractNoise } from "./NoiseProfile";
+import { DetectionMode, NoteDetector } from "./NoteDetector";
+import { AnalysisSettings } from "./Settings";
+import { AnalysisFrame, SpectrumAnalyser } from "./SpectrumAnalyser";
+
+// Dedicated worker for the analysis. Every block of input from the
+// AnalysisProcessor worklet makes one frame, a spectrum of the most recent
+// fftSize samples and the notes detected in it, the same as Transcriber
+// does for a whole file. When it falls behind the blocks queue up, the
+// audio itself never waits for it. A worker sent a 'file' instead runs the
+// whole file through Transcriber's frames as fast as it can.
+
+// The DedicatedWorkerGlobalScope is not part of the DOM lib
+declare let onmessage: ((e: MessageEvent<AnalysisCommand>) => void) | null;
+declare function postMessage(message: AnalysisResult | null, transfer: Transferable[]): void;
+
+class AnalysisWorker {
+    private mode: DetectionMode;
+    private noiseProfile: NoiseProfile | null = null;
+    private subtractNoise = false;
+    private analyser: SpectrumAnalyser;
+    private detector = new NoteDetector();
+    private history: Float32Array; // Ring buffer of the last fftSize samples
+    private writeIndex = 0;
+    private window: Float32Array;
+    private capturing = false;
+
+    constructor(options: AnalysisWorkerOptions) {
+        this.mode = options.mode;
+        this.analyser = new SpectrumAnalyser(options.settings.fftSize, options.settings.smoothingTimeConstant);
+        this.history = new Float32Array(options.settings.fftSize);
+        this.window = new Float32Array(options.settings.fftSize);
+        this.detector.setSettings(options.settings);
+        this.detector.setTuning(options.tuning);
+        this.setNoise(options.noiseProfile, options.subtractNoise);
+    }
+
+    // Blocks from the worklet
+    listen(input: MessagePort) {
+        input.onmessage = (e: MessageEvent<AnalysisBlock>) => this.analyse(e.data);
+    }
+
+    // Every frame of the file, then null once it's done
+    analyseFile(samples: Float32Array, sampleRate: number, hopSize: number) {
+        for (let end = hopSize; end < samples.length; end += hopSize) {
+            this.detect(this.analyser.processAt(samples, end, sampleRate), null);
+        }
+        postMessage(null, []);
+    }
+
+    handleCommand(command: Exclude<AnalysisCommand, { type: 'start' | 'file' }>) {
+        switch (command.type) {
+            case 'mode':
+                this.mode = command.mode;
+                this.detector.reset();
+                break;
+            case 'settings':
+                this.setSettings(command.settings);
+                break;
+            case 'tuning':
+                this.detector.setTuning(command.tuning);
+                break;
+            case 'noise':
+                this.setNoise(command.profile, command.subtract);
+                break;
+            case 'capture':
+                this.capturing = command.capture;
+                break;
+            case 'reset':
+                this.analyser.reset();
+                this.detector.reset();
+                break;
+        }
+    }
+
+    private analyse({ samples, sampleRate, timeMs }: AnalysisBlock) {
+        for (const sample of samples) {
+            this.history[this.writeIndex] = sample;
+            this.writeIndex = (this.writeIndex + 1) % this.history.length;
+        }
+        // Oldest sample first
+        const split = this.history.length - this.writeIndex;
+        this.window.set(this.history.subarray(this.writeIndex), 0);
+        this.window.set(this.history.subarray(0, this.writeIndex), split);
+
+        this.detect(this.analyser.process(this.window, sampleRate, timeMs), this.capturing ? samples : null);
+    }
+
+    private detect(frame: AnalysisFrame, samples: Float32Array | null) {
+        if (this.noiseProfile && this.subtractNoise) subtractNoise(frame, this.noiseProfile);
+        const notes = this.detector.detectFrame(frame, this.mode);
+
+        // The analyser reuses its arrays so send copies
+        const result: AnalysisResult = {
+            frame: {
+                frequencyData: frame.frequencyData.slice(),
+                floatFrequencyData: frame.floatFrequencyData.slice(),
+                timeDomainData: frame.timeDomainData.slice(),
+                sampleRate: frame.sampleRate,
+                timeMs: frame.timeMs,
+            },
+            notes,
+            pitch: this.mode === 'monophonic' ? this.detector.getLastPitch() : null,
+            onsetStrength: this.detector.getLastOnsetStrength(),
+            samples,
+        };
+        postMessage(result, [
+            result.frame.frequencyData.buffer,
+            result.frame.floatFrequencyData.buffer,
+            result.frame.timeDomainData.buffer,
+            ...(result.samples ? [result.samples.buffer] : []),
+        ]);
+    }
+
+    // A new FFT size starts the history again
+    private setSettings(settings: AnalysisSettings) {
+        if (settings.fftSize !== this.analyser.fftSize) {
+            this.analyser = new SpectrumAnalyser(settings.fftSize, settings.smoothingTimeConstant);
+            this.history = new Float32Array(settings.fftSize);
+            this.window = new Float32Array(settings.fftSize);
+            this.writeIndex = 0;
+            this.detector.reset();
+        } else {
+            this.analyser.setSmoothingTimeConstant(settings.smoothingTimeConstant);
+        }
+        this.detector.setSettings(settings);
+    }
+
+    private setNoise(profile: NoiseProfile | null, subtract: boolean) {
+        this.noiseProfile = profile;
+        this.subtractNoise = subtract;
+        this.detector.setNoiseProfile(profile);
+    }
+}
+
+let worker: AnalysisWorker | null = null;
+onmessage = e => {
+    const command = e.data;
+    if (command.type === 'start') {
+        worker = new AnalysisWorker(command.options);
+        worker.listen(command.input);
+    } else if (command.type === 'file') {
+        new AnalysisWorker(command.options).analyseFile(command.samples, command.sampleRate, command.hopSize);
+    } else {
+        worker?.handleCommand(command);
+    }
+};
@@ -0,0 +1,51 @@
+import { DecodedAudio } from "./Wav";
+
+// The analysed input through a recording, kept to compare with the notes
+// found in it. Sample 0 is at the recording's start time, on the same clock
+// as the analysis frames, so the audio lines up with the note timeline.
+export class AudioCapture {
+    private startTime = 0; // ms
+    private sampleRate = 0; // 0 until the first block
+    private chunks: Float32Array[] = [];
+    private length = 0; // Samples in chunks
+
+    start(nowMs: number) {
+        this.startTime = nowMs;
+        this.sampleRate = 0;
+        this.chunks = [];
+        this.length = 0;
+    }
+
+    // `samples` end at `endTimeMs` and follow straight on from the last block
+    add(samples: Float32Array, endTimeMs: number, sampleRate: number) {
+        if (this.sampleRate === 0) {
+            this.sampleRate = sampleRate;
+            // Silence from the start time to the first block, or the part of
+            // the block from before it dropped
+            const offset = Math.round((endTimeMs - this.startTime) / 1000 * sampleRate) - samples.length;
+            if (offset > 0) this.push(new Float32Array(offset));
+            else samples = samples.subarray(Math.min(-offset, samples.length));
+        } else if (sampleRate !== this.sampleRate) {
+            return; // A new input device, can't be joined on
+        }
+        this.push(samples);
+    }
+
+    // Mono, null when nothing was captured
+    getAudio(): DecodedAudio | null {
+        if (this.length === 0) return null;
+        const samples = new Float32Array(this.length);
+        let offset = 0;
+        for (const chunk of this.chunks) {
+            samples.set(chunk, offset);
+            offset += chunk.length;
+        }
+        return { sampleRate: this.sampleRate, channelData: [samples] };
+    }
+
+    private push(samples: Float32Array) {
+        if (samples.length === 0) return;
+        this.chunks.push(samples);
+        this.length += samples.length;
+    }
+}
@@ -1,50 +1,334 @@
 // Mostly from an LLM
 
-import { FFT_SIZE } from "./Constants";
+import { ANALYSIS_PROCESSOR_NAME, AnalysisCommand, AnalysisProcessorOptions, AnalysisResult, ProcessorCommand } from "./AnalysisMessages";
+import analysisProcessorUrl from "./AnalysisProcessor?worker&url";
+import AnalysisWorker from "./AnalysisWorker?worker";
+import { ANALYSIS_HOP_SIZE, MAX_INPUT_CHANNELS, OFFLINE_HOP_SIZE } from "./Constants";
+import { NoiseProfile } from "./NoiseProfile";
+import { DetectionMode } from "./NoteDetector";
+import { AnalysisSettings, DEFAULT_SETTINGS } from "./Settings";
+import { DEFAULT_TUNING, Tuning } from "./Tuning";
+import { DecodedAudio, mixToMono } from "./Wav";
+
+export type AudioSourceKind = 'microphone' | 'file';
+
+// The browser's voice call processing is on by default and ruins music:
+// echo cancellation and noise suppression eat sustained notes and automatic
+// gain control pumps the level
+export interface InputOptions {
+    deviceId: string | null; // null = the browser's default input
+    echoCancellation: boolean;
+    noiseSuppression: boolean;
+    autoGainControl: boolean;
+    channel: number | null; // Of a multi-channel input, null = mix of all channels
+}
+
+export const DEFAULT_INPUT_OPTIONS: InputOptions = {
+    deviceId: null,
+    echoCancellation: false,
+    noiseSuppression: false,
+    autoGainControl: false,
+    channel: null,
+};
+
+// Of the analysed input, linear full scale = 1
+export interface InputLevel {
+    peak: number;
+    rms: number;
+}
 
 export class AudioEngine {
     private audioContext: AudioContext | null = null;
-    private analyser: AnalyserNode | null = null;
+    private contextReady: Promise<AudioContext> | null = null;
     private stream: MediaStream | null = null;
-    private dataArray: Uint8Array | null = null;
+    private micSource: MediaStreamAudioSourceNode | null = null;
+    private channelSplitter: ChannelSplitterNode | null = null;
+    private inputOptions: InputOptions = DEFAULT_INPUT_OPTIONS;
+    private inputLevel: InputLevel = { peak: 0, rms: 0 };
 
-    async start(): Promise<void> {
-        if (this.audioContext) return;
+    // Live input is taken from an AudioWorklet at a fixed hop and analysed
+    // in a worker, results arrive through `onAnalysis`
+    private analysisNode: AudioWorkletNode | null = null;
+    private analysisWorker: Worker | null = null;
+    private analysisListener: ((result: AnalysisResult) => void) | null = null;
+    private hopSize: number;
+    private detectionMode: DetectionMode = 'peaks';
+    private settings: AnalysisSettings;
+    private tuning = DEFAULT_TUNING;
+    private noiseProfile: NoiseProfile | null = null;
+    private subtractNoise = false;
 
-        try {
-            this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-            this.analyser = this.audioContext.createAnalyser();
-            this.analyser.fftSize = FFT_SIZE;
-            this.analyser.smoothingTimeConstant = 0.5;
+    // File playback, an AudioBufferSourceNode can only be started once so a
+    // new one is made on every play / seek
+    private fileBuffer: AudioBuffer | null = null;
+    private fileSource: AudioBufferSourceNode | null = null;
+    private playbackOffset = 0; // seconds into the file
+    private playbackStartedAt = 0; // context time when playback last started
 
-            const source = this.audioContext.createMediaStreamSource(this.stream);
-            source.connect(this.analyser);
+    constructor(hopSize = ANALYSIS_HOP_SIZE, settings = DEFAULT_SETTINGS) {
+        this.hopSize = hopSize;
+        this.settings = settings;
+    }
+
+    // Also switches input while the microphone is running. The new stream
+    // is opened before the old one is closed and the context and analysis
+    // worklet stay as they are, so the displays carry straight on.
+    async start(options: Partial<InputOptions> = {}): Promise<void> {
+        const inputOptions = { ...this.inputOptions, ...options };
+
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: inputConstraints(inputOptions) });
+            const ctx = await this.ensureContext();
+            this.stopMicrophone();
+            this.unloadFile();
 
-            this.dataArray = new Uint8Array(this.analyser.frequencyBinCount);
+            this.stream = stream;
+            this.inputOptions = inputOptions;
+            this.connectMicrophone(ctx);
+            // Unplugged, fall back to the default input
+            stream.getAudioTracks()[0]?.addEventListener('ended', () => {
+                if (this.stream !== stream) return;
+                this.start({ deviceId: null, channel: null }).catch(() => this.stopMicrophone());
+            });
         } catch (err) {
             console.error("Error accessing microphone:", err);
             throw err;
         }
+        // Smoothing and half detected notes from the old input
+        this.resetAnalysis();
     }
 
-    stop() {
-        if (this.stream) {
-            this.stream.getTracks().forEach(track => track.stop());
-            this.stream = null;
+    // Only the channel can change without reopening the device
+    async setInputOptions(options: Partial<InputOptions>): Promise<void> {
+        const inputOptions = { ...this.inputOptions, ...options };
+        const reopen = inputOptions.deviceId !== this.inputOptions.deviceId
+            || inputOptions.echoCancellation !== this.inputOptions.echoCancellation
+            || inputOptions.noiseSuppression !== this.inputOptions.noiseSuppression
+            || inputOptions.autoGainControl !== this.inputOptions.autoGainControl;
+        if (reopen && this.stream) {
+            await this.start(options);
+            return;
+        }
+
+        this.inputOptions = inputOptions;
+        if (!this.stream || !this.audioContext) return;
+        this.disconnectMicrophone();
+        this.connectMicrophone(this.audioContext);
+        this.resetAnalysis();
+    }
+
+    getInputOptions(): InputOptions {
+        return this.inputOptions;
+    }
+
+    // Labels are empty until microphone permission has been given
+    async listInputDevices(): Promise<MediaDeviceInfo[]> {
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        return devices.filter(device => device.kind === 'audioinput');
+    }
+
+    // The device actually open, which the default input resolves to
+    getInputDeviceId(): string | null {
+        return this.stream?.getAudioTracks()[0]?.getSettings().deviceId ?? null;
+    }
+
+    getInputChannelCount(): number {
+        const track = this.stream?.getAudioTracks()[0];
+        return track?.getSettings().channelCount ?? this.micSource?.channelCount ?? 1;
+    }
+
+    // Of the most recent live analysis frame
+    getInputLevel(): InputLevel {
+        return this.inputLevel;
+    }
+
+    // Decodes a WAV / MP3 / OGG / FLAC (whatever the browser supports) file
+    // and makes it the analysed source in place of the microphone
+    async loadFile(file: File): Promise<void> {
+        const ctx = await this.ensureContext();
+
+        let buffer: AudioBuffer;
+        try {
+            buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+        } catch (err) {
+            console.error("Error decoding audio file:", err);
+            throw err;
         }
+
+        this.stopMicrophone();
+        this.unloadFile();
+        this.fileBuffer = buffer;
+    }
+
+    stop() {
+        this.stopMicrophone();
+        this.unloadFile();
         if (this.audioContext) {
             this.audioContext.close();
             this.audioContext = null;
         }
-        this.analyser = null;
-        this.dataArray = null;
+        this.contextReady = null;
+        this.analysisNode = null;
+        this.analysisWorker?.terminate();
+        this.analysisWorker = null;
+    }
+
+    // Called with every analysis frame from the live source
+    onAnalysis(listener: ((result: AnalysisResult) => void) | null) {
+        this.analysisListener = listener;
+    }
+
+    setDetectionMode(mode: DetectionMode) {
+        this.detectionMode = mode;
+        this.sendCommand({ type: 'mode', mode });
+    }
+
+    // Applies to the live analysis from the next frame and to the next
+    // offline analysis
+    setSettings(settings: AnalysisSettings) {
+        this.settings = settings;
+        this.sendCommand({ type: 'settings', settings });
+    }
+
+    // Note names and cents of the live analysis
+    setTuning(tuning: Tuning) {
+        this.tuning = tuning;
+        this.sendCommand({ type: 'tuning', tuning });
+    }
+
+    setHopSize(hopSize: number) {
+        this.hopSize = hopSize;
+        this.sendProcessorCommand({ type: 'hopSize', hopSize });
+    }
+
+    // Detection thresholds follow the profile, and with `subtract` it is
+    // also removed from the spectrum before detection. Null while
+    // calibrating, so the raw noise comes through.
+    setNoiseProfile(profile: NoiseProfile | null, subtract: boolean) {
+        this.noiseProfile = profile;
+        this.subtractNoise = subtract;
+        this.sendCommand({ type: 'noise', profile, subtract });
+    }
+
+    // While capturing, each analysis result carries the input samples it
+    // was made from
+    setCapturing(capture: boolean) {
+        this.sendCommand({ type: 'capture', capture });
+    }
+
+    getHopSize(): number {
+        return this.hopSize;
+    }
+
+    // Forget smoothing and partially detected notes, e.g. after a seek
+    resetAnalysis() {
+        this.sendCommand({ type: 'reset' });
+    }
+
+    getSourceKind(): AudioSourceKind | null {
+        if (this.stream) return 'microphone';
+        if (this.fileBuffer) return 'file';
+        return null;
+    }
+
+    async play() {
+        if (!this.audioContext || !this.fileBuffer || this.fileSource) return;
+        if (this.audioContext.state === 'suspended') {
+            await this.audioContext.resume();
+        }
+        if (this.playbackOffset >= this.fileBuffer.duration) {
+            this.playbackOffset = 0;
+        }
+
+        const source = this.audioContext.createBufferSource();
+        source.buffer = this.fileBuffer;
+        source.connect(this.analysisNode!);
+        source.connect(this.audioContext.destination);
+        source.onended = () => {
+            // Ignore sources stopped by pause / seek
+            if (this.fileSource !== source) return;
+            this.fileSource = null;
+            this.playbackOffset = this.fileBuffer?.duration ?? 0;
+        };
+
+        this.playbackStartedAt = this.audioContext.currentTime;
+        source.start(0, this.playbackOffset);
+        this.fileSource = source;
+    }
+
+    pause() {
+        if (!this.fileSource) return;
+        this.playbackOffset = this.getPlaybackPosition();
+        this.stopFileSource();
+    }
+
+    seek(seconds: number) {
+        if (!this.fileBuffer) return;
+        const wasPlaying = this.isPlaying();
+        this.stopFileSource();
+        this.playbackOffset = Math.max(0, Math.min(seconds, this.fileBuffer.duration));
+        if (wasPlaying) this.play();
+    }
+
+    isPlaying(): boolean {
+        return this.fileSource !== null;
+    }
+
+    // Seconds into the loaded file
+    getPlaybackPosition(): number {
+        if (!this.fileBuffer) return 0;
+        if (!this.fileSource || !this.audioContext) return this.playbackOffset;
+        const elapsed = this.audioContext.currentTime - this.playbackStartedAt;
+        return Math.min(this.playbackOffset + elapsed, this.fileBuffer.duration);
+    }
+
+    getFileDuration(): number {
+        return this.fileBuffer?.duration ?? 0;
     }
 
-    getFrequencyData(): Uint8Array | null {
-        if (!this.analyser || !this.dataArray) return null;
-        this.analyser.getByteFrequencyData(this.dataArray);
-        return this.dataArray;
+    getFileAudio(): DecodedAudio | null {
+        const buffer = this.fileBuffer;
+        if (!buffer) return null;
+        const channelData = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+        return { sampleRate: buffer.sampleRate, channelData };
+    }
+
+    // Runs the whole loaded file, mixed to mono, through the same
+    // SpectrumAnalyser frames as transcribe() in an analysis worker of its
+    // own, so a file gives the same notes here as under Node and the page
+    // keeps drawing however long it is. Resolves after the last result.
+    async analyseFileOffline(onResult: (result: AnalysisResult) => void, hopSize = OFFLINE_HOP_SIZE): Promise<void> {
+        const audio = this.getFileAudio();
+        if (!audio) throw new Error("No audio file loaded");
+
+        const worker = new AnalysisWorker();
+        try {
+            await new Promise<void>((resolve, reject) => {
+                worker.onmessage = (e: MessageEvent<AnalysisResult | null>) => {
+                    if (e.data) onResult(e.data);
+                    else resolve();
+                };
+                worker.onerror = e => reject(new Error(e.message));
+                const command: AnalysisCommand = {
+                    type: 'file',
+                    options: {
+                        mode: this.detectionMode,
+                        settings: this.settings,
+                        tuning: this.tuning,
+                        noiseProfile: this.noiseProfile,
+                        subtractNoise: this.subtractNoise,
+                    },
+                    samples: mixToMono(audio.channelData),
+                    sampleRate: audio.sampleRate,
+                    hopSize,
+                };
+                // Copied rather than transferred, a mono file's samples
+                // are the AudioBuffer's own
+                worker.postMessage(command);
+            });
+        } finally {
+            worker.terminate();
+        }
     }
 
     getSampleRate(): number {
@@ -54,4 +338,135 @@ export class AudioEngine {
     getCurrentTime(): number {
         return this.audioContext?.currentTime || 0;
     }
+
+    // The worklet module loads asynchronously, share the one promise so
+    // overlapping calls don't create two contexts
+    private ensureContext(): Promise<AudioContext> {
+        if (!this.contextReady) {
+            this.contextReady = this.createContext().catch(err => {
+                this.stop();
+                throw err;
+            });
+        }
+        return this.contextReady;
+    }
+
+    private async createContext(): Promise<AudioContext> {
+        const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+        this.audioContext = ctx;
+        await ctx.audioWorklet.addModule(analysisProcessorUrl);
+
+        const processorOptions: AnalysisProcessorOptions = { hopSize: this.hopSize };
+        const node = new AudioWorkletNode(ctx, ANALYSIS_PROCESSOR_NAME, {
+            numberOfInputs: 1,
+            numberOfOutputs: 0,
+            processorOptions,
+        });
+        const worker = new AnalysisWorker();
+        worker.onmessage = (e: MessageEvent<AnalysisResult>) => {
+            this.inputLevel = measureLevel(e.data.frame.timeDomainData);
+            this.analysisListener?.(e.data);
+        };
+
+        // The worklet sends its blocks straight to the worker
+        const channel = new MessageChannel();
+        const output: ProcessorCommand = { type: 'output', port: channel.port1 };
+        node.port.postMessage(output, [channel.port1]);
+        const start: AnalysisCommand = {
+            type: 'start',
+            options: {
+                mode: this.detectionMode,
+                settings: this.settings,
+                tuning: this.tuning,
+                noiseProfile: this.noiseProfile,
+                subtractNoise: this.subtractNoise,
+            },
+            input: channel.port2,
+        };
+        worker.postMessage(start, [channel.port2]);
+
+        this.analysisNode = node;
+        this.analysisWorker = worker;
+        return ctx;
+    }
+
+    private sendCommand(command: AnalysisCommand) {
+        this.analysisWorker?.postMessage(command);
+    }
+
+    private sendProcessorCommand(command: ProcessorCommand) {
+        this.analysisNode?.port.postMessage(command);
+    }
+
+    // One channel of a multi-channel input through a splitter, otherwise the
+    // worklet mixes them all down
+    private connectMicrophone(ctx: AudioContext) {
+        const source = ctx.createMediaStreamSource(this.stream!);
+        const channelCount = this.getInputChannelCount();
+        const channel = this.inputOptions.channel;
+        if (channel !== null && channel < channelCount && channelCount > 1) {
+            const splitter = ctx.createChannelSplitter(channelCount);
+            source.connect(splitter);
+            splitter.connect(this.analysisNode!, channel, 0);
+            this.channelSplitter = splitter;
+        } else {
+            source.connect(this.analysisNode!);
+        }
+        this.micSource = source;
+    }
+
+    private disconnectMicrophone() {
+        if (this.micSource) {
+            this.micSource.disconnect();
+            this.micSource = null;
+        }
+        if (this.channelSplitter) {
+            this.channelSplitter.disconnect();
+            this.channelSplitter = null;
+        }
+        this.inputLevel = { peak: 0, rms: 0 };
+    }
+
+    private stopMicrophone() {
+        this.disconnectMicrophone();
+        if (this.stream) {
+            this.stream.getTracks().forEach(track => track.stop());
+            this.stream = null;
+        }
+    }
+
+    private stopFileSource() {
+        const source = this.fileSource;
+        if (!source) return;
+        this.fileSource = null;
+        source.stop();
+        source.disconnect();
+    }
+
+    private unloadFile() {
+        this.stopFileSource();
+        this.fileBuffer = null;
+        this.playbackOffset = 0;
+    }
+}
+
+function inputConstraints(options: InputOptions): MediaTrackConstraints {
+    return {
+        deviceId: options.deviceId ? { exact: options.deviceId } : undefined,
+        echoCancellation: options.echoCancellation,
+        noiseSuppression: options.noiseSuppression,
+        autoGainControl: options.autoGainControl,
+        channelCount: { ideal: MAX_INPUT_CHANNELS },
+    };
+}
+
+function measureLevel(samples: Float32Array): InputLevel {
+    let peak = 0;
+    let sumSquares = 0;
+    for (let i = 0; i < samples.length; i++) {
+        const sample = samples[i]!;
+        peak = Math.max(peak, Math.abs(sample));
+        sumSquares += sample * sample;
+    }
+    return { peak, rms: samples.length > 0 ? Math.sqrt(sumSquares / samples.length) : 0 };
 }
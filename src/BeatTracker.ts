@@ -0,0 +1,195 @@
+import { BeatGrid, MAX_ESTIMATED_BPM, MIN_ESTIMATED_BPM } from "./Quantize";
+import { RecordedNote } from "./Recorder";
+
+const ENVELOPE_STEP = 10; // ms per onset envelope sample
+const MEAN_WINDOW = 10; // Envelope samples either side for the local mean
+const PREFERRED_BPM = 120; // Centre of the tempo preference
+const TEMPO_SPREAD = 1; // Octaves, width of the tempo preference
+const NOTE_ONSET_SPREAD = 3; // Envelope samples either side of a note start, to tolerate timing jitter
+const ONSET_SEARCH = 2; // Envelope samples either side of a beat an onset on it can be
+const METRE_TOLERANCE = 0.9; // Fraction of the best's periodicity a beat 3:2 from it needs to be taken instead
+const TRIPLE_ACCENT_RATIO = 1.1; // Times onsets on one of two beats 3:2 apart need to outweigh the other's, on average, to count as accented
+const ACCENT_RATIO = 1.3; // Times onsets on every other beat need to outweigh those between, on average, for the beat to be twice as long
+
+// Follows the onset strength stream from the NoteDetector while recording
+// and estimates the tempo and where the beats fall
+export class BeatTracker {
+    private envelope: number[] = [];
+    private startTime = 0;
+
+    start(nowMs: number) {
+        this.envelope = [];
+        this.startTime = nowMs;
+    }
+
+    // Frames can arrive at any hop, each envelope sample keeps the strongest
+    // onset that fell within it
+    update(onsetStrength: number, nowMs: number) {
+        const index = Math.floor((nowMs - this.startTime) / ENVELOPE_STEP);
+        if (index < 0) return;
+        while (this.envelope.length <= index) this.envelope.push(0);
+        this.envelope[index] = Math.max(this.envelope[index]!, onsetStrength);
+    }
+
+    // Null until there is enough to go on, offset is from start()
+    estimate(): BeatGrid | null {
+        return estimateBeatGrid(this.envelope, ENVELOPE_STEP);
+    }
+}
+
+// For recordings that were never tracked live, e.g. imported MIDI files,
+// and for a tempo to export when there's no grid. Each note start stands in
+// for an onset.
+export function beatGridFromRecording(recording: RecordedNote[]): BeatGrid | null {
+    const end = recording.reduce((t, n) => Math.max(t, n.startTime), 0);
+    const envelope = new Array<number>(Math.round(end / ENVELOPE_STEP) + NOTE_ONSET_SPREAD + 1).fill(0);
+    for (const n of recording) {
+        const index = Math.round(n.startTime / ENVELOPE_STEP);
+        const strength = n.onsetStrength ?? (n.velocity ?? 100) / 127;
+        for (let d = -NOTE_ONSET_SPREAD; d <= NOTE_ONSET_SPREAD; d++) {
+            const i = index + d;
+            if (i < 0) continue;
+            const value = strength * (1 - Math.abs(d) / (NOTE_ONSET_SPREAD + 1));
+            envelope[i] = Math.max(envelope[i]!, value);
+        }
+    }
+    return estimateBeatGrid(envelope, ENVELOPE_STEP);
+}
+
+// Autocorrelation of the onset envelope gives the beat period, weighted
+// towards PREFERRED_BPM as every multiple of the period correlates too, then
+// checked against the periods related to it by the metre. The phase is
+// where a comb at that period collects the most onset energy.
+// Used both live and for finished recordings, so every tempo shown, snapped
+// to or exported comes from here.
+export function estimateBeatGrid(envelope: ArrayLike<number>, stepMs: number): BeatGrid | null {
+    const minLag = Math.floor(60000 / MAX_ESTIMATED_BPM / stepMs);
+    const maxLag = Math.ceil(60000 / MIN_ESTIMATED_BPM / stepMs);
+    // Two beats at the slowest tempo
+    if (envelope.length < maxLag * 2) return null;
+
+    // Only rises above the local mean count, so steady noise does not
+    // correlate with itself at every lag
+    const detrended = new Float32Array(envelope.length);
+    for (let i = 0; i < envelope.length; i++) {
+        const from = Math.max(0, i - MEAN_WINDOW);
+        const to = Math.min(envelope.length - 1, i + MEAN_WINDOW);
+        let sum = 0;
+        for (let j = from; j <= to; j++) sum += envelope[j]!;
+        detrended[i] = Math.max(0, envelope[i]! - sum / (to - from + 1));
+    }
+
+    const correlation = new Float32Array(2 * maxLag + 3);
+    for (let lag = minLag - 1; lag < correlation.length && lag < detrended.length; lag++) {
+        let sum = 0;
+        for (let i = lag; i < detrended.length; i++) sum += detrended[i]! * detrended[i - lag]!;
+        // Normalise for the shrinking overlap
+        correlation[lag] = sum / (detrended.length - lag);
+    }
+
+    // Lags are whole envelope samples, a period that falls between two
+    // correlates at either
+    const correlationNear = (lag: number) => {
+        const whole = Math.round(lag);
+        return Math.max(correlation[whole - 1] ?? 0, correlation[whole] ?? 0, correlation[whole + 1] ?? 0);
+    };
+    // Half the weight again for two beats lining up too, so the beat wins
+    // over its own subdivisions
+    const periodicity = (lag: number) => correlationNear(lag) + 0.5 * correlationNear(2 * lag);
+    const preference = (lag: number) => {
+        const octaves = Math.log2(60000 / (lag * stepMs) / PREFERRED_BPM) / TEMPO_SPREAD;
+        return Math.exp(-0.5 * octaves * octaves);
+    };
+
+    let bestLag = -1;
+    let bestScore = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        const score = periodicity(lag) * preference(lag);
+        if (score > bestScore) {
+            bestScore = score;
+            bestLag = lag;
+        }
+    }
+    if (bestLag === -1) return null;
+
+    // Average onset on the strongest comb at `period`, the beats are the
+    // loudest onsets
+    const beatStrength = (period: number) => meanOnset(detrended, period, strongestPhase(detrended, period).phase);
+
+    // Even eighth notes correlate as well at three of them as at two, and
+    // the preference can land on either. Beats are far more often split in
+    // two than in three, so a period 2:3 or 4:3 of the best that correlates
+    // about as well is taken, unless accents every three make the best's
+    // beats louder. Those accents, as in triplets, also move the beat from
+    // two of the subdivisions to three.
+    const related = (ratios: number[]) => ratios
+        .map(ratio => bestLag * ratio)
+        .filter(lag => lag >= minLag && lag <= maxLag && periodicity(lag) >= METRE_TOLERANCE * periodicity(bestLag))
+        .sort((a, b) => preference(b) - preference(a));
+    const duple = related([2 / 3, 4 / 3])
+        .find(lag => beatStrength(bestLag) < TRIPLE_ACCENT_RATIO * beatStrength(lag));
+    const triple = related([3 / 2, 3 / 4])
+        .find(lag => beatStrength(lag) >= TRIPLE_ACCENT_RATIO * beatStrength(bestLag));
+    if (duple !== undefined) bestLag = Math.round(duple);
+    else if (triple !== undefined) bestLag = Math.round(triple);
+
+    // Parabolic interpolation for a period between envelope samples
+    const prev = correlation[bestLag - 1]!;
+    const current = correlation[bestLag]!;
+    const next = correlation[bestLag + 1]!;
+    const denominator = prev - 2 * current + next;
+    let period = bestLag + (denominator < 0 ? 0.5 * (prev - next) / denominator : 0);
+
+    // A rhythm that repeats every two beats correlates best at two, and
+    // even eighths as well at one as at two. Every other beat clearly
+    // louder than the onsets halfway between, e.g. accented quarter notes
+    // among eighths, makes those offbeats. Otherwise the preferred of the
+    // two tempos is taken, by the average onset so a syncopated rhythm
+    // missing some beats doesn't count as accented.
+    const accented = (beat: number) => {
+        const { phase } = strongestPhase(detrended, 2 * beat);
+        const between = meanOnset(detrended, 2 * beat, phase + beat);
+        return between === 0 || meanOnset(detrended, 2 * beat, phase) >= ACCENT_RATIO * between;
+    };
+    if (2 * period <= maxLag + 1 && (accented(period) || preference(2 * period) > preference(period))) {
+        period *= 2;
+    } else if (period / 2 >= minLag && !accented(period / 2) && preference(period / 2) > preference(period)) {
+        period /= 2;
+    }
+    const { phase } = strongestPhase(detrended, period);
+
+    return {
+        bpm: 60000 / (period * stepMs),
+        offset: phase * stepMs,
+    };
+}
+
+// Onset energy on every `period` samples from `phase`
+function combSum(envelope: Float32Array, period: number, phase: number): number {
+    let sum = 0;
+    for (let t = phase; t < envelope.length; t += period) sum += envelope[Math.round(t)] ?? 0;
+    return sum;
+}
+
+// Of the onsets on the comb, give or take timing, 0 when it misses them all
+function meanOnset(envelope: Float32Array, period: number, phase: number): number {
+    let sum = 0;
+    let count = 0;
+    for (let t = phase; t < envelope.length; t += period) {
+        let value = 0;
+        for (let i = Math.round(t) - ONSET_SEARCH; i <= Math.round(t) + ONSET_SEARCH; i++) value = Math.max(value, envelope[i] ?? 0);
+        if (value <= 0) continue;
+        sum += value;
+        count++;
+    }
+    return count > 0 ? sum / count : 0;
+}
+
+function strongestPhase(envelope: Float32Array, period: number): { phase: number, sum: number } {
+    let best = { phase: 0, sum: -1 };
+    for (let phase = 0; phase < period; phase++) {
+        const sum = combSum(envelope, period, phase);
+        if (sum > best.sum) best = { phase, sum };
+    }
+    return best;
+}
@@ -5,10 +5,39 @@ export const FREQ_BINS = FFT_SIZE / 2;
 export const HISTORY_SIZE = 512; // Number of history frames to keep
 export const MIN_NOTE_DURATION = 50; // ms
 export const NOTE_THRESHOLD = 100; // Amplitude threshold (0-255)
+export const ONSET_THRESHOLD = 0.3; // Onset strength (0-1) that starts a new note while one of the same pitch is sounding
+export const MIN_ONSET_INTERVAL = 60; // ms, the attack of one note can't re-trigger it
+export const MIN_DECIBELS = -100; // Maps to 0 in the byte frequency data
+export const MAX_DECIBELS = -30; // Maps to 255 in the byte frequency data
+export const SMOOTHING_TIME_CONSTANT = 0.5; // Averaging of each bin with the previous frame (0-1)
 export const NOTES_TO_SHOW = 5;
 export const MAX_FREQ_SCALE = 0.3; // 0.5 = Half of Nyquist (e.g. 0-11kHz if 44.1kHz)
 export const AMPLITUDE_LOG_SCALE = 10.0;
 export const RECORD_DURATION_MS = 30000; // 30 seconds
-export const NOTES_TO_RECORD = NOTES_TO_SHOW * 2;
+export const ANALYSIS_HOP_SIZE = 512; // Samples between live analysis frames, taken in an AudioWorklet
+export const OFFLINE_HOP_SIZE = 512; // Samples between analysis frames when processing a file faster than real time
+export const OFFLINE_RENDER_INTERVAL = 32; // Only redraw the spectrogram every N frames during offline analysis
+export const MAX_INPUT_CHANNELS = 32; // Asked for so multi-channel interfaces open with all their inputs
+
+// Monophonic pitch tracking (YIN)
+export const YIN_THRESHOLD = 0.15; // Lower = stricter periodicity requirement
+export const MIN_PITCH_FREQ = 50; // Hz
+export const MAX_PITCH_FREQ = 2000; // Hz
+export const MIN_PITCH_RMS = 0.01; // Below this the frame is treated as silence
+export const PITCH_CONFIDENCE_THRESHOLD = 0.85;
+
+// Polyphonic transcription (iterative harmonic subtraction)
+export const MIN_POLYPHONIC_MIDI = 28; // E1, lowest guitar / bass string
+export const MAX_POLYPHONIC_MIDI = 108; // C8, top of the piano
+export const MAX_HARMONICS = 20;
+export const MAX_POLYPHONY = 10; // Notes per frame
+export const POLYPHONY_EXPONENT = 0.5; // Higher = more reluctant to add another note
+
+// Noise calibration
+export const NOISE_CALIBRATION_MS = 3000; // Ambient noise captured by "Calibrate"
+export const NOISE_MARGIN_DB = 6; // A peak must be this far above the loudest noise seen in its bin
+export const NOISE_RMS_MARGIN = 2; // The pitch tracker's silence gate, times the noise RMS
+export const NOISE_OVERSUBTRACTION = 2; // Times the average noise power removed by spectral subtraction
+export const NOISE_SPECTRAL_FLOOR = 0.01; // Fraction of the power always kept, avoids "musical noise"
 
 export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
@@ -3,75 +3,191 @@
 import { useEffect, useRef, useState } from "preact/hooks";
 import "./DemoSim.css";
 
-import { AudioEngine } from "./AudioEngine";
-import { NOTES_TO_RECORD, RECORD_DURATION_MS } from "./Constants";
-import { NoteDetector } from "./NoteDetector";
+import { AnalysisResult } from "./AnalysisMessages";
+import { AudioCapture } from "./AudioCapture";
+import { AudioEngine, AudioSourceKind } from "./AudioEngine";
+import { BeatTracker, beatGridFromRecording } from "./BeatTracker";
+import { ANALYSIS_HOP_SIZE, NOISE_CALIBRATION_MS, OFFLINE_RENDER_INTERVAL } from "./Constants";
+import { ExportPanel } from "./ExportPanel";
+import { HarmonyEstimate, HarmonyRecorder, HarmonyTracker, HarmonyTracks, mainKey } from "./Harmony";
+import { InputPanel } from "./InputPanel";
+import { InstrumentPanel } from "./InstrumentPanel";
+import { LibraryPanel } from "./LibraryPanel";
+import { MidiFileData, midiToRecording, parseMidiFile } from "./MidiFile";
+import { NoiseCalibrator, NoiseProfile } from "./NoiseProfile";
+import { DetectionMode, NoteDetector } from "./NoteDetector";
+import { EditHistory } from "./NoteEditing";
 import { NoteVisualizerController } from "./NoteVisualizer";
-import { Player } from "./Player";
-import { Recorder } from "./Recorder";
+import { PianoRoll } from "./PianoRoll";
+import { applyPitchContour, PitchContour, PitchContourRecorder } from "./PitchContour";
+import { PitchEstimate } from "./PitchTracker";
+import { LoopRegion, Player } from "./Player";
+import { BeatGrid } from "./Quantize";
+import { QuantizePanel } from "./QuantizePanel";
+import { RecordedNote, Recorder } from "./Recorder";
+import { AnalysisSettings, loadSettings, notesToRecord, saveSettings } from "./Settings";
+import { SettingsPanel } from "./SettingsPanel";
+import { decodeShareFragment } from "./ShareLink";
 import { SpectrogramController } from "./Spectrogram";
+import { Take, TakeContent } from "./Takes";
+import { TransportPanel } from "./TransportPanel";
+import { Tuner } from "./Tuner";
+import { TunerView } from "./TunerView";
+import { DEFAULT_TUNING, nearestNote, Tuning } from "./Tuning";
+import { TuningPanel } from "./TuningPanel";
+import { DecodedAudio } from "./Wav";
+
+// In the order the mode button steps through them
+const DETECTION_MODE_LABELS: Record<DetectionMode, string> = {
+    peaks: 'Peaks',
+    monophonic: 'Monophonic',
+    polyphonic: 'Polyphonic',
+};
 
 export const DemoSim = () => {
     const containerRef = useRef<HTMLDivElement>(null);
     const canvas3DRef = useRef<HTMLCanvasElement>(null);
     const notesContainerRef = useRef<HTMLDivElement>(null);
     const notesScrollRef = useRef<HTMLDivElement>(null);
+    const pitchReadoutRef = useRef<HTMLDivElement>(null);
+    const harmonyReadoutRef = useRef<HTMLDivElement>(null);
+    const lastHarmonyRef = useRef<HarmonyEstimate | null>(null);
+    const seekRef = useRef<HTMLInputElement>(null);
+    const lastPitchRef = useRef<PitchEstimate | null>(null);
+    const tempoReadoutRef = useRef<HTMLSpanElement>(null);
+    const lastTempoEstimateRef = useRef(0);
+    // Timeline drag that becomes a loop region, in ms
+    const timelineDragRef = useRef<{ start: number, clientX: number } | null>(null);
+    const dragLoopRef = useRef<LoopRegion | null>(null);
 
     const [started, setStarted] = useState(false);
     const [isRecording, setIsRecording] = useState(false);
-    const [hasRecording, setHasRecording] = useState(false);
+    const [recording, setRecordingState] = useState<RecordedNote[] | null>(null);
+    const hasRecording = recording !== null;
+    const [detectionMode, setDetectionMode] = useState<DetectionMode>('peaks');
+    const detectionModeRef = useRef<DetectionMode>(detectionMode);
+    const [sourceKind, setSourceKind] = useState<AudioSourceKind | null>(null);
+    const [isFilePlaying, setIsFilePlaying] = useState(false);
+    const [fileDuration, setFileDuration] = useState(0);
+    const [analysingOffline, setAnalysingOffline] = useState(false);
+    const analysingOfflineRef = useRef(false);
+    const [beatGrid, setBeatGrid] = useState<BeatGrid | null>(null);
+    const [harmony, setHarmony] = useState<HarmonyTracks | null>(null);
+    const [contour, setContour] = useState<PitchContour | null>(null);
+    // What the recording was detected with, taken when it started, null for
+    // notes that weren't detected here
+    const [detectedWith, setDetectedWith] = useState<Pick<TakeContent, 'detectionMode' | 'settings'> | null>(null);
+    const [recordedAudio, setRecordedAudio] = useState<DecodedAudio | null>(null);
+    const [noiseProfile, setNoiseProfile] = useState<NoiseProfile | null>(null);
+    const noiseProfileRef = useRef<NoiseProfile | null>(null);
+    const [subtractNoiseEnabled, setSubtractNoiseEnabled] = useState(true);
+    const subtractNoiseRef = useRef(true);
+    const [calibrating, setCalibrating] = useState(false);
+    const noiseCalibratorRef = useRef<NoiseCalibrator | null>(null);
+    const calibrationStartRef = useRef<number | null>(null);
+    const [settings, setSettings] = useState<AnalysisSettings>(loadSettings);
+    const settingsRef = useRef(settings);
+    const [tuning, setTuning] = useState<Tuning>(DEFAULT_TUNING);
+    const [showTuner, setShowTuner] = useState(false);
+    const showTunerRef = useRef(false);
+    const modeBeforeTunerRef = useRef<DetectionMode>('peaks');
+    const [midiImport, setMidiImport] = useState<MidiFileData | null>(null);
+    const [midiTrack, setMidiTrack] = useState<number | undefined>(undefined);
+    const [midiChannel, setMidiChannel] = useState<number | undefined>(undefined);
 
     // Logic Controllers
-    const audioEngineRef = useRef<AudioEngine>(new AudioEngine());
-    const noteDetectorRef = useRef<NoteDetector>(new NoteDetector());
+    const audioEngineRef = useRef<AudioEngine>(new AudioEngine(ANALYSIS_HOP_SIZE, settings));
+    const noteDetectorRef = useRef<NoteDetector>(new NoteDetector(settings));
     const spectrogramRef = useRef<SpectrogramController | null>(null);
     const noteVisualizerRef = useRef<NoteVisualizerController | null>(null);
-    const recorderRef = useRef<Recorder>(new Recorder(RECORD_DURATION_MS, NOTES_TO_RECORD));
+    const recorderRef = useRef<Recorder>(new Recorder(settings.recordDurationMs, notesToRecord(settings)));
+    const beatTrackerRef = useRef<BeatTracker>(new BeatTracker());
+    const harmonyTrackerRef = useRef<HarmonyTracker>(new HarmonyTracker());
+    const harmonyRecorderRef = useRef<HarmonyRecorder>(new HarmonyRecorder());
+    const contourRecorderRef = useRef<PitchContourRecorder>(new PitchContourRecorder());
+    const audioCaptureRef = useRef<AudioCapture>(new AudioCapture());
     const playerRef = useRef<Player>(new Player());
+    const tunerRef = useRef<Tuner>(new Tuner());
+    const editHistoryRef = useRef<EditHistory>(new EditHistory());
+
+    // A different recording, the edits of the last one can't be undone
+    const setRecording = (notes: RecordedNote[] | null) => {
+        editHistoryRef.current.clear();
+        setRecordingState(notes);
+    };
+
+    // Changed by hand in the piano roll or by quantizing
+    const handleEditRecording = (notes: RecordedNote[]) => {
+        if (recording) editHistoryRef.current.push(recording);
+        setRecordingState(notes);
+    };
+
+    const handleUndo = () => {
+        const notes = recording && editHistoryRef.current.undo(recording);
+        if (notes) setRecordingState(notes);
+    };
+
+    const handleRedo = () => {
+        const notes = recording && editHistoryRef.current.redo(recording);
+        if (notes) setRecordingState(notes);
+    };
 
     const startAudio = async () => {
         try {
             await audioEngineRef.current.start();
+            setSourceKind('microphone');
+            setIsFilePlaying(false);
             setStarted(true);
         } catch (err) {
             alert("Could not access microphone.");
         }
     };
 
+    const openFile = async (file: File) => {
+        try {
+            await audioEngineRef.current.loadFile(file);
+            setSourceKind('file');
+            setIsFilePlaying(false);
+            setFileDuration(audioEngineRef.current.getFileDuration());
+            setStarted(true);
+        } catch (err) {
+            alert("Could not decode audio file.");
+        }
+    };
+
     useEffect(() => {
         if (!started || !canvas3DRef.current || !notesScrollRef.current || !notesContainerRef.current) return;
 
         // Initialize Visualizers
-        spectrogramRef.current = new SpectrogramController(canvas3DRef.current);
-        noteVisualizerRef.current = new NoteVisualizerController(notesContainerRef.current, notesScrollRef.current);
+        spectrogramRef.current = new SpectrogramController(canvas3DRef.current, settingsRef.current);
+        noteVisualizerRef.current = new NoteVisualizerController(notesContainerRef.current, notesScrollRef.current, settingsRef.current);
+
+        // Frames arrive from the analysis worker at a fixed hop whatever the
+        // display is doing, the animation loop below only draws
+        audioEngineRef.current.onAnalysis(result => {
+            // The offline analysis feeds frames itself
+            if (analysingOfflineRef.current) return;
+            handleAnalysis(result, false);
+        });
 
         let animationId: number;
 
         const animate = () => {
             animationId = requestAnimationFrame(animate);
 
-            const dataArray = audioEngineRef.current.getFrequencyData();
-            if (!dataArray) return;
-
-            // Update Spectrogram
-            spectrogramRef.current?.update(dataArray);
-
-            // Detect Notes
-            const sampleRate = audioEngineRef.current.getSampleRate();
-            const currentTime = audioEngineRef.current.getCurrentTime() * 1000;
-            const confirmedNotes = noteDetectorRef.current.detect(dataArray, sampleRate, currentTime);
+            updatePlayhead();
+            updateTempoReadout();
+            updateHarmonyReadout();
+            if (detectionModeRef.current === 'monophonic') updatePitchReadout();
+            if (analysingOfflineRef.current) return;
 
-            // Update Note Visualizer
-            noteVisualizerRef.current?.update(confirmedNotes);
+            spectrogramRef.current?.render();
 
-            // Update Recorder
-            if (recorderRef.current.isRecordingActive) {
-                recorderRef.current.update(confirmedNotes);
-                if (!recorderRef.current.isRecordingActive) {
-                    setIsRecording(false);
-                    setHasRecording(true);
-                }
+            if (seekRef.current && document.activeElement !== seekRef.current) {
+                seekRef.current.value = audioEngineRef.current.getPlaybackPosition().toString();
             }
+            const playing = audioEngineRef.current.isPlaying();
+            setIsFilePlaying(current => current === playing ? current : playing);
         };
 
         animate();
@@ -88,46 +204,433 @@ export const DemoSim = () => {
 
         return () => {
             cancelAnimationFrame(animationId);
+            audioEngineRef.current.onAnalysis(null);
             window.removeEventListener('resize', handleResize);
             audioEngineRef.current.stop();
             spectrogramRef.current?.dispose();
         };
     }, [started]);
 
-    const handleStartRecording = () => {
-        recorderRef.current.start();
+    const handleAnalysis = ({ frame, notes, pitch, onsetStrength, samples }: AnalysisResult, render: boolean) => {
+        const calibrator = noiseCalibratorRef.current;
+        if (calibrator) {
+            calibrationStartRef.current ??= frame.timeMs;
+            calibrator.add(frame);
+            if (frame.timeMs - calibrationStartRef.current >= NOISE_CALIBRATION_MS) {
+                noiseCalibratorRef.current = null;
+                applyNoiseProfile(calibrator.finish(), subtractNoiseRef.current);
+                setCalibrating(false);
+            }
+        }
+
+        // Update Spectrogram
+        spectrogramRef.current?.update(frame.frequencyData, render);
+        lastPitchRef.current = pitch;
+        if (showTunerRef.current) tunerRef.current.update(pitch, frame.timeMs);
+
+        // Update Note Visualizer
+        noteVisualizerRef.current?.update(notes);
+
+        const harmony = harmonyTrackerRef.current.update(frame);
+        lastHarmonyRef.current = harmony;
+
+        // Update Recorder
+        if (recorderRef.current.isRecordingActive) {
+            if (samples) audioCaptureRef.current.add(samples, frame.timeMs, frame.sampleRate);
+            beatTrackerRef.current.update(onsetStrength, frame.timeMs);
+            harmonyRecorderRef.current.update(harmony, frame.timeMs);
+            contourRecorderRef.current.update(pitch, frame.timeMs);
+            recorderRef.current.update(notes, frame.timeMs);
+            if (!recorderRef.current.isRecordingActive) finishRecording(frame.timeMs);
+        }
+    };
+
+    const startRecording = (nowMs: number) => {
+        recorderRef.current.start(nowMs);
+        beatTrackerRef.current.start(nowMs);
+        harmonyRecorderRef.current.start(nowMs);
+        contourRecorderRef.current.start(nowMs);
+        audioCaptureRef.current.start(nowMs);
+        audioEngineRef.current.setCapturing(true);
+        setDetectedWith({ detectionMode: detectionModeRef.current, settings: settingsRef.current });
         setIsRecording(true);
-        setHasRecording(false);
+        setRecording(null);
+        setRecordedAudio(null);
     };
 
-    const handleStopRecording = () => {
-        recorderRef.current.stop();
+    // The recorder has stopped, keep its notes with the pitch contour through
+    // them, the chords and key heard and the beat found while recording, or
+    // failing that from the notes, and the audio they came from. Only
+    // monophonic mode tracks the pitch.
+    const finishRecording = (nowMs: number, audio = audioCaptureRef.current.getAudio()) => {
+        const pitchContour = contourRecorderRef.current.getContour();
+        const notes = applyPitchContour(recorderRef.current.getRecording(), pitchContour, noteDetectorRef.current.getTuning());
+        harmonyRecorderRef.current.stop(nowMs);
+        audioEngineRef.current.setCapturing(false);
         setIsRecording(false);
-        setHasRecording(true);
+        setRecording(notes);
+        setRecordedAudio(audio);
+        setContour(pitchContour.length > 0 ? pitchContour : null);
+        setBeatGrid(beatTrackerRef.current.estimate() ?? beatGridFromRecording(notes));
+        setHarmony(harmonyRecorderRef.current.getTracks());
+    };
+
+    // Re-estimating is too slow to do every frame
+    const updateTempoReadout = () => {
+        if (!tempoReadoutRef.current) return;
+        const now = performance.now();
+        if (now - lastTempoEstimateRef.current < 1000) return;
+        lastTempoEstimateRef.current = now;
+        const grid = beatTrackerRef.current.estimate();
+        tempoReadoutRef.current.textContent = grid ? `♩ = ${Math.round(grid.bpm)}` : '♩ = …';
+    };
+
+    const updatePlayhead = () => {
+        const visualizer = noteVisualizerRef.current;
+        if (!visualizer) return;
+        const state = playerRef.current.getState();
+        visualizer.setPlayhead(state.status === 'stopped' ? null : state.position);
+        visualizer.setLoopRegion(dragLoopRef.current ?? state.loop);
+    };
+
+    const updateHarmonyReadout = () => {
+        if (!harmonyReadoutRef.current) return;
+        const { chord, key } = lastHarmonyRef.current ?? { chord: null, key: null };
+        const chordLabel = chord ? `${chord.name} (${Math.round(chord.confidence * 100)}%)` : '—';
+        const keyLabel = key ? `${key.name} ${key.mode}` : '—';
+        harmonyReadoutRef.current.textContent = `Chord ${chordLabel} · Key ${keyLabel}`;
+    };
+
+    const updatePitchReadout = () => {
+        if (!pitchReadoutRef.current) return;
+        const pitch = lastPitchRef.current;
+        if (!pitch) {
+            pitchReadoutRef.current.textContent = '—';
+            return;
+        }
+        const note = noteDetectorRef.current.getNoteFromFrequency(pitch.frequency);
+        const cents = Math.round(nearestNote(pitch.frequency, noteDetectorRef.current.getTuning())?.cents ?? 0);
+        const centsLabel = `${cents >= 0 ? '+' : ''}${cents}¢`;
+        pitchReadoutRef.current.textContent = `${note} ${centsLabel} ${pitch.frequency.toFixed(1)} Hz (${Math.round(pitch.confidence * 100)}%)`;
+    };
+
+    const selectDetectionMode = (mode: DetectionMode) => {
+        detectionModeRef.current = mode;
+        audioEngineRef.current.setDetectionMode(mode);
+        noteDetectorRef.current.reset();
+        lastPitchRef.current = null;
+        setDetectionMode(mode);
+    };
+
+    const handleToggleDetectionMode = () => {
+        const modes = Object.keys(DETECTION_MODE_LABELS) as DetectionMode[];
+        selectDetectionMode(modes[(modes.indexOf(detectionMode) + 1) % modes.length]!);
+    };
+
+    // The tuner reads the pitch tracker, so needs monophonic mode while open
+    const handleToggleTuner = () => {
+        const show = !showTunerRef.current;
+        showTunerRef.current = show;
+        tunerRef.current.reset();
+        if (show) {
+            modeBeforeTunerRef.current = detectionModeRef.current;
+            selectDetectionMode('monophonic');
+        } else {
+            selectDetectionMode(modeBeforeTunerRef.current);
+        }
+        setShowTuner(show);
+    };
+
+    // Note names from the detector, the chords, the tuner and playback all
+    // follow it
+    const handleTuningChange = (next: Tuning) => {
+        setTuning(next);
+        audioEngineRef.current.setTuning(next);
+        noteDetectorRef.current.setTuning(next);
+        contourRecorderRef.current.setTuning(next);
+        harmonyTrackerRef.current.setTuning(next);
+        playerRef.current.setTuning(next);
+        tunerRef.current.setTuning(next);
+    };
+
+    // The analysis worker follows the profile, and a file analysed after it
+    const applyNoiseProfile = (profile: NoiseProfile | null, subtract: boolean) => {
+        noiseProfileRef.current = profile;
+        subtractNoiseRef.current = subtract;
+        audioEngineRef.current.setNoiseProfile(profile, subtract);
+        setNoiseProfile(profile);
+        setSubtractNoiseEnabled(subtract);
+    };
+
+    // The old profile is dropped first so the frames collected are the raw
+    // noise rather than what is left after subtracting it
+    const handleCalibrateNoise = () => {
+        applyNoiseProfile(null, subtractNoiseRef.current);
+        noiseCalibratorRef.current = new NoiseCalibrator();
+        calibrationStartRef.current = null;
+        setCalibrating(true);
+    };
+
+    const handleClearNoiseProfile = () => {
+        applyNoiseProfile(null, subtractNoiseRef.current);
+    };
+
+    // Everything follows the new settings straight away, the spectrogram
+    // starts again empty if the FFT size changed
+    const handleSettingsChange = (next: AnalysisSettings) => {
+        const fftSizeChanged = next.fftSize !== settingsRef.current.fftSize;
+        settingsRef.current = next;
+        setSettings(next);
+        saveSettings(next);
+        audioEngineRef.current.setSettings(next);
+        noteDetectorRef.current.setSettings(next);
+        spectrogramRef.current?.setSettings(next);
+        noteVisualizerRef.current?.setSettings(next);
+        recorderRef.current.setLimits(next.recordDurationMs, notesToRecord(next));
+        // A noise profile only fits the FFT size it was measured with
+        if (fftSizeChanged && noiseProfileRef.current) applyNoiseProfile(null, subtractNoiseRef.current);
+    };
+
+    const handleFileInput = (e: Event) => {
+        const input = e.currentTarget as HTMLInputElement;
+        const file = input.files?.[0];
+        input.value = ''; // Allow the same file to be picked again
+        if (file) openFile(file);
+    };
+
+    const handleDragOver = (e: DragEvent) => {
+        e.preventDefault();
+    };
+
+    const handleDrop = (e: DragEvent) => {
+        e.preventDefault();
+        const file = e.dataTransfer?.files[0];
+        if (file) openFile(file);
+    };
+
+    const handleTogglePlayback = async () => {
+        if (audioEngineRef.current.isPlaying()) {
+            audioEngineRef.current.pause();
+            setIsFilePlaying(false);
+        } else {
+            await audioEngineRef.current.play();
+            setIsFilePlaying(true);
+        }
+    };
+
+    const handleSeek = (e: Event) => {
+        const seconds = parseFloat((e.currentTarget as HTMLInputElement).value);
+        audioEngineRef.current.seek(seconds);
+        audioEngineRef.current.resetAnalysis();
     };
 
-    const handlePlayRecording = () => {
-        const recording = recorderRef.current.getRecording();
-        playerRef.current.play(recording);
+    // Processes the whole file faster than real time into a new recording
+    const handleAnalyseFile = async () => {
+        const engine = audioEngineRef.current;
+        engine.pause();
+        setIsFilePlaying(false);
+
+        analysingOfflineRef.current = true;
+        setAnalysingOffline(true);
+        harmonyTrackerRef.current.reset();
+        noteVisualizerRef.current?.clear();
+
+        const durationMs = engine.getFileDuration() * 1000;
+        // +1 so the recorder does not stop itself before the last frame
+        const recorder = new Recorder(durationMs + 1, notesToRecord(settingsRef.current));
+        recorderRef.current = recorder;
+        startRecording(0);
+
+        let frameCount = 0;
+        try {
+            await engine.analyseFileOffline(result => {
+                frameCount++;
+                handleAnalysis(result, frameCount % OFFLINE_RENDER_INTERVAL === 0);
+            });
+            recorder.stop(durationMs);
+            spectrogramRef.current?.render();
+            // Nothing is captured offline, keep the file itself
+            finishRecording(durationMs, engine.getFileAudio());
+        } catch (err) {
+            console.error("Error analysing audio file:", err);
+            alert("Could not analyse audio file.");
+            recorder.stop(0);
+            engine.setCapturing(false);
+            setIsRecording(false);
+        } finally {
+            harmonyTrackerRef.current.reset();
+            analysingOfflineRef.current = false;
+            setAnalysingOffline(false);
+        }
+    };
+
+    const handleStartRecording = () => {
+        // Same clock as the frames' timeMs
+        startRecording(audioEngineRef.current.getCurrentTime() * 1000);
+    };
+
+    const handleStopRecording = () => {
+        const nowMs = audioEngineRef.current.getCurrentTime() * 1000;
+        recorderRef.current.stop(nowMs);
+        finishRecording(nowMs);
+    };
+
+    // Over a recording a click on the timeline seeks and a drag sets the loop
+    const handleTimelineMouseDown = (e: MouseEvent) => {
+        const position = noteVisualizerRef.current?.positionFromClientX(e.clientX);
+        if (position === undefined || position === null) return;
+        timelineDragRef.current = { start: position, clientX: e.clientX };
+    };
+
+    const handleTimelineMouseMove = (e: MouseEvent) => {
+        const drag = timelineDragRef.current;
+        if (!drag || Math.abs(e.clientX - drag.clientX) < 5) return;
+        const position = noteVisualizerRef.current?.positionFromClientX(e.clientX);
+        if (position === undefined || position === null) return;
+        dragLoopRef.current = { start: drag.start, end: position };
+    };
+
+    const handleTimelineMouseUp = () => {
+        const drag = timelineDragRef.current;
+        if (!drag) return;
+        if (dragLoopRef.current) playerRef.current.setLoop(dragLoopRef.current);
+        else playerRef.current.seek(drag.start);
+        timelineDragRef.current = null;
+        dragLoopRef.current = null;
+    };
+
+    const handleMidiFileInput = async (e: Event) => {
+        const input = e.currentTarget as HTMLInputElement;
+        const file = input.files?.[0];
+        input.value = '';
+        if (!file) return;
+
+        try {
+            const data = parseMidiFile(await file.arrayBuffer());
+            // Default to the first track with notes in it
+            const track = data.tracks.findIndex(t => t.notes.length > 0);
+            setMidiImport(data);
+            setMidiTrack(track === -1 ? undefined : track);
+            setMidiChannel(undefined);
+            setRecording(midiToRecording(data, { track: track === -1 ? undefined : track }));
+            setRecordedAudio(null);
+            setHarmony(null);
+            setContour(null);
+            setDetectedWith(null);
+            // Beats are known exactly, from the first tempo in the file
+            setBeatGrid({ bpm: 60000000 / data.tempoMap[0]!.microsecondsPerQuarter, offset: 0 });
+        } catch (err) {
+            console.error("Error reading MIDI file:", err);
+            alert("Could not read MIDI file.");
+        }
+    };
+
+    const handleSelectMidiPart = (track: number | undefined, channel: number | undefined) => {
+        if (!midiImport) return;
+        setMidiTrack(track);
+        setMidiChannel(channel);
+        setRecording(midiToRecording(midiImport, { track, channel }));
+    };
+
+    // The take's tuning comes with it so its notes play at the right pitch
+    const handleLoadTake = (take: Take, audio: DecodedAudio | null) => {
+        handleTuningChange(take.tuning);
+        setRecording(take.notes);
+        setRecordedAudio(audio);
+        setBeatGrid(take.beatGrid);
+        setHarmony(take.harmony ?? null); // Saved before takes kept them
+        setContour(take.contour ?? null);
+        setDetectedWith({ detectionMode: take.detectionMode, settings: take.settings });
+        setMidiImport(null);
+    };
+
+    const handleUseTakeSettings = (take: Take) => {
+        handleSettingsChange(take.settings);
+        selectDetectionMode(take.detectionMode);
     };
 
     const handleClearRecording = () => {
-        setHasRecording(false);
+        // Offline analysis replaces the recorder with one sized to the file
+        recorderRef.current = new Recorder(settingsRef.current.recordDurationMs, notesToRecord(settingsRef.current));
+        setRecording(null);
+        setRecordedAudio(null);
+        setBeatGrid(null);
+        setHarmony(null);
+        setContour(null);
+        setDetectedWith(null);
+        setMidiImport(null);
     };
 
+    // A recording shared as a link, when the page opens or another link is
+    // pasted into it
+    useEffect(() => {
+        const openSharedRecording = async () => {
+            try {
+                const notes = await decodeShareFragment(location.hash);
+                if (!notes) return;
+                setRecording(notes);
+                setRecordedAudio(null);
+                setBeatGrid(beatGridFromRecording(notes));
+                setHarmony(null);
+                setContour(null);
+                setDetectedWith(null);
+                setMidiImport(null);
+            } catch (err) {
+                console.error("Error reading shared recording:", err);
+                alert(`Could not open the shared recording: ${(err as Error).message}`);
+            }
+        };
+        openSharedRecording();
+        window.addEventListener('hashchange', openSharedRecording);
+        return () => window.removeEventListener('hashchange', openSharedRecording);
+    }, []);
+
+    // Show the finished / imported recording in the note timeline, go back to
+    // the live view when it is cleared
+    useEffect(() => {
+        if (!noteVisualizerRef.current) return;
+        if (recording) {
+            noteVisualizerRef.current.showRecording(recording);
+            noteVisualizerRef.current.setBeatGrid(beatGrid);
+            noteVisualizerRef.current.setHarmonyTracks(harmony);
+            noteVisualizerRef.current.setPitchContour(contour);
+        } else {
+            noteVisualizerRef.current.clear();
+        }
+    }, [recording, beatGrid, harmony, contour, started]);
+
+    const midiChannels = midiImport
+        ? [...new Set((midiTrack === undefined ? midiImport.tracks : midiImport.tracks.slice(midiTrack, midiTrack + 1))
+            .flatMap(t => t.channels))].sort((a, b) => a - b)
+        : [];
+
     return (
-        <div className="demo-sim-container" ref={containerRef} style={{ width: '100%', maxWidth: '100%' }}>
+        <div className="demo-sim-container" ref={containerRef} onDragOver={handleDragOver} onDrop={handleDrop} style={{ width: '100%', maxWidth: '100%' }}>
             {!started && (
                 <div className="start-overlay" style={{
                     position: 'absolute',
                     top: '50%',
                     left: '50%',
                     transform: 'translate(-50%, -50%)',
-                    zIndex: 10
+                    zIndex: 10,
+                    display: 'flex',
+                    flexDirection: 'column',
+                    alignItems: 'center',
+                    gap: '10px'
                 }}>
                     <button onClick={startAudio} style={{ padding: '10px 20px', fontSize: '16px' }}>
                         Start Microphone
                     </button>
+                    <label className="button" style={{ padding: '10px 20px', fontSize: '16px' }}>
+                        Open Audio File
+                        <input type="file" accept="audio/*,.wav,.mp3,.ogg,.flac" onChange={handleFileInput} style={{ display: 'none' }} />
+                    </label>
+                    <div>or drop a file here</div>
+                    {recording && (
+                        <button onClick={() => setStarted(true)} style={{ padding: '10px 20px', fontSize: '16px' }} title="See and play the notes without an audio input">
+                            View Recording
+                        </button>
+                    )}
                 </div>
             )}
 
@@ -140,26 +643,120 @@ export const DemoSim = () => {
                     display: 'flex',
                     gap: '10px'
                 }}>
-                    {!isRecording && !hasRecording && (
-                        <button onClick={handleStartRecording} style={{ padding: '5px 10px' }}>
-                            Start Recording
-                        </button>
+                    <button onClick={handleToggleDetectionMode} disabled={showTuner} style={{ padding: '5px 10px' }}>
+                        Mode: {DETECTION_MODE_LABELS[detectionMode]}
+                    </button>
+                    <button onClick={handleToggleTuner} disabled={analysingOffline} style={{ padding: '5px 10px' }}>
+                        {showTuner ? 'Close Tuner' : 'Tuner'}
+                    </button>
+                    <button
+                        onClick={handleCalibrateNoise}
+                        disabled={calibrating || analysingOffline}
+                        style={{ padding: '5px 10px' }}
+                        title={`Measure the background noise, keep quiet for ${NOISE_CALIBRATION_MS / 1000} seconds`}
+                    >
+                        {calibrating ? 'Calibrating…' : noiseProfile ? 'Recalibrate Noise' : 'Calibrate Noise'}
+                    </button>
+                    {noiseProfile && (
+                        <>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }} title="Remove the measured noise from the spectrum before detecting notes">
+                                <input
+                                    type="checkbox"
+                                    checked={subtractNoiseEnabled}
+                                    onChange={e => applyNoiseProfile(noiseProfile, e.currentTarget.checked)}
+                                />
+                                Subtract Noise
+                            </label>
+                            <button onClick={handleClearNoiseProfile} style={{ padding: '5px 10px' }} title="Back to fixed detection thresholds">
+                                Clear Noise
+                            </button>
+                        </>
                     )}
-                    {isRecording && (
-                        <button onClick={handleStopRecording} style={{ padding: '5px 10px', background: 'red', color: 'white' }}>
-                            Stop Recording
-                        </button>
+                    {sourceKind === 'file' ? (
+                        <>
+                            <button onClick={handleTogglePlayback} disabled={analysingOffline} style={{ padding: '5px 10px' }}>
+                                {isFilePlaying ? 'Pause' : 'Play'}
+                            </button>
+                            <input
+                                type="range"
+                                ref={seekRef}
+                                min={0}
+                                max={fileDuration}
+                                step={0.01}
+                                defaultValue="0"
+                                onChange={handleSeek}
+                                disabled={analysingOffline}
+                            />
+                            <button onClick={handleAnalyseFile} disabled={analysingOffline || isRecording} style={{ padding: '5px 10px' }}>
+                                {analysingOffline ? 'Analysing…' : 'Analyse Whole File'}
+                            </button>
+                            <button onClick={startAudio} disabled={analysingOffline} style={{ padding: '5px 10px' }}>
+                                Use Microphone
+                            </button>
+                        </>
+                    ) : (
+                        <>
+                            <label className="button" style={{ padding: '5px 10px' }}>
+                                Open Audio File
+                                <input type="file" accept="audio/*,.wav,.mp3,.ogg,.flac" onChange={handleFileInput} style={{ display: 'none' }} />
+                            </label>
+                            {!sourceKind && (
+                                <button onClick={startAudio} style={{ padding: '5px 10px' }}>
+                                    Use Microphone
+                                </button>
+                            )}
+                        </>
                     )}
-                    {hasRecording && (
+                    {!isRecording && !hasRecording && (
                         <>
-                            <button onClick={handlePlayRecording} style={{ padding: '5px 10px', background: 'green', color: 'white' }}>
-                                Play Recording
+                            <button onClick={handleStartRecording} disabled={!sourceKind} style={{ padding: '5px 10px' }}>
+                                Start Recording
                             </button>
-                            <button onClick={handleClearRecording} style={{ padding: '5px 10px' }}>
-                                Clear / Re-record
+                            <label className="button" style={{ padding: '5px 10px' }}>
+                                Load .mid
+                                <input type="file" accept=".mid,.midi,audio/midi" onChange={handleMidiFileInput} style={{ display: 'none' }} />
+                            </label>
+                        </>
+                    )}
+                    {hasRecording && midiImport && (
+                        <>
+                            <select
+                                value={midiTrack ?? ''}
+                                onChange={e => handleSelectMidiPart(e.currentTarget.value === '' ? undefined : parseInt(e.currentTarget.value, 10), undefined)}
+                                title="MIDI track"
+                            >
+                                <option value="">All tracks</option>
+                                {midiImport.tracks.map((track, i) => track.notes.length > 0 && (
+                                    <option key={i} value={i}>{track.name || `Track ${i + 1}`}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={midiChannel ?? ''}
+                                onChange={e => handleSelectMidiPart(midiTrack, e.currentTarget.value === '' ? undefined : parseInt(e.currentTarget.value, 10))}
+                                title="MIDI channel"
+                            >
+                                <option value="">All channels</option>
+                                {midiChannels.map(channel => (
+                                    <option key={channel} value={channel}>Channel {channel + 1}</option>
+                                ))}
+                            </select>
+                        </>
+                    )}
+                    {isRecording && (
+                        <>
+                            <span ref={tempoReadoutRef} style={{ alignSelf: 'center', fontFamily: 'monospace' }} title="Estimated tempo">
+                                ♩ = …
+                            </span>
+                            <button onClick={handleStopRecording} style={{ padding: '5px 10px', background: 'red', color: 'white' }}>
+                                Stop Recording
                             </button>
                         </>
                     )}
+                    {hasRecording && (
+                        <button onClick={handleClearRecording} style={{ padding: '5px 10px' }}>
+                            Clear / Re-record
+                        </button>
+                    )}
                 </div>
             )}
 
@@ -176,15 +773,57 @@ export const DemoSim = () => {
                 }}>
                     Frequency (Y) vs Time (X)
                 </div>
+                {started && detectionMode === 'monophonic' && (
+                    <div ref={pitchReadoutRef} style={{
+                        position: 'absolute',
+                        bottom: '10px',
+                        left: '10px',
+                        color: 'white',
+                        fontFamily: 'monospace',
+                        pointerEvents: 'none',
+                        background: 'rgba(0,0,0,0.5)',
+                        padding: '5px'
+                    }}>
+                        —
+                    </div>
+                )}
+                {started && showTuner && (
+                    <div style={{ position: 'absolute', top: '50px', left: '50%', transform: 'translateX(-50%)', zIndex: 15 }}>
+                        <TunerView tuner={tunerRef.current} tuning={tuning} onTuningChange={handleTuningChange} />
+                    </div>
+                )}
+                {started && (
+                    <div ref={harmonyReadoutRef} style={{
+                        position: 'absolute',
+                        bottom: '10px',
+                        right: '10px',
+                        color: 'white',
+                        fontFamily: 'monospace',
+                        pointerEvents: 'none',
+                        background: 'rgba(0,0,0,0.5)',
+                        padding: '5px'
+                    }}>
+                        —
+                    </div>
+                )}
             </div>
 
-            <div className="notes-container" ref={notesContainerRef} style={{
-                background: '#222',
-                width: '100%',
-                height: '150px',
-                overflow: 'hidden',
-                position: 'relative'
-            }}>
+            <div
+                className="notes-container"
+                ref={notesContainerRef}
+                onMouseDown={handleTimelineMouseDown}
+                onMouseMove={handleTimelineMouseMove}
+                onMouseUp={handleTimelineMouseUp}
+                onMouseLeave={handleTimelineMouseUp}
+                style={{
+                    background: '#222',
+                    width: '100%',
+                    height: '150px',
+                    overflow: 'hidden',
+                    position: 'relative',
+                    cursor: hasRecording ? 'text' : undefined
+                }}
+            >
                 <div ref={notesScrollRef} style={{
                     position: 'absolute',
                     top: 0,
@@ -195,6 +834,60 @@ export const DemoSim = () => {
                 }}>
                 </div>
             </div>
+
+            {sourceKind === 'microphone' && <InputPanel engine={audioEngineRef.current} />}
+            {started && (
+                <details>
+                    <summary>Analysis settings</summary>
+                    <SettingsPanel
+                        settings={settings}
+                        sampleRate={audioEngineRef.current.getSampleRate()}
+                        disabled={analysingOffline}
+                        onChange={handleSettingsChange}
+                    />
+                </details>
+            )}
+            <details>
+                <summary>Tuning</summary>
+                <TuningPanel tuning={tuning} onChange={handleTuningChange} />
+            </details>
+            <details>
+                <summary>Library</summary>
+                <LibraryPanel
+                    current={recording && { ...(detectedWith ?? { detectionMode, settings }), tuning, beatGrid, notes: recording, harmony, contour }}
+                    audio={recordedAudio}
+                    disabled={isRecording || analysingOffline}
+                    onLoad={handleLoadTake}
+                    onUseSettings={handleUseTakeSettings}
+                />
+            </details>
+            {recording && <TransportPanel player={playerRef.current} recording={recording} audio={recordedAudio} />}
+            {recording && (
+                <details>
+                    <summary>Piano Roll</summary>
+                    <PianoRoll
+                        recording={recording}
+                        tuning={tuning}
+                        beatGrid={beatGrid}
+                        player={playerRef.current}
+                        canUndo={editHistoryRef.current.canUndo()}
+                        canRedo={editHistoryRef.current.canRedo()}
+                        onChange={handleEditRecording}
+                        onUndo={handleUndo}
+                        onRedo={handleRedo}
+                    />
+                </details>
+            )}
+            {recording && <InstrumentPanel player={playerRef.current} />}
+            {recording && (
+                <QuantizePanel
+                    recording={recording}
+                    beatGrid={beatGrid}
+                    onBeatGridChange={setBeatGrid}
+                    onQuantize={handleEditRecording}
+                />
+            )}
+            {recording && <ExportPanel recording={recording} suggestedKey={mainKey(harmony)?.signature} tuning={tuning} beatGrid={beatGrid} audio={recordedAudio} />}
         </div>
     );
 }
@@ -0,0 +1,157 @@
+import { useEffect, useState } from "preact/hooks";
+
+import { beatGridFromRecording } from "./BeatTracker";
+import { download } from "./download";
+import { DEFAULT_MIDI_BPM, DEFAULT_MIDI_PPQ, writeMidiFile } from "./MidiFile";
+import { DEFAULT_KEY, DEFAULT_TIME_SIGNATURE, getKeyName, KEY_SIGNATURES, KeySignature, toAbc, toMusicXml } from "./Notation";
+import { BeatGrid, TimeSignature } from "./Quantize";
+import { RecordedNote } from "./Recorder";
+import { encodeShareFragment } from "./ShareLink";
+import { Tuning } from "./Tuning";
+import { DecodedAudio, encodeWav } from "./Wav";
+
+interface ExportPanelProps {
+    recording: RecordedNote[];
+    suggestedKey?: KeySignature; // e.g. the key heard while recording
+    tuning?: Tuning; // The recording's note names are in
+    beatGrid?: BeatGrid | null; // Tempo and beats found while recording
+    audio?: DecodedAudio | null; // Input captured with the notes
+}
+
+const LINK_COPIED_MS = 2000; // "Link Copied" shown this long
+
+const TIME_SIGNATURES: TimeSignature[] = [
+    { beats: 4, beatType: 4 },
+    { beats: 3, beatType: 4 },
+    { beats: 2, beatType: 4 },
+    { beats: 6, beatType: 8 },
+];
+
+// To a tenth of a BPM, close enough to stay on the beat for minutes
+function roundBpm(bpm: number): number {
+    return Math.round(bpm * 10) / 10;
+}
+
+function keyIndexOf(key: KeySignature): number {
+    return KEY_SIGNATURES.findIndex(k => k.fifths === key.fifths && k.mode === key.mode);
+}
+
+export const ExportPanel = ({ recording, suggestedKey, tuning, beatGrid, audio }: ExportPanelProps) => {
+    const [bpm, setBpm] = useState(beatGrid ? roundBpm(beatGrid.bpm) : DEFAULT_MIDI_BPM);
+    const [offset, setOffset] = useState(beatGrid?.offset ?? 0); // ms of a beat, kept when the tempo is typed in
+    const [ppq, setPpq] = useState(DEFAULT_MIDI_PPQ);
+    const [keyIndex, setKeyIndex] = useState(keyIndexOf(suggestedKey ?? DEFAULT_KEY));
+    const [linkCopied, setLinkCopied] = useState(false);
+    const [timeSignatureIndex, setTimeSignatureIndex] = useState(TIME_SIGNATURES.findIndex(t => t.beats === DEFAULT_TIME_SIGNATURE.beats && t.beatType === DEFAULT_TIME_SIGNATURE.beatType));
+
+    useEffect(() => {
+        if (!suggestedKey) return;
+        const index = keyIndexOf(suggestedKey);
+        if (index !== -1) setKeyIndex(index);
+    }, [suggestedKey?.fifths, suggestedKey?.mode]);
+
+    useEffect(() => {
+        if (!beatGrid) return;
+        setBpm(roundBpm(beatGrid.bpm));
+        setOffset(beatGrid.offset);
+    }, [beatGrid?.bpm, beatGrid?.offset]);
+
+    const handleDetect = () => {
+        const grid = beatGridFromRecording(recording);
+        if (!grid) {
+            alert("There are too few notes to find the tempo.");
+            return;
+        }
+        setBpm(roundBpm(grid.bpm));
+        setOffset(grid.offset);
+    };
+
+    const notationOptions = () => ({
+        beatGrid: { bpm, offset },
+        key: KEY_SIGNATURES[keyIndex],
+        timeSignature: TIME_SIGNATURES[timeSignatureIndex],
+        title: 'Recording',
+        tuning,
+    });
+
+    const handleDownloadMidi = () => {
+        const bytes = writeMidiFile(recording, { beatGrid: { bpm, offset }, ppq, trackName: 'Recording', tuning });
+        download(bytes, 'recording.mid', 'audio/midi');
+    };
+
+    const handleDownloadMusicXml = () => {
+        download(toMusicXml(recording, notationOptions()), 'recording.musicxml', 'application/vnd.recordare.musicxml+xml');
+    };
+
+    const handleDownloadAbc = () => {
+        download(toAbc(recording, notationOptions()), 'recording.abc', 'text/vnd.abc');
+    };
+
+    const handleCopyLink = async () => {
+        let url: string;
+        try {
+            url = `${location.origin}${location.pathname}${location.search}#${await encodeShareFragment(recording, tuning)}`;
+        } catch (err) {
+            console.error("Error making share link:", err);
+            alert(`Could not make a link: ${(err as Error).message}`);
+            return;
+        }
+        try {
+            await navigator.clipboard.writeText(url);
+            setLinkCopied(true);
+            setTimeout(() => setLinkCopied(false), LINK_COPIED_MS);
+        } catch {
+            // No clipboard access, e.g. over plain http
+            prompt("Copy this link", url);
+        }
+    };
+
+    const handleDownloadWav = () => {
+        if (audio) download(encodeWav(audio), 'recording.wav', 'audio/wav');
+    };
+
+    return (
+        <div className="export-panel" style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px', padding: '10px 0' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                BPM
+                <input
+                    type="number"
+                    min={20}
+                    max={300}
+                    value={bpm}
+                    onChange={e => setBpm(parseFloat(e.currentTarget.value) || DEFAULT_MIDI_BPM)}
+                    style={{ width: '4em' }}
+                />
+            </label>
+            <button onClick={handleDetect} style={{ padding: '5px 10px' }} title="Estimate the tempo and beats from the note onsets">
+                Detect
+            </button>
+            <select value={timeSignatureIndex} onChange={e => setTimeSignatureIndex(parseInt(e.currentTarget.value, 10))} title="Time signature">
+                {TIME_SIGNATURES.map((t, i) => <option key={i} value={i}>{t.beats}/{t.beatType}</option>)}
+            </select>
+            <select value={keyIndex} onChange={e => setKeyIndex(parseInt(e.currentTarget.value, 10))} title="Key signature, used to spell sharps and flats">
+                {KEY_SIGNATURES.map((k, i) => <option key={i} value={i}>{getKeyName(k)}</option>)}
+            </select>
+            <select value={ppq} onChange={e => setPpq(parseInt(e.currentTarget.value, 10))} title="MIDI ticks per quarter note">
+                {[96, 192, 480, 960].map(value => <option key={value} value={value}>{value} PPQ</option>)}
+            </select>
+            <button onClick={handleDownloadMidi} style={{ padding: '5px 10px' }}>
+                Download .mid
+            </button>
+            <button onClick={handleDownloadMusicXml} style={{ padding: '5px 10px' }}>
+                Download MusicXML
+            </button>
+            <button onClick={handleDownloadAbc} style={{ padding: '5px 10px' }}>
+                Download ABC
+            </button>
+            <button onClick={handleCopyLink} style={{ padding: '5px 10px' }} title="The notes as a link, without pitch bend or microtones">
+                {linkCopied ? 'Link Copied' : 'Copy Link'}
+            </button>
+            {audio && (
+                <button onClick={handleDownloadWav} style={{ padding: '5px 10px' }} title="The input the notes were detected in">
+                    Download .wav
+                </button>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,79 @@
+// In place radix-2 Cooley-Tukey FFT, no DOM or Web Audio dependencies so it
+// also runs under Node and in a worker
+export class FFT {
+    readonly size: number;
+    private cosTable: Float32Array;
+    private sinTable: Float32Array;
+    private reverseTable: Uint32Array;
+
+    constructor(size: number) {
+        if (size < 2 || (size & (size - 1)) !== 0) {
+            throw new Error(`FFT size must be a power of 2, got ${size}`);
+        }
+        this.size = size;
+
+        this.cosTable = new Float32Array(size / 2);
+        this.sinTable = new Float32Array(size / 2);
+        for (let i = 0; i < size / 2; i++) {
+            this.cosTable[i] = Math.cos(-2 * Math.PI * i / size);
+            this.sinTable[i] = Math.sin(-2 * Math.PI * i / size);
+        }
+
+        const bits = Math.log2(size);
+        this.reverseTable = new Uint32Array(size);
+        for (let i = 0; i < size; i++) {
+            let reversed = 0;
+            for (let b = 0; b < bits; b++) {
+                reversed = (reversed << 1) | ((i >> b) & 1);
+            }
+            this.reverseTable[i] = reversed;
+        }
+    }
+
+    // Both arrays must be `size` long, they are overwritten with the result
+    transform(real: Float32Array, imag: Float32Array) {
+        const n = this.size;
+
+        for (let i = 0; i < n; i++) {
+            const j = this.reverseTable[i]!;
+            if (j > i) {
+                const tr = real[i]!; real[i] = real[j]!; real[j] = tr;
+                const ti = imag[i]!; imag[i] = imag[j]!; imag[j] = ti;
+            }
+        }
+
+        for (let halfSize = 1; halfSize < n; halfSize *= 2) {
+            const tableStep = n / (halfSize * 2);
+            for (let start = 0; start < n; start += halfSize * 2) {
+                for (let k = 0; k < halfSize; k++) {
+                    const cos = this.cosTable[k * tableStep]!;
+                    const sin = this.sinTable[k * tableStep]!;
+                    const a = start + k;
+                    const b = a + halfSize;
+                    const tr = real[b]! * cos - imag[b]! * sin;
+                    const ti = real[b]! * sin + imag[b]! * cos;
+                    real[b] = real[a]! - tr;
+                    imag[b] = imag[a]! - ti;
+                    real[a] = real[a]! + tr;
+                    imag[a] = imag[a]! + ti;
+                }
+            }
+        }
+    }
+}
+
+// Same window AnalyserNode applies, see
+// https://webaudio.github.io/web-audio-api/#blackman-window
+export function blackmanWindow(size: number): Float32Array {
+    const alpha = 0.16;
+    const a0 = (1 - alpha) / 2;
+    const a1 = 0.5;
+    const a2 = alpha / 2;
+    const window = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+        window[i] = a0
+            - a1 * Math.cos(2 * Math.PI * i / size)
+            + a2 * Math.cos(4 * Math.PI * i / size);
+    }
+    return window;
+}
@@ -0,0 +1,314 @@
+import { MAX_FREQ_SCALE, MIN_DECIBELS, NOTE_NAMES } from "./Constants";
+import { getKeyName, KeySignature } from "./Notation";
+import { AnalysisFrame } from "./SpectrumAnalyser";
+import { DEFAULT_TUNING, frequencyToMidi, nearestNote, Tuning } from "./Tuning";
+
+// Chord and key estimation from chroma, the spectrum folded into the 12
+// pitch classes
+
+export interface ChordEstimate {
+    root: number; // Pitch class, 0 = C
+    quality: string; // Key of CHORD_QUALITIES
+    name: string; // e.g. 'F#m7'
+    confidence: number; // 0-1, similarity of the chroma to the chord
+}
+
+export interface KeyEstimate {
+    tonic: number; // Pitch class, 0 = C
+    mode: 'major' | 'minor';
+    signature: KeySignature;
+    name: string; // e.g. 'Eb', 'C#m'
+    confidence: number; // Correlation with the key profile, -1 to 1
+}
+
+export interface HarmonyEstimate {
+    chord: ChordEstimate | null; // Null when nothing chord like is sounding
+    key: KeyEstimate | null;
+}
+
+export interface ChordSegment {
+    name: string;
+    root: number;
+    quality: string;
+    startTime: number; // ms from start of recording
+    duration: number; // ms
+    confidence: number; // Average over the segment
+}
+
+export interface KeySegment {
+    name: string;
+    tonic: number;
+    mode: 'major' | 'minor';
+    signature: KeySignature;
+    startTime: number; // ms from start of recording
+    duration: number; // ms
+    confidence: number; // Average over the segment
+}
+
+// Stored alongside the notes of a recording
+export interface HarmonyTracks {
+    chords: ChordSegment[];
+    keys: KeySegment[];
+}
+
+// Intervals above the root, and the suffix for the chord name
+export const CHORD_QUALITIES: Record<string, { intervals: number[], suffix: string }> = {
+    maj: { intervals: [0, 4, 7], suffix: '' },
+    min: { intervals: [0, 3, 7], suffix: 'm' },
+    dom7: { intervals: [0, 4, 7, 10], suffix: '7' },
+    maj7: { intervals: [0, 4, 7, 11], suffix: 'maj7' },
+    min7: { intervals: [0, 3, 7, 10], suffix: 'm7' },
+    sus2: { intervals: [0, 2, 7], suffix: 'sus2' },
+    sus4: { intervals: [0, 5, 7], suffix: 'sus4' },
+    dim: { intervals: [0, 3, 6], suffix: 'dim' },
+    aug: { intervals: [0, 4, 8], suffix: 'aug' },
+    power: { intervals: [0, 7], suffix: '5' }, // No third, so neither major nor minor
+};
+
+// Krumhansl & Kessler (1982) probe tone ratings, starting from the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const MIN_CHROMA_FREQ = 80; // Hz, below this peaks of neighbouring notes run together
+const PEAK_FLOOR_DB = MIN_DECIBELS + 30; // Quieter spectral peaks are ignored
+const MIN_CHORD_CONFIDENCE = 0.75;
+const CHORD_SMOOTHING = 150; // ms time constant of the chroma used for chords
+const KEY_MEMORY = 15000; // ms time constant of the chroma used for the key
+const MIN_CHORD_DURATION = 150; // ms, shorter chord segments are dropped
+const MIN_KEY_DURATION = 2000; // ms, shorter key segments are dropped
+
+// Sums the magnitude of each spectral peak into the pitch class of the
+// nearest note of `tuning`. Only peaks count so the skirts of one note don't
+// leak into its neighbours.
+export function computeChroma(floatFrequencyData: Float32Array, sampleRate: number, tuning = DEFAULT_TUNING, out = new Float32Array(12)): Float32Array {
+    out.fill(0);
+    const binWidth = sampleRate / (2 * floatFrequencyData.length);
+    const minBin = Math.max(1, Math.ceil(MIN_CHROMA_FREQ / binWidth));
+    const maxBin = Math.min(Math.floor(floatFrequencyData.length * MAX_FREQ_SCALE), floatFrequencyData.length - 1);
+
+    for (let i = minBin; i < maxBin; i++) {
+        const prev = floatFrequencyData[i - 1]!;
+        const db = floatFrequencyData[i]!;
+        const next = floatFrequencyData[i + 1]!;
+        if (db < PEAK_FLOOR_DB || db <= prev || db < next) continue;
+
+        // Bins are wider than a semitone at low frequencies so the peak
+        // position is interpolated as in NoteDetector.detect
+        const denominator = prev - 2 * db + next;
+        const offset = denominator !== 0 && Number.isFinite(denominator) ? 0.5 * (prev - next) / denominator : 0;
+        const frequency = (i + offset) * binWidth;
+        const note = nearestNote(frequency, tuning);
+        if (!note) continue;
+        // Where that note sits among the twelve semitones from the reference
+        const midi = frequencyToMidi(frequency, tuning) - note.cents / 100;
+        const pitchClass = ((Math.round(midi) % 12) + 12) % 12;
+        out[pitchClass] = out[pitchClass]! + Math.pow(10, db / 20);
+    }
+    return out;
+}
+
+// Best matching chord template by cosine similarity
+export function recognizeChord(chroma: ArrayLike<number>): ChordEstimate | null {
+    const norm = Math.sqrt(Array.from(chroma).reduce((sum, c) => sum + c * c, 0));
+    if (norm <= 0) return null;
+
+    let best: ChordEstimate | null = null;
+    for (const [quality, { intervals, suffix }] of Object.entries(CHORD_QUALITIES)) {
+        for (let root = 0; root < 12; root++) {
+            let dot = 0;
+            for (const interval of intervals) dot += chroma[(root + interval) % 12]!;
+            const confidence = dot / (norm * Math.sqrt(intervals.length));
+            if (!best || confidence > best.confidence) {
+                best = { root, quality, name: `${NOTE_NAMES[root]}${suffix}`, confidence };
+            }
+        }
+    }
+    return best && best.confidence >= MIN_CHORD_CONFIDENCE ? best : null;
+}
+
+// Krumhansl-Schmuckler key finding: the key whose profile, rotated to its
+// tonic, correlates best with the chroma
+export function estimateKey(chroma: ArrayLike<number>): KeyEstimate | null {
+    if (Array.from(chroma).every(c => c <= 0)) return null;
+
+    let best: KeyEstimate | null = null;
+    for (const mode of ['major', 'minor'] as const) {
+        const profile = mode === 'major' ? MAJOR_PROFILE : MINOR_PROFILE;
+        for (let tonic = 0; tonic < 12; tonic++) {
+            const confidence = correlation(chroma, i => profile[(i - tonic + 12) % 12]!);
+            if (!best || confidence > best.confidence) {
+                const signature = keySignatureFor(tonic, mode);
+                best = { tonic, mode, signature, name: getKeyName(signature), confidence };
+            }
+        }
+    }
+    return best;
+}
+
+// Flats are preferred for the key six fifths away
+function keySignatureFor(tonic: number, mode: 'major' | 'minor'): KeySignature {
+    const majorTonic = mode === 'major' ? tonic : (tonic + 3) % 12;
+    const fifths = (majorTonic * 7) % 12;
+    return { fifths: fifths > 5 ? fifths - 12 : fifths, mode };
+}
+
+function correlation(x: ArrayLike<number>, y: (i: number) => number): number {
+    let meanX = 0;
+    let meanY = 0;
+    for (let i = 0; i < 12; i++) {
+        meanX += x[i]! / 12;
+        meanY += y(i) / 12;
+    }
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    for (let i = 0; i < 12; i++) {
+        const dx = x[i]! - meanX;
+        const dy = y(i) - meanY;
+        covariance += dx * dy;
+        varianceX += dx * dx;
+        varianceY += dy * dy;
+    }
+    return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : 0;
+}
+
+// Keeps a short average of the chroma for the current chord and a long one
+// for the key, frame timestamps set how much each frame counts
+export class HarmonyTracker {
+    private frameChroma = new Float32Array(12);
+    private chordChroma = new Float32Array(12);
+    private keyChroma = new Float32Array(12);
+    private lastTimeMs: number | null = null;
+    private tuning = DEFAULT_TUNING;
+
+    update(frame: AnalysisFrame): HarmonyEstimate {
+        // The first frame is taken as it is
+        const elapsed = this.lastTimeMs === null ? Infinity : Math.max(0, frame.timeMs - this.lastTimeMs);
+        this.lastTimeMs = frame.timeMs;
+
+        computeChroma(frame.floatFrequencyData, frame.sampleRate, this.tuning, this.frameChroma);
+        const chordWeight = 1 - Math.exp(-elapsed / CHORD_SMOOTHING);
+        const keyDecay = Number.isFinite(elapsed) ? Math.exp(-elapsed / KEY_MEMORY) : 0;
+        for (let i = 0; i < 12; i++) {
+            this.chordChroma[i] = this.chordChroma[i]! + chordWeight * (this.frameChroma[i]! - this.chordChroma[i]!);
+            this.keyChroma[i] = this.keyChroma[i]! * keyDecay + this.frameChroma[i]!;
+        }
+
+        return {
+            chord: recognizeChord(this.chordChroma),
+            key: estimateKey(this.keyChroma),
+        };
+    }
+
+    reset() {
+        this.chordChroma.fill(0);
+        this.keyChroma.fill(0);
+        this.lastTimeMs = null;
+    }
+
+    setTuning(tuning: Tuning) {
+        this.tuning = tuning;
+    }
+}
+
+// Turns the stream of estimates into chord and key segments, in the same
+// way the Recorder turns detected notes into RecordedNotes
+export class HarmonyRecorder {
+    private startTime = 0;
+    private chords: ChordSegment[] = [];
+    private keys: KeySegment[] = [];
+    private currentChord: { chord: ChordEstimate, start: number, confidenceSum: number, frames: number } | null = null;
+    private currentKey: { key: KeyEstimate, start: number, confidenceSum: number, frames: number } | null = null;
+
+    start(nowMs: number) {
+        this.startTime = nowMs;
+        this.chords = [];
+        this.keys = [];
+        this.currentChord = null;
+        this.currentKey = null;
+    }
+
+    update(estimate: HarmonyEstimate, nowMs: number) {
+        const { chord, key } = estimate;
+
+        if (this.currentChord && this.currentChord.chord.name !== chord?.name) this.endChord(nowMs);
+        if (chord) {
+            if (!this.currentChord) this.currentChord = { chord, start: nowMs, confidenceSum: 0, frames: 0 };
+            this.currentChord.confidenceSum += chord.confidence;
+            this.currentChord.frames++;
+        }
+
+        if (this.currentKey && this.currentKey.key.name !== key?.name) this.endKey(nowMs);
+        if (key) {
+            if (!this.currentKey) this.currentKey = { key, start: nowMs, confidenceSum: 0, frames: 0 };
+            this.currentKey.confidenceSum += key.confidence;
+            this.currentKey.frames++;
+        }
+    }
+
+    stop(nowMs: number) {
+        this.endChord(nowMs);
+        this.endKey(nowMs);
+    }
+
+    getTracks(): HarmonyTracks {
+        return {
+            chords: mergeSegments(this.chords, MIN_CHORD_DURATION),
+            keys: mergeSegments(this.keys, MIN_KEY_DURATION),
+        };
+    }
+
+    private endChord(nowMs: number) {
+        const current = this.currentChord;
+        if (!current) return;
+        this.chords.push({
+            name: current.chord.name,
+            root: current.chord.root,
+            quality: current.chord.quality,
+            startTime: current.start - this.startTime,
+            duration: nowMs - current.start,
+            confidence: current.confidenceSum / current.frames,
+        });
+        this.currentChord = null;
+    }
+
+    private endKey(nowMs: number) {
+        const current = this.currentKey;
+        if (!current) return;
+        this.keys.push({
+            name: current.key.name,
+            tonic: current.key.tonic,
+            mode: current.key.mode,
+            signature: current.key.signature,
+            startTime: current.start - this.startTime,
+            duration: nowMs - current.start,
+            confidence: current.confidenceSum / current.frames,
+        });
+        this.currentKey = null;
+    }
+}
+
+// Drops flickers shorter than `minDuration` then joins what they
+// interrupted, so A A(short B) A becomes one A
+function mergeSegments<T extends { name: string, startTime: number, duration: number, confidence: number }>(segments: T[], minDuration: number): T[] {
+    const merged: T[] = [];
+    for (const segment of segments) {
+        if (segment.duration < minDuration) continue;
+        const last = merged[merged.length - 1];
+        if (last && last.name === segment.name && segment.startTime - (last.startTime + last.duration) <= minDuration) {
+            const end = segment.startTime + segment.duration;
+            const totalDuration = last.duration + segment.duration;
+            last.confidence = (last.confidence * last.duration + segment.confidence * segment.duration) / totalDuration;
+            last.duration = end - last.startTime;
+        } else {
+            merged.push({ ...segment });
+        }
+    }
+    return merged;
+}
+
+// The key heard for longest, e.g. to suggest a key signature for export
+export function mainKey(tracks: HarmonyTracks | null): KeySegment | null {
+    if (!tracks) return null;
+    return tracks.keys.reduce<KeySegment | null>((best, k) => !best || k.duration > best.duration ? k : best, null);
+}
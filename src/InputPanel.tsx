@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState } from "preact/hooks";
+
+import { AudioEngine, InputOptions } from "./AudioEngine";
+
+interface InputPanelProps {
+    engine: AudioEngine;
+}
+
+const METER_MIN_DB = -60; // Left end of the level meter
+const PEAK_HOLD_MS = 1000;
+const PEAK_FALL_DB_PER_SECOND = 20;
+const CLIP_LEVEL = 0.99; // Peak taken as clipping, full scale = 1
+const CLIP_HOLD_MS = 2000;
+
+const PROCESSING_OPTIONS: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl', label: string, title: string }[] = [
+    { key: 'echoCancellation', label: 'Echo cancellation', title: 'Removes sound that came from the speakers, and sustained notes with it' },
+    { key: 'noiseSuppression', label: 'Noise suppression', title: 'Treats steady tones as noise' },
+    { key: 'autoGainControl', label: 'Auto gain', title: 'Keeps changing the level, which upsets onsets and velocities' },
+];
+
+function toMeterFraction(level: number): number {
+    const db = 20 * Math.log10(level);
+    return Math.max(0, Math.min(1, (db - METER_MIN_DB) / -METER_MIN_DB));
+}
+
+export const InputPanel = ({ engine }: InputPanelProps) => {
+    const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+    const [options, setOptions] = useState<InputOptions>(() => engine.getInputOptions());
+    const [deviceId, setDeviceId] = useState<string | null>(() => engine.getInputDeviceId());
+    const [channelCount, setChannelCount] = useState(() => engine.getInputChannelCount());
+    const [switching, setSwitching] = useState(false);
+    const rmsBarRef = useRef<HTMLDivElement>(null);
+    const peakMarkerRef = useRef<HTMLDivElement>(null);
+    const clipRef = useRef<HTMLDivElement>(null);
+
+    const refresh = async () => {
+        setDevices(await engine.listInputDevices());
+        setOptions(engine.getInputOptions());
+        setDeviceId(engine.getInputDeviceId());
+        setChannelCount(engine.getInputChannelCount());
+    };
+
+    // Devices come and go, the engine has already fallen back to the
+    // default if the one in use went
+    useEffect(() => {
+        refresh();
+        navigator.mediaDevices.addEventListener('devicechange', refresh);
+        return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+    }, [engine]);
+
+    // Drawn directly rather than through state, it changes every frame
+    useEffect(() => {
+        let animationId: number;
+        let heldPeak = 0; // Meter fraction
+        let heldAt = 0;
+        let clippedAt = -Infinity;
+        let lastTime = performance.now();
+
+        const draw = (now: number) => {
+            animationId = requestAnimationFrame(draw);
+            const level = engine.getInputLevel();
+            const peak = toMeterFraction(level.peak);
+            if (peak >= heldPeak) {
+                heldPeak = peak;
+                heldAt = now;
+            } else if (now - heldAt > PEAK_HOLD_MS) {
+                heldPeak = Math.max(peak, heldPeak - PEAK_FALL_DB_PER_SECOND / -METER_MIN_DB * (now - lastTime) / 1000);
+            }
+            if (level.peak >= CLIP_LEVEL) clippedAt = now;
+            lastTime = now;
+
+            if (rmsBarRef.current) rmsBarRef.current.style.width = `${toMeterFraction(level.rms) * 100}%`;
+            if (peakMarkerRef.current) peakMarkerRef.current.style.left = `${heldPeak * 100}%`;
+            if (clipRef.current) clipRef.current.style.background = now - clippedAt < CLIP_HOLD_MS ? 'red' : '#400';
+        };
+        animationId = requestAnimationFrame(draw);
+        return () => cancelAnimationFrame(animationId);
+    }, [engine]);
+
+    const apply = async (changes: Partial<InputOptions>) => {
+        setSwitching(true);
+        try {
+            await engine.setInputOptions(changes);
+        } catch (err) {
+            alert("Could not switch input.");
+        } finally {
+            setSwitching(false);
+            refresh();
+        }
+    };
+
+    return (
+        <div className="input-panel" style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px', padding: '10px 0' }}>
+            <select
+                value={deviceId ?? ''}
+                onChange={e => apply({ deviceId: e.currentTarget.value || null, channel: null })}
+                disabled={switching}
+                title="Input device"
+            >
+                {devices.map((device, i) => (
+                    <option key={device.deviceId} value={device.deviceId}>{device.label || `Input ${i + 1}`}</option>
+                ))}
+            </select>
+            {channelCount > 1 && (
+                <select
+                    value={options.channel ?? ''}
+                    onChange={e => apply({ channel: e.currentTarget.value === '' ? null : parseInt(e.currentTarget.value, 10) })}
+                    disabled={switching}
+                    title="Input channel"
+                >
+                    <option value="">Mix of {channelCount} channels</option>
+                    {Array.from({ length: channelCount }, (_, channel) => (
+                        <option key={channel} value={channel}>Channel {channel + 1}</option>
+                    ))}
+                </select>
+            )}
+            {PROCESSING_OPTIONS.map(({ key, label, title }) => (
+                <label key={key} style={{ display: 'flex', alignItems: 'center', gap: '4px' }} title={title}>
+                    <input
+                        type="checkbox"
+                        checked={options[key]}
+                        onChange={e => apply({ [key]: e.currentTarget.checked })}
+                        disabled={switching}
+                    />
+                    {label}
+                </label>
+            ))}
+            <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }} title="Input level, the line is the recent peak">
+                <div style={{ position: 'relative', width: '150px', height: '10px', background: '#333' }}>
+                    <div ref={rmsBarRef} style={{ height: '100%', width: '0%', background: 'limegreen' }} />
+                    <div ref={peakMarkerRef} style={{ position: 'absolute', top: 0, left: '0%', width: '2px', height: '100%', background: 'yellow' }} />
+                </div>
+                <div ref={clipRef} style={{ width: '10px', height: '10px', background: '#400' }} title="Clipping" />
+            </div>
+        </div>
+    );
+};
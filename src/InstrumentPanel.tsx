@@ -0,0 +1,121 @@
+import { useState } from "preact/hooks";
+
+import { Envelope, Instrument, INSTRUMENT_PRESETS } from "./Instruments";
+import { DEFAULT_MASTER_GAIN, DEFAULT_MAX_POLYPHONY, Player } from "./Player";
+
+interface InstrumentPanelProps {
+    player: Player;
+}
+
+const ENVELOPE_FIELDS: { key: keyof Envelope, label: string, max: number }[] = [
+    { key: 'attack', label: 'A', max: 2 },
+    { key: 'decay', label: 'D', max: 5 },
+    { key: 'sustain', label: 'S', max: 1 },
+    { key: 'release', label: 'R', max: 5 },
+];
+
+export const InstrumentPanel = ({ player }: InstrumentPanelProps) => {
+    const [presetKey, setPresetKey] = useState<string | null>(() =>
+        Object.keys(INSTRUMENT_PRESETS).find(key => INSTRUMENT_PRESETS[key]!().name === player.getInstrument().name) ?? null);
+    const [instrument, setInstrument] = useState<Instrument>(player.getInstrument());
+    const [envelope, setEnvelope] = useState<Envelope>({ ...player.getInstrument().envelope });
+    const [polyphony, setPolyphony] = useState(DEFAULT_MAX_POLYPHONY);
+    const [masterGain, setMasterGain] = useState(DEFAULT_MASTER_GAIN);
+    const [sampleRootNote, setSampleRootNote] = useState('C4');
+
+    const selectInstrument = (next: Instrument, key: string | null) => {
+        player.setInstrument(next);
+        setInstrument(next);
+        setEnvelope({ ...next.envelope });
+        setPresetKey(key);
+    };
+
+    const handleSelectPreset = (key: string) => {
+        const factory = INSTRUMENT_PRESETS[key];
+        if (factory) selectInstrument(factory(), key);
+    };
+
+    const handleEnvelopeChange = (field: keyof Envelope, value: number) => {
+        if (!Number.isFinite(value) || value < 0) return;
+        // The instrument's envelope is read each time a note is scheduled
+        instrument.envelope = { ...instrument.envelope, [field]: value };
+        setEnvelope({ ...instrument.envelope });
+    };
+
+    const handleSampleInput = async (e: Event) => {
+        const input = e.currentTarget as HTMLInputElement;
+        const file = input.files?.[0];
+        input.value = '';
+        if (!file) return;
+
+        try {
+            selectInstrument(await player.loadSampleInstrument(file, sampleRootNote), null);
+        } catch (err) {
+            console.error("Error loading sample:", err);
+            alert("Could not load sample.");
+        }
+    };
+
+    return (
+        <div className="instrument-panel" style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px', padding: '10px 0' }}>
+            <select value={presetKey ?? ''} onChange={e => handleSelectPreset(e.currentTarget.value)} title="Instrument">
+                {presetKey === null && <option value="">{instrument.name}</option>}
+                {Object.entries(INSTRUMENT_PRESETS).map(([key, factory]) => (
+                    <option key={key} value={key}>{factory().name}</option>
+                ))}
+            </select>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }} title="Pitch the sample was recorded at">
+                Sample root
+                <input type="text" value={sampleRootNote} onChange={e => setSampleRootNote(e.currentTarget.value)} style={{ width: '3em' }} />
+            </label>
+            <label className="button" style={{ padding: '5px 10px' }}>
+                Load Sample
+                <input type="file" accept="audio/*" onChange={handleSampleInput} style={{ display: 'none' }} />
+            </label>
+            {ENVELOPE_FIELDS.map(({ key, label, max }) => (
+                <label key={key} style={{ display: 'flex', alignItems: 'center', gap: '4px' }} title={key}>
+                    {label}
+                    <input
+                        type="number"
+                        min={0}
+                        max={max}
+                        step={0.01}
+                        value={envelope[key]}
+                        onChange={e => handleEnvelopeChange(key, parseFloat(e.currentTarget.value))}
+                        style={{ width: '4em' }}
+                    />
+                </label>
+            ))}
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }} title="Maximum notes sounding at once">
+                Voices
+                <input
+                    type="number"
+                    min={1}
+                    max={64}
+                    value={polyphony}
+                    onChange={e => {
+                        const voices = parseInt(e.currentTarget.value, 10) || DEFAULT_MAX_POLYPHONY;
+                        player.setMaxPolyphony(voices);
+                        setPolyphony(voices);
+                    }}
+                    style={{ width: '3em' }}
+                />
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                Volume
+                <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={masterGain}
+                    onInput={e => {
+                        const gain = parseFloat(e.currentTarget.value);
+                        player.setMasterGain(gain);
+                        setMasterGain(gain);
+                    }}
+                />
+            </label>
+        </div>
+    );
+};
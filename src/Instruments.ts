@@ -0,0 +1,258 @@
+// Instruments used by the Player to turn notes into sound. Each instrument
+// only creates the raw sources for a note, the Player wraps them in a gain
+// node carrying the ADSR envelope and velocity.
+
+export interface Envelope {
+    attack: number; // seconds
+    decay: number; // seconds
+    sustain: number; // 0-1, level held after the decay
+    release: number; // seconds, after the note ends
+}
+
+// The nodes of one note
+export interface InstrumentVoice {
+    sources: AudioScheduledSourceNode[]; // Everything started, stopped when the note is cut
+    detune: AudioParam[]; // Detune in cents of every pitched source, where pitch bends are connected
+}
+
+export interface Instrument {
+    name: string;
+    envelope: Envelope;
+    // Connect sources for one note into `output`, start them at `startTime`
+    // and stop them at `stopTime` (which already includes the release)
+    createVoice(ctx: BaseAudioContext, output: AudioNode, frequency: number, startTime: number, stopTime: number): InstrumentVoice;
+}
+
+// Gain at `time` seconds into a note that is released at `noteLength`
+export function envelopeValueAt(envelope: Envelope, time: number, noteLength: number): number {
+    const held = (t: number) => {
+        if (t < envelope.attack) return Math.max(0, t / envelope.attack);
+        if (t < envelope.attack + envelope.decay) {
+            return 1 - (1 - envelope.sustain) * (t - envelope.attack) / envelope.decay;
+        }
+        return envelope.sustain;
+    };
+    if (time <= noteLength) return held(time);
+    if (envelope.release <= 0) return 0;
+    return held(noteLength) * Math.max(0, 1 - (time - noteLength) / envelope.release);
+}
+
+// Schedules the envelope on `param` scaled by `peak`, stopping early when the
+// note is shorter than the attack + decay
+export function scheduleEnvelope(param: AudioParam, envelope: Envelope, peak: number, startTime: number, noteLength: number) {
+    const attackEnd = Math.min(envelope.attack, noteLength);
+    const decayEnd = Math.min(envelope.attack + envelope.decay, noteLength);
+
+    param.setValueAtTime(0, startTime);
+    param.linearRampToValueAtTime(peak * envelopeValueAt(envelope, attackEnd, noteLength), startTime + attackEnd);
+    if (decayEnd > attackEnd) {
+        param.linearRampToValueAtTime(peak * envelopeValueAt(envelope, decayEnd, noteLength), startTime + decayEnd);
+    }
+    param.setValueAtTime(peak * envelopeValueAt(envelope, noteLength, noteLength), startTime + noteLength);
+    param.linearRampToValueAtTime(0, startTime + noteLength + envelope.release);
+}
+
+// A single basic waveform
+export class OscillatorInstrument implements Instrument {
+    name: string;
+    envelope: Envelope;
+    private type: OscillatorType;
+
+    constructor(name: string, type: OscillatorType, envelope: Envelope) {
+        this.name = name;
+        this.type = type;
+        this.envelope = envelope;
+    }
+
+    createVoice(ctx: BaseAudioContext, output: AudioNode, frequency: number, startTime: number, stopTime: number): InstrumentVoice {
+        const osc = ctx.createOscillator();
+        osc.type = this.type;
+        osc.frequency.value = frequency;
+        osc.connect(output);
+        osc.start(startTime);
+        osc.stop(stopTime);
+        return { sources: [osc], detune: [osc.detune] };
+    }
+}
+
+// Sum of harmonics, each partial decays faster than the one below it when
+// `partialDecay` is set, which gives a struck / plucked character
+export class AdditiveInstrument implements Instrument {
+    name: string;
+    envelope: Envelope;
+    private harmonics: number[]; // Amplitude of harmonic 1, 2, 3...
+    private partialDecay: number; // seconds for the 2nd harmonic to fade, 0 = no extra decay
+
+    constructor(name: string, harmonics: number[], envelope: Envelope, partialDecay = 0) {
+        this.name = name;
+        this.harmonics = harmonics;
+        this.envelope = envelope;
+        this.partialDecay = partialDecay;
+    }
+
+    createVoice(ctx: BaseAudioContext, output: AudioNode, frequency: number, startTime: number, stopTime: number): InstrumentVoice {
+        const nyquist = ctx.sampleRate / 2;
+        const total = this.harmonics.reduce((sum, a) => sum + a, 0) || 1;
+        const sources: OscillatorNode[] = [];
+
+        this.harmonics.forEach((amplitude, i) => {
+            const harmonicFrequency = frequency * (i + 1);
+            if (amplitude <= 0 || harmonicFrequency >= nyquist) return;
+
+            const osc = ctx.createOscillator();
+            osc.frequency.value = harmonicFrequency;
+            const gain = ctx.createGain();
+            gain.gain.setValueAtTime(amplitude / total, startTime);
+            if (this.partialDecay > 0 && i > 0) {
+                gain.gain.setTargetAtTime(0, startTime, this.partialDecay / i);
+            }
+            osc.connect(gain);
+            gain.connect(output);
+            osc.start(startTime);
+            osc.stop(stopTime);
+            sources.push(osc);
+        });
+
+        return { sources, detune: sources.map(osc => osc.detune) };
+    }
+}
+
+// Two operator FM, the modulation index fades from `index` to `sustainIndex`
+// so the attack is brighter than the tail
+export class FmInstrument implements Instrument {
+    name: string;
+    envelope: Envelope;
+    private ratio: number;
+    private index: number;
+    private sustainIndex: number;
+    private indexDecay: number; // seconds
+
+    constructor(name: string, ratio: number, index: number, sustainIndex: number, indexDecay: number, envelope: Envelope) {
+        this.name = name;
+        this.ratio = ratio;
+        this.index = index;
+        this.sustainIndex = sustainIndex;
+        this.indexDecay = indexDecay;
+        this.envelope = envelope;
+    }
+
+    createVoice(ctx: BaseAudioContext, output: AudioNode, frequency: number, startTime: number, stopTime: number): InstrumentVoice {
+        const carrier = ctx.createOscillator();
+        carrier.frequency.value = frequency;
+
+        const modulator = ctx.createOscillator();
+        modulator.frequency.value = frequency * this.ratio;
+        const modulationDepth = ctx.createGain();
+        const modulatorFrequency = frequency * this.ratio;
+        modulationDepth.gain.setValueAtTime(this.index * modulatorFrequency, startTime);
+        modulationDepth.gain.setTargetAtTime(this.sustainIndex * modulatorFrequency, startTime, this.indexDecay);
+
+        modulator.connect(modulationDepth);
+        modulationDepth.connect(carrier.frequency);
+        carrier.connect(output);
+
+        carrier.start(startTime);
+        modulator.start(startTime);
+        carrier.stop(stopTime);
+        modulator.stop(stopTime);
+        // Both bend so the ratio, and with it the timbre, holds
+        return { sources: [carrier, modulator], detune: [carrier.detune, modulator.detune] };
+    }
+}
+
+// Sawtooth through a low pass filter with a little vibrato
+export class StringsInstrument implements Instrument {
+    name: string;
+    envelope: Envelope;
+
+    constructor(name: string, envelope: Envelope) {
+        this.name = name;
+        this.envelope = envelope;
+    }
+
+    createVoice(ctx: BaseAudioContext, output: AudioNode, frequency: number, startTime: number, stopTime: number): InstrumentVoice {
+        const sources: OscillatorNode[] = [];
+        const detune: AudioParam[] = [];
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.value = Math.min(frequency * 4, ctx.sampleRate / 2);
+        filter.Q.value = 0.7;
+        filter.connect(output);
+
+        const vibrato = ctx.createOscillator();
+        vibrato.frequency.value = 5.5;
+        const vibratoDepth = ctx.createGain();
+        vibratoDepth.gain.setValueAtTime(0, startTime);
+        // Vibrato fades in after the attack, as a player would
+        vibratoDepth.gain.linearRampToValueAtTime(8, startTime + 0.3); // cents
+        vibrato.connect(vibratoDepth);
+        sources.push(vibrato);
+
+        // Two slightly detuned saws for some width
+        for (const cents of [-6, 6]) {
+            const osc = ctx.createOscillator();
+            osc.type = 'sawtooth';
+            osc.frequency.value = frequency;
+            osc.detune.value = cents;
+            vibratoDepth.connect(osc.detune);
+            const gain = ctx.createGain();
+            gain.gain.value = 0.5;
+            osc.connect(gain);
+            gain.connect(filter);
+            sources.push(osc);
+            detune.push(osc.detune);
+        }
+
+        for (const source of sources) {
+            source.start(startTime);
+            source.stop(stopTime);
+        }
+        return { sources, detune };
+    }
+}
+
+// Plays a recorded sample resampled to the note's pitch
+export class SampleInstrument implements Instrument {
+    name: string;
+    envelope: Envelope;
+    private buffer: AudioBuffer;
+    private rootFrequency: number; // Pitch of the sample as recorded
+    private loop: boolean;
+
+    constructor(name: string, buffer: AudioBuffer, rootFrequency: number, envelope: Envelope, loop = false) {
+        this.name = name;
+        this.buffer = buffer;
+        this.rootFrequency = rootFrequency;
+        this.envelope = envelope;
+        this.loop = loop;
+    }
+
+    createVoice(ctx: BaseAudioContext, output: AudioNode, frequency: number, startTime: number, stopTime: number): InstrumentVoice {
+        const source = ctx.createBufferSource();
+        source.buffer = this.buffer;
+        source.playbackRate.value = frequency / this.rootFrequency;
+        source.loop = this.loop;
+        source.connect(output);
+        source.start(startTime);
+        source.stop(stopTime);
+        return { sources: [source], detune: [source.detune] };
+    }
+}
+
+export const INSTRUMENT_PRESETS: Record<string, () => Instrument> = {
+    sine: () => new OscillatorInstrument('Sine', 'sine', { attack: 0.02, decay: 0.05, sustain: 0.9, release: 0.05 }),
+    triangle: () => new OscillatorInstrument('Triangle', 'triangle', { attack: 0.01, decay: 0.1, sustain: 0.8, release: 0.08 }),
+    square: () => new OscillatorInstrument('Square', 'square', { attack: 0.01, decay: 0.1, sustain: 0.7, release: 0.05 }),
+    sawtooth: () => new OscillatorInstrument('Sawtooth', 'sawtooth', { attack: 0.01, decay: 0.1, sustain: 0.7, release: 0.05 }),
+    piano: () => new AdditiveInstrument('Piano-ish', [1, 0.6, 0.35, 0.2, 0.12, 0.08, 0.05],
+        { attack: 0.005, decay: 1.5, sustain: 0, release: 0.25 }, 0.6),
+    organ: () => new AdditiveInstrument('Organ', [1, 0.8, 0.6, 0, 0.4, 0, 0, 0.3],
+        { attack: 0.01, decay: 0, sustain: 1, release: 0.06 }),
+    strings: () => new StringsInstrument('Strings', { attack: 0.15, decay: 0.2, sustain: 0.85, release: 0.35 }),
+    electricPiano: () => new FmInstrument('FM Electric Piano', 1, 3, 0.5, 0.3,
+        { attack: 0.005, decay: 1.2, sustain: 0.2, release: 0.3 }),
+    bell: () => new FmInstrument('FM Bell', 3.5, 6, 1, 0.8,
+        { attack: 0.002, decay: 2.5, sustain: 0, release: 0.5 }),
+};
+
+export const DEFAULT_INSTRUMENT = 'sine';
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "preact/hooks";
+
+import { download } from "./download";
+import { createTake, deleteTake, duplicateTake, exportTakes, importTakes, listTakes, loadTakeAudio, saveTake, Take, TakeContent } from "./Takes";
+import { DecodedAudio } from "./Wav";
+
+interface LibraryPanelProps {
+    current: TakeContent | null; // The recording shown, null when there is none
+    audio: DecodedAudio | null; // Recorded with it
+    disabled?: boolean; // Nothing can be loaded, e.g. while recording
+    onLoad: (take: Take, audio: DecodedAudio | null) => void;
+    onUseSettings: (take: Take) => void;
+}
+
+function fileName(name: string): string {
+    return `${name.replace(/[\\/:*?"<>|]+/g, '_') || 'takes'}.json`;
+}
+
+export const LibraryPanel = ({ current, audio, disabled, onLoad, onUseSettings }: LibraryPanelProps) => {
+    const [takes, setTakes] = useState<Take[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = async () => {
+        try {
+            setTakes(await listTakes());
+            setError(null);
+        } catch (err) {
+            console.error("Error reading saved takes:", err);
+            setError("Saved takes are not available in this browser.");
+        }
+    };
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    // Every change to the library goes through here
+    const update = async (change: () => Promise<unknown>, what: string) => {
+        try {
+            await change();
+        } catch (err) {
+            console.error(`Error trying to ${what}:`, err);
+            alert(`Could not ${what}.`);
+        }
+        await refresh();
+    };
+
+    const handleSave = () => {
+        if (!current) return;
+        const name = prompt("Take name", `Take ${new Date().toLocaleString()}`)?.trim();
+        if (!name) return;
+        update(() => saveTake(createTake(name, current, audio !== null), audio), "save the take");
+    };
+
+    const handleLoad = async (take: Take) => {
+        let takeAudio: DecodedAudio | null = null;
+        try {
+            if (take.hasAudio) takeAudio = await loadTakeAudio(take.id);
+        } catch (err) {
+            // The notes are still worth having
+            console.error("Error loading the take's audio:", err);
+        }
+        onLoad(take, takeAudio);
+    };
+
+    const handleRename = (take: Take) => {
+        const name = prompt("Take name", take.name)?.trim();
+        if (!name || name === take.name) return;
+        update(() => saveTake({ ...take, name, updatedAt: Date.now() }), "rename the take");
+    };
+
+    const handleDuplicate = (take: Take) => {
+        update(() => duplicateTake(take, `${take.name} (copy)`), "duplicate the take");
+    };
+
+    const handleDelete = (take: Take) => {
+        if (!confirm(`Delete "${take.name}"?`)) return;
+        update(() => deleteTake(take.id), "delete the take");
+    };
+
+    const handleImport = async (e: Event) => {
+        const input = e.currentTarget as HTMLInputElement;
+        const file = input.files?.[0];
+        input.value = '';
+        if (!file) return;
+
+        let imported: Take[];
+        try {
+            imported = importTakes(await file.text());
+        } catch (err) {
+            console.error("Error importing takes:", err);
+            alert(`Could not import ${file.name}: ${(err as Error).message}`);
+            return;
+        }
+        update(async () => {
+            for (const take of imported) await saveTake(take, null);
+        }, "import the takes");
+    };
+
+    return (
+        <div className="library-panel" style={{ display: 'flex', flexDirection: 'column', gap: '6px', padding: '10px 0' }}>
+            <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px' }}>
+                <button onClick={handleSave} disabled={!current || error !== null} style={{ padding: '5px 10px' }}>
+                    Save Take
+                </button>
+                <button
+                    onClick={() => download(exportTakes(takes), 'takes.json', 'application/json')}
+                    disabled={takes.length === 0}
+                    style={{ padding: '5px 10px' }}
+                    title="Every take as JSON, without the audio"
+                >
+                    Export All
+                </button>
+                <label className="button" style={{ padding: '5px 10px' }} title="Takes exported as JSON">
+                    Import
+                    <input type="file" accept=".json,application/json" onChange={handleImport} disabled={error !== null} style={{ display: 'none' }} />
+                </label>
+                {error && <span style={{ color: 'tomato' }}>{error}</span>}
+                {!error && takes.length === 0 && <span style={{ color: '#888' }}>No saved takes</span>}
+            </div>
+            {takes.map(take => (
+                <div key={take.id} style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px' }}>
+                    <span style={{ minWidth: '12em', fontWeight: 'bold' }}>{take.name}</span>
+                    <span
+                        style={{ color: '#888' }}
+                        title={`Created ${new Date(take.createdAt).toLocaleString()}, changed ${new Date(take.updatedAt).toLocaleString()}`}
+                    >
+                        {new Date(take.createdAt).toLocaleString()} · {take.notes.length} notes · {take.detectionMode} · FFT {take.settings.fftSize}
+                        {take.hasAudio ? ' · audio' : ''}
+                    </span>
+                    <button onClick={() => handleLoad(take)} disabled={disabled} style={{ padding: '5px 10px' }}>
+                        Load
+                    </button>
+                    <button onClick={() => onUseSettings(take)} disabled={disabled} style={{ padding: '5px 10px' }} title="Analysis settings and detection mode the take was recorded with">
+                        Use Settings
+                    </button>
+                    <button onClick={() => handleRename(take)} style={{ padding: '5px 10px' }}>
+                        Rename
+                    </button>
+                    <button onClick={() => handleDuplicate(take)} style={{ padding: '5px 10px' }}>
+                        Duplicate
+                    </button>
+                    <button onClick={() => download(exportTakes([take]), fileName(take.name), 'application/json')} style={{ padding: '5px 10px' }}>
+                        Export
+                    </button>
+                    <button onClick={() => handleDelete(take)} style={{ padding: '5px 10px' }}>
+                        Delete
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,463 @@
+import { BeatGrid, firstBeatTime } from "./Quantize";
+import { PitchBendPoint, RecordedNote } from "./Recorder";
+import { DEFAULT_TUNING, notePitch, stepName, Tuning } from "./Tuning";
+
+// Standard MIDI File (SMF) reader and writer
+// https://www.midi.org/specifications/file-format-specifications/standard-midi-files
+
+export interface MidiWriteOptions {
+    format?: 0 | 1; // 0 = single track, 1 = tempo track + note track
+    beatGrid?: BeatGrid; // Tempo and a beat to put on a quarter note, defaults to DEFAULT_MIDI_BPM from the start
+    ppq?: number; // Ticks per quarter note
+    channel?: number; // 0-15
+    trackName?: string;
+    pitchBendRange?: number; // Semitones either way, sent as RPN 0 when any note has pitch bend
+    tuning?: Tuning; // Notes off the equal tempered semitones from its reference pitch are sent as the nearest with pitch bend
+}
+
+export const DEFAULT_MIDI_BPM = 120;
+export const DEFAULT_MIDI_PPQ = 480;
+const DEFAULT_VELOCITY = 80; // For notes recorded without one
+const DEFAULT_WRITE_BEND_RANGE = 12; // Semitones, wide enough for glides between notes
+const DEFAULT_READ_BEND_RANGE = 2; // Semitones, the General MIDI default until an RPN changes it
+const PITCH_BEND_CENTRE = 8192;
+const MIN_BEND_CHANGE = 1; // cents, smaller changes are not written
+
+interface MidiEvent {
+    tick: number;
+    data: number[];
+}
+
+export interface MidiNote {
+    midi: number;
+    channel: number; // 0-15
+    velocity: number; // 1-127
+    startTick: number;
+    endTick: number;
+    startTime: number; // ms, from the tempo map
+    duration: number; // ms
+    pitchBend?: PitchBendPoint[]; // From the channel's pitch bend while the note sounds
+}
+
+export interface MidiTrack {
+    name: string;
+    notes: MidiNote[];
+    channels: number[]; // Channels used by the notes, ascending
+}
+
+export interface MidiTempoChange {
+    tick: number;
+    microsecondsPerQuarter: number;
+}
+
+export interface MidiFileData {
+    format: number;
+    ppq: number; // Ticks per quarter note, or per second for SMPTE timing
+    tracks: MidiTrack[];
+    tempoMap: MidiTempoChange[]; // Sorted by tick, always starts at tick 0
+}
+
+export interface MidiSelection {
+    track?: number; // Index into MidiFileData.tracks, all tracks when omitted
+    channel?: number; // All channels when omitted
+}
+
+export function msToTicks(ms: number, bpm: number, ppq: number): number {
+    const msPerQuarter = 60000 / bpm;
+    return Math.max(0, Math.round(ms / msPerQuarter * ppq));
+}
+
+export function writeMidiFile(recording: RecordedNote[], options: MidiWriteOptions = {}): Uint8Array {
+    const format = options.format ?? 1;
+    const grid = options.beatGrid ?? { bpm: DEFAULT_MIDI_BPM, offset: 0 };
+    const bpm = grid.bpm;
+    // Notes move later by up to a beat, so the beats land on quarter notes
+    const origin = firstBeatTime(grid);
+    const ppq = options.ppq ?? DEFAULT_MIDI_PPQ;
+    const channel = (options.channel ?? 0) & 0x0F;
+    const bendRange = options.pitchBendRange ?? DEFAULT_WRITE_BEND_RANGE;
+    const tuning = options.tuning ?? DEFAULT_TUNING;
+
+    const microsecondsPerQuarter = Math.round(60000000 / bpm);
+    const tempoEvents: MidiEvent[] = [
+        { tick: 0, data: [0xFF, 0x51, 0x03, ...uint(microsecondsPerQuarter, 3)] },
+        // 4/4, 24 MIDI clocks per metronome click, 8 32nd notes per quarter
+        { tick: 0, data: [0xFF, 0x58, 0x04, 4, 2, 24, 8] },
+    ];
+
+    const noteEvents: MidiEvent[] = [];
+    if (options.trackName) {
+        const name = Array.from(new TextEncoder().encode(options.trackName));
+        noteEvents.push({ tick: 0, data: [0xFF, 0x03, ...variableLengthQuantity(name.length), ...name] });
+    }
+    const notes = recording.map(item => midiNoteFor(item, tuning));
+    if (notes.some(note => note?.pitchBend)) {
+        // RPN 0 (pitch bend sensitivity) then the null RPN so later data
+        // entry messages change nothing
+        noteEvents.push(
+            { tick: 0, data: [0xB0 | channel, 101, 0] },
+            { tick: 0, data: [0xB0 | channel, 100, 0] },
+            { tick: 0, data: [0xB0 | channel, 6, Math.max(0, Math.min(127, Math.round(bendRange)))] },
+            { tick: 0, data: [0xB0 | channel, 38, 0] },
+            { tick: 0, data: [0xB0 | channel, 101, 127] },
+            { tick: 0, data: [0xB0 | channel, 100, 127] },
+        );
+    }
+    recording.forEach((item, i) => {
+        const note = notes[i];
+        if (!note) return;
+        const { midi, pitchBend } = note;
+        const velocity = Math.max(1, Math.min(127, Math.round(item.velocity ?? DEFAULT_VELOCITY)));
+        const startTick = msToTicks(item.startTime - origin, bpm, ppq);
+        const endTick = Math.max(startTick + 1, msToTicks(item.startTime - origin + item.duration, bpm, ppq));
+        noteEvents.push({ tick: startTick, data: [0x90 | channel, midi, velocity] });
+        noteEvents.push({ tick: endTick, data: [0x80 | channel, midi, 0] });
+
+        // Pitch bend is per channel so applies to anything else sounding,
+        // which is fine for the monophonic lines that have it
+        if (pitchBend) {
+            let lastTick = -1;
+            let lastCents = NaN;
+            for (const point of pitchBend) {
+                if (point.time < 0 || point.time >= item.duration) continue;
+                const tick = Math.max(startTick, msToTicks(item.startTime - origin + point.time, bpm, ppq));
+                if (tick === lastTick || Math.abs(point.cents - lastCents) < MIN_BEND_CHANGE) continue;
+                noteEvents.push({ tick, data: [0xE0 | channel, ...pitchBendBytes(point.cents, bendRange)] });
+                lastTick = tick;
+                lastCents = point.cents;
+            }
+            noteEvents.push({ tick: endTick, data: [0xE0 | channel, ...pitchBendBytes(0, bendRange)] });
+        }
+    });
+
+    const tracks = format === 0
+        ? [encodeTrack([...tempoEvents, ...noteEvents])]
+        : [encodeTrack(tempoEvents), encodeTrack(noteEvents)];
+
+    const header = [
+        ...chunkId("MThd"),
+        ...uint(6, 4),
+        ...uint(format, 2),
+        ...uint(tracks.length, 2),
+        ...uint(ppq, 2),
+    ];
+
+    const length = header.length + tracks.reduce((sum, t) => sum + t.length, 0);
+    const bytes = new Uint8Array(length);
+    bytes.set(header, 0);
+    let offset = header.length;
+    for (const track of tracks) {
+        bytes.set(track, offset);
+        offset += track.length;
+    }
+    return bytes;
+}
+
+export function parseMidiFile(bytes: ArrayBuffer | Uint8Array): MidiFileData {
+    const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    if (data.length < 14 || readChunkId(data, 0) !== "MThd") {
+        throw new Error("Not a MIDI file");
+    }
+    const headerLength = view.getUint32(4);
+    const format = view.getUint16(8);
+    const trackCount = view.getUint16(10);
+    const division = view.getUint16(12);
+
+    let ppq: number;
+    let smpteTicksPerSecond = 0;
+    if (division & 0x8000) {
+        // SMPTE: negative frames per second in the high byte, ticks per frame in the low
+        const framesPerSecond = -(division >> 8 << 24 >> 24);
+        smpteTicksPerSecond = (framesPerSecond === 29 ? 29.97 : framesPerSecond) * (division & 0xFF);
+        ppq = smpteTicksPerSecond;
+    } else {
+        ppq = division;
+    }
+
+    const rawTracks: ReturnType<typeof parseTrack>[] = [];
+    const tempoMap: MidiTempoChange[] = [];
+
+    let offset = 8 + headerLength;
+    for (let t = 0; t < trackCount && offset + 8 <= data.length; t++) {
+        const id = readChunkId(data, offset);
+        const length = view.getUint32(offset + 4);
+        const start = offset + 8;
+        const end = Math.min(start + length, data.length);
+        offset = start + length;
+        // Unknown chunks are allowed and should be skipped
+        if (id !== "MTrk") { t--; continue; }
+
+        rawTracks.push(parseTrack(data, start, end, tempoMap));
+    }
+
+    tempoMap.sort((a, b) => a.tick - b.tick);
+    if (tempoMap.length === 0 || tempoMap[0]!.tick > 0) {
+        tempoMap.unshift({ tick: 0, microsecondsPerQuarter: 500000 }); // 120 BPM default
+    }
+
+    const tickToMs = smpteTicksPerSecond
+        ? (tick: number) => tick / smpteTicksPerSecond * 1000
+        : (tick: number) => ticksToMs(tick, tempoMap, ppq);
+
+    const tracks = rawTracks.map(raw => {
+        const notes = raw.notes.map(note => {
+            const startTime = tickToMs(note.startTick);
+            const midiNote: MidiNote = { ...note, startTime, duration: tickToMs(note.endTick) - startTime };
+            const pitchBend = bendDuring(raw.bends, note, tick => tickToMs(tick) - startTime);
+            if (pitchBend) midiNote.pitchBend = pitchBend;
+            return midiNote;
+        });
+        notes.sort((a, b) => a.startTick - b.startTick || a.midi - b.midi);
+        const channels = [...new Set(notes.map(n => n.channel))].sort((a, b) => a - b);
+        return { name: raw.name, notes, channels };
+    });
+
+    return { format, ppq, tracks, tempoMap };
+}
+
+export function midiToRecording(data: MidiFileData, selection: MidiSelection = {}): RecordedNote[] {
+    const tracks = selection.track === undefined
+        ? data.tracks
+        : data.tracks.slice(selection.track, selection.track + 1);
+
+    const recording: RecordedNote[] = [];
+    for (const track of tracks) {
+        for (const note of track.notes) {
+            if (selection.channel !== undefined && note.channel !== selection.channel) continue;
+            const name = stepName(note.midi);
+            if (!name) continue;
+            recording.push({
+                note: name,
+                startTime: note.startTime,
+                duration: note.duration,
+                velocity: note.velocity,
+                ...(note.pitchBend ? { pitchBend: note.pitchBend } : {}),
+            });
+        }
+    }
+    recording.sort((a, b) => a.startTime - b.startTime);
+    return recording;
+}
+
+// The nearest MIDI note to the note in the tuning, what it is off by added
+// to the pitch bend, null when it isn't a note of the tuning
+function midiNoteFor(item: RecordedNote, tuning: Tuning): { midi: number, pitchBend: PitchBendPoint[] | null } | null {
+    const pitch = notePitch(item.note, tuning);
+    if (pitch === null) return null;
+    const midi = Math.round(pitch);
+    if (midi < 0 || midi > 127) return null;
+    const offset = 100 * (pitch - midi);
+    if (Math.abs(offset) < MIN_BEND_CHANGE) {
+        return { midi, pitchBend: item.pitchBend?.length ? item.pitchBend : null };
+    }
+    const bend = item.pitchBend ?? [];
+    const pitchBend = bend.map(point => ({ ...point, cents: point.cents + offset }));
+    if (!(bend[0] && bend[0].time <= 0)) pitchBend.unshift({ time: 0, cents: offset });
+    return { midi, pitchBend };
+}
+
+function ticksToMs(tick: number, tempoMap: MidiTempoChange[], ppq: number): number {
+    let ms = 0;
+    for (let i = 0; i < tempoMap.length; i++) {
+        const change = tempoMap[i]!;
+        if (change.tick >= tick) break;
+        const nextTick = Math.min(tick, tempoMap[i + 1]?.tick ?? Infinity);
+        ms += (nextTick - change.tick) / ppq * change.microsecondsPerQuarter / 1000;
+    }
+    return ms;
+}
+
+// Pitch bend on a channel in cents, using the bend range in force when it was sent
+interface RawPitchBend {
+    tick: number;
+    channel: number;
+    cents: number;
+}
+
+function parseTrack(data: Uint8Array, start: number, end: number, tempoMap: MidiTempoChange[]) {
+    let name = '';
+    const notes: Omit<MidiNote, 'startTime' | 'duration' | 'pitchBend'>[] = [];
+    const bends: RawPitchBend[] = [];
+    // Per channel, the RPN selected by controllers 101 / 100 and the pitch
+    // bend range that RPN 0 sets
+    const rpn = new Array<number>(16).fill(0x3FFF);
+    const bendRange = new Array<number>(16).fill(DEFAULT_READ_BEND_RANGE);
+    // Note ons waiting for their note off, keyed by channel * 128 + midi.
+    // Overlapping notes of the same pitch are closed first in, first out.
+    const pending = new Map<number, { tick: number, velocity: number }[]>();
+
+    let position = start;
+    let tick = 0;
+    let runningStatus: number | null = null;
+
+    const readVariableLength = () => {
+        let value = 0;
+        for (let i = 0; i < 4 && position < end; i++) {
+            const byte = data[position++]!;
+            value = (value << 7) | (byte & 0x7F);
+            if (!(byte & 0x80)) break;
+        }
+        return value;
+    };
+
+    const noteOff = (channel: number, midi: number) => {
+        const queue = pending.get(channel * 128 + midi);
+        const on = queue?.shift();
+        if (!on) return;
+        notes.push({ midi, channel, velocity: on.velocity, startTick: on.tick, endTick: tick });
+    };
+
+    while (position < end) {
+        tick += readVariableLength();
+
+        let status = data[position]!;
+        if (status & 0x80) {
+            position++;
+        } else if (runningStatus !== null) {
+            // Running status, reuse the previous channel message status
+            status = runningStatus;
+        } else {
+            throw new Error("Invalid MIDI track data");
+        }
+
+        // Meta and SysEx events cancel running status
+        if (status === 0xFF) {
+            runningStatus = null;
+            const type = data[position++]!;
+            const length = readVariableLength();
+            const body = data.subarray(position, Math.min(position + length, end));
+            position += length;
+
+            if (type === 0x2F) break; // End of track
+            if (type === 0x51 && body.length === 3) {
+                tempoMap.push({ tick, microsecondsPerQuarter: (body[0]! << 16) | (body[1]! << 8) | body[2]! });
+            } else if (type === 0x03 && !name) {
+                name = new TextDecoder().decode(body);
+            }
+            continue;
+        }
+        if (status === 0xF0 || status === 0xF7) {
+            // SysEx, skip
+            runningStatus = null;
+            position += readVariableLength();
+            continue;
+        }
+
+        runningStatus = status;
+        const type = status & 0xF0;
+        const channel = status & 0x0F;
+        const data1 = data[position++]!;
+        // Program change and channel pressure only have one data byte
+        const data2 = type === 0xC0 || type === 0xD0 ? 0 : data[position++]!;
+
+        if (type === 0x90 && data2 > 0) {
+            const key = channel * 128 + data1;
+            const queue = pending.get(key) ?? [];
+            queue.push({ tick, velocity: data2 });
+            pending.set(key, queue);
+        } else if (type === 0x80 || type === 0x90) {
+            // Note on with velocity 0 is a note off
+            noteOff(channel, data1);
+        } else if (type === 0xE0) {
+            const value = (data2 << 7) | data1;
+            bends.push({ tick, channel, cents: (value - PITCH_BEND_CENTRE) / PITCH_BEND_CENTRE * bendRange[channel]! * 100 });
+        } else if (type === 0xB0 && data1 === 101) {
+            rpn[channel] = (data2 << 7) | (rpn[channel]! & 0x7F);
+        } else if (type === 0xB0 && data1 === 100) {
+            rpn[channel] = (rpn[channel]! & 0x3F80) | data2;
+        } else if (type === 0xB0 && data1 === 6 && rpn[channel] === 0) {
+            bendRange[channel] = data2;
+        } else if (type === 0xB0 && data1 === 38 && rpn[channel] === 0) {
+            bendRange[channel] = Math.floor(bendRange[channel]!) + data2 / 100;
+        }
+    }
+
+    // Close notes left hanging at the end of the track
+    for (const [key, queue] of pending) {
+        for (const on of queue) {
+            notes.push({ midi: key % 128, channel: Math.floor(key / 128), velocity: on.velocity, startTick: on.tick, endTick: tick });
+        }
+    }
+
+    return { name, notes, bends };
+}
+
+// The bend in force when the note starts and any changes while it sounds,
+// undefined when the note is never bent
+function bendDuring(bends: RawPitchBend[], note: { channel: number, startTick: number, endTick: number }, toNoteTime: (tick: number) => number): PitchBendPoint[] | undefined {
+    let initial = 0;
+    const points: PitchBendPoint[] = [];
+    for (const bend of bends) {
+        if (bend.channel !== note.channel) continue;
+        if (bend.tick <= note.startTick) initial = bend.cents;
+        else if (bend.tick < note.endTick) points.push({ time: toNoteTime(bend.tick), cents: bend.cents });
+        else break;
+    }
+    if (initial === 0 && points.every(p => p.cents === 0)) return undefined;
+    return [{ time: 0, cents: initial }, ...points];
+}
+
+// 14 bit pitch bend value as the LSB, MSB data bytes
+function pitchBendBytes(cents: number, range: number): number[] {
+    const value = Math.max(0, Math.min(0x3FFF, Math.round(PITCH_BEND_CENTRE + cents / (range * 100) * PITCH_BEND_CENTRE)));
+    return [value & 0x7F, value >> 7];
+}
+
+function readChunkId(data: Uint8Array, offset: number): string {
+    return String.fromCharCode(...data.subarray(offset, offset + 4));
+}
+
+function encodeTrack(events: MidiEvent[]): number[] {
+    // Stable sort by time, note offs first so a repeated note is not cut short
+    const sorted = events
+        .map((event, index) => ({ event, index }))
+        .sort((a, b) => a.event.tick - b.event.tick
+            || eventOrder(a.event) - eventOrder(b.event)
+            || a.index - b.index)
+        .map(({ event }) => event);
+
+    const body: number[] = [];
+    let lastTick = 0;
+    for (const event of sorted) {
+        body.push(...variableLengthQuantity(event.tick - lastTick), ...event.data);
+        lastTick = event.tick;
+    }
+    // End of track
+    body.push(0x00, 0xFF, 0x2F, 0x00);
+
+    return [...chunkId("MTrk"), ...uint(body.length, 4), ...body];
+}
+
+function eventOrder(event: MidiEvent): number {
+    const status = event.data[0]!;
+    if (status === 0xFF) return 0; // Meta events
+    if ((status & 0xF0) === 0x80) return 1;
+    // Note ons last so controllers and pitch bend at the same time apply to them
+    if ((status & 0xF0) === 0x90) return 3;
+    return 2;
+}
+
+function variableLengthQuantity(value: number): number[] {
+    const bytes = [value & 0x7F];
+    value >>>= 7;
+    while (value > 0) {
+        bytes.unshift((value & 0x7F) | 0x80);
+        value >>>= 7;
+    }
+    return bytes;
+}
+
+// Big endian
+function uint(value: number, byteCount: number): number[] {
+    const bytes: number[] = [];
+    for (let i = byteCount - 1; i >= 0; i--) {
+        bytes.push((value >>> (i * 8)) & 0xFF);
+    }
+    return bytes;
+}
+
+function chunkId(id: string): number[] {
+    return Array.from(id, c => c.charCodeAt(0));
+}
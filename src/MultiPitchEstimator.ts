@@ -0,0 +1,224 @@
+import { MAX_DECIBELS, MAX_HARMONICS, MAX_POLYPHONIC_MIDI, MAX_POLYPHONY, MIN_DECIBELS, MIN_POLYPHONIC_MIDI, POLYPHONY_EXPONENT } from "./Constants";
+import { AnalysisSettings, DEFAULT_SETTINGS } from "./Settings";
+import { DEFAULT_TUNING, noteFrequencies, Tuning } from "./Tuning";
+
+export interface PitchCandidate {
+    frequency: number; // Hz, refined from the partials that were found
+    peakDb: number; // Level of the strongest partial
+    salience: number; // Weighted sum of the partial magnitudes
+}
+
+// Partial weights g(f0, h) = (f0 + ALPHA) / (h * f0 + BETA), from Klapuri
+const WEIGHT_ALPHA = 52; // Hz
+const WEIGHT_BETA = 320; // Hz
+const PARTIAL_TOLERANCE = 0.5; // Semitones either side of h * f0 searched for partial h
+const REFINE_HARMONICS = 4; // Partials used to refine the frequency
+const PEAK_RANGE_DB = 50; // Spectral peaks further below the loudest are ignored
+const FUNDAMENTAL_RANGE_DB = 40; // Furthest the fundamental can be below a note's strongest partial
+const RESOLVED_BINS = 3; // FFT bins apart peaks need to be not to merge, the window's main lobe is 4 wide
+
+interface SpectralPeak {
+    frequency: number; // Hz, interpolated
+    magnitude: number; // Linear, reduced as notes explaining it are found
+}
+
+// Multiple fundamental frequency estimation by iterative harmonic
+// subtraction. The note whose harmonics best explain the spectral peaks is
+// taken, its partials are removed from the peaks and the search repeats on
+// what remains, until another note would not explain enough to be worth
+// adding.
+// Klapuri (2006) "Multiple fundamental frequency estimation by summing harmonic amplitudes"
+export class MultiPitchEstimator {
+    private peaks: SpectralPeak[] = [];
+    private binWidth = 0; // Hz, of the spectrum the peaks are from
+    private partials: (SpectralPeak | null)[] = []; // Of the last candidate passed to salience(), by harmonic
+    private maxFreqScale = DEFAULT_SETTINGS.maxFreqScale;
+    private partialFloorDb = 0; // Weakest partial that can make a note, the same level as noteThreshold in peaks mode
+    private candidates: number[] = []; // Hz, the notes of the tuning, ascending
+
+    constructor(settings = DEFAULT_SETTINGS) {
+        this.setSettings(settings);
+        this.setTuning(DEFAULT_TUNING);
+    }
+
+    setSettings(settings: AnalysisSettings) {
+        this.maxFreqScale = settings.maxFreqScale;
+        this.partialFloorDb = MIN_DECIBELS + settings.noteThreshold / 255 * (MAX_DECIBELS - MIN_DECIBELS);
+    }
+
+    // Candidates are the tuning's notes over the range of MIDI notes
+    setTuning(tuning: Tuning) {
+        const low = midiToFrequency(MIN_POLYPHONIC_MIDI - 0.5, tuning.referencePitch);
+        const high = midiToFrequency(MAX_POLYPHONIC_MIDI + 0.5, tuning.referencePitch);
+        this.candidates = noteFrequencies(low, high, tuning);
+    }
+
+    // `floatFrequencyData` in dB as from AnalyserNode.getFloatFrequencyData.
+    // `thresholds` are per bin floors for the strongest partial, e.g. from
+    // a NoiseProfile, in place of the one from noteThreshold.
+    estimate(floatFrequencyData: Float32Array, sampleRate: number, thresholds: Float32Array | null = null): PitchCandidate[] {
+        this.findPeaks(floatFrequencyData, sampleRate);
+        const binWidth = sampleRate / (2 * floatFrequencyData.length);
+
+        const found: PitchCandidate[] = [];
+        const taken = new Set<number>();
+        let salienceSum = 0;
+        let previousScore = 0;
+
+        while (found.length < MAX_POLYPHONY) {
+            let best = -1;
+            let bestSalience = 0;
+            for (let i = 0; i < this.candidates.length; i++) {
+                if (taken.has(i)) continue;
+                const salience = this.salience(this.candidates[i]!);
+                if (salience > bestSalience) {
+                    bestSalience = salience;
+                    best = i;
+                }
+            }
+            if (best === -1) break;
+
+            // Each note has to raise the mean salience per note, discounted
+            // by POLYPHONY_EXPONENT, or it is explaining leftovers
+            const score = (salienceSum + bestSalience) / Math.pow(found.length + 1, POLYPHONY_EXPONENT);
+            if (score <= previousScore) break;
+
+            const f0 = this.candidates[best]!;
+            this.salience(f0); // Fills this.partials for the best note
+            const strongest = this.partials.reduce<SpectralPeak | null>((max, p) => p && p.magnitude > (max?.magnitude ?? 0) ? p : max, null);
+            if (!strongest) break;
+            const floorDb = thresholds?.[Math.round(strongest.frequency / binWidth)] ?? this.partialFloorDb;
+            const strongestDb = 20 * Math.log10(strongest.magnitude);
+            taken.add(best);
+            // Too quiet to be a note, e.g. hum no louder than it was when
+            // calibrating, but its peaks are still explained away
+            if (strongestDb < floorDb) {
+                this.subtractPartials();
+                continue;
+            }
+
+            found.push({
+                frequency: this.refineFrequency(best),
+                peakDb: strongestDb,
+                salience: bestSalience,
+            });
+            salienceSum += bestSalience;
+            previousScore = score;
+            this.subtractPartials();
+        }
+
+        return found;
+    }
+
+    // Local maxima interpolated as in NoteDetector.detect
+    private findPeaks(floatFrequencyData: Float32Array, sampleRate: number) {
+        const binWidth = sampleRate / (2 * floatFrequencyData.length);
+        this.binWidth = binWidth;
+        const maxBin = Math.min(Math.floor(floatFrequencyData.length * this.maxFreqScale), floatFrequencyData.length - 1);
+        this.peaks = [];
+        let loudestDb = -Infinity;
+
+        for (let i = 1; i < maxBin; i++) {
+            const prev = floatFrequencyData[i - 1]!;
+            const current = floatFrequencyData[i]!;
+            const next = floatFrequencyData[i + 1]!;
+            if (current <= prev || current < next || !Number.isFinite(current)) continue;
+
+            const denominator = prev - 2 * current + next;
+            const interpolate = denominator !== 0 && Number.isFinite(denominator);
+            const offset = interpolate ? 0.5 * (prev - next) / denominator : 0;
+            const peakDb = interpolate ? current - 0.25 * (prev - next) * offset : current;
+            loudestDb = Math.max(loudestDb, peakDb);
+            this.peaks.push({ frequency: (i + offset) * binWidth, magnitude: Math.pow(10, peakDb / 20) });
+        }
+
+        const minMagnitude = Math.pow(10, (loudestDb - PEAK_RANGE_DB) / 20);
+        this.peaks = this.peaks.filter(p => p.magnitude >= minMagnitude);
+    }
+
+    // Weighted sum of the magnitude of the largest peak near each harmonic,
+    // leaves the peaks it used in this.partials
+    private salience(f0: number): number {
+        const tolerance = Math.pow(2, PARTIAL_TOLERANCE / 12);
+        const weightNumerator = f0 + WEIGHT_ALPHA;
+        const maxFrequency = this.peaks[this.peaks.length - 1]?.frequency ?? 0;
+        this.partials.length = 0;
+
+        let salience = 0;
+        let found = 0;
+        let possible = 0;
+        let expected = f0;
+        let p = 0; // Peaks are in frequency order, as are the harmonics
+        for (let h = 1; h <= MAX_HARMONICS && expected / tolerance <= maxFrequency; h++) {
+            const from = expected / tolerance;
+            const to = expected * tolerance;
+            while (p < this.peaks.length && this.peaks[p]!.frequency < from) p++;
+
+            let partial: SpectralPeak | null = null;
+            for (let q = p; q < this.peaks.length && this.peaks[q]!.frequency <= to; q++) {
+                const peak = this.peaks[q]!;
+                if (peak.magnitude > (partial?.magnitude ?? 0)) partial = peak;
+            }
+            this.partials.push(partial);
+            possible++;
+            if (partial) {
+                salience += partial.magnitude * weightNumerator / (h * f0 + WEIGHT_BETA);
+                found++;
+            }
+            // Stiff strings make the partials progressively sharp, so the
+            // next is looked for relative to the last one found
+            const nominal = (h + 1) * f0;
+            expected = partial ? Math.min(nominal * tolerance, Math.max(nominal, partial.frequency * (h + 1) / h)) : nominal;
+        }
+        // Without a fundamental it's most likely a note an octave or a fifth
+        // below ones actually playing, whose partials line up with its upper
+        // ones, e.g. C3 under a C major triad. Even the weak fundamentals of
+        // low piano notes make a peak within range of their partials, unless
+        // it's too close to the second partial to be a peak of its own.
+        const fundamental = this.partials[0]?.magnitude ?? 0;
+        const strongest = this.partials.reduce((max, partial) => Math.max(max, partial?.magnitude ?? 0), 0);
+        const unresolved = f0 < RESOLVED_BINS * this.binWidth && this.partials[1];
+        if (fundamental < strongest * Math.pow(10, -FUNDAMENTAL_RANGE_DB / 20) && !unresolved) return 0;
+        // A lone partial is more likely one left over from a note already found
+        if (found < Math.min(2, possible)) return 0;
+        return salience;
+    }
+
+    // Removes the note in this.partials from the peaks. A partial louder
+    // than both its neighbours is likely shared with another note so is
+    // only reduced to the louder neighbour's level.
+    private subtractPartials() {
+        const magnitudes = this.partials.map(p => p?.magnitude ?? 0);
+        this.partials.forEach((partial, i) => {
+            if (!partial) return;
+            const neighbour = i === 0 ? Infinity : Math.max(magnitudes[i - 1]!, magnitudes[i + 1] ?? 0);
+            partial.magnitude -= Math.min(partial.magnitude, neighbour);
+        });
+    }
+
+    // Average of partial frequency / h over the lowest partials, weighted by
+    // magnitude before subtraction. Kept within half the way to the
+    // neighbouring candidates, and a semitone, as low partials of
+    // neighbouring notes can merge into one peak.
+    private refineFrequency(candidate: number): number {
+        const f0 = this.candidates[candidate]!;
+        let weightedSum = 0;
+        let totalWeight = 0;
+        this.partials.slice(0, REFINE_HARMONICS).forEach((partial, i) => {
+            if (!partial) return;
+            weightedSum += partial.frequency / (i + 1) * partial.magnitude;
+            totalWeight += partial.magnitude;
+        });
+        if (totalWeight <= 0) return f0;
+        const limit = Math.pow(2, 0.49 / 12);
+        const below = this.candidates[candidate - 1] ?? 0;
+        const above = this.candidates[candidate + 1] ?? Infinity;
+        const low = Math.max(f0 / limit, f0 * Math.pow(below / f0, 0.49));
+        const high = Math.min(f0 * limit, f0 * Math.pow(above / f0, 0.49));
+        return Math.min(high, Math.max(low, weightedSum / totalWeight));
+    }
+}
+
+function midiToFrequency(midi: number, referencePitch: number): number {
+    return referencePitch * Math.pow(2, (midi - 69) / 12);
+}
@@ -0,0 +1,107 @@
+import { MAX_DECIBELS, MIN_DECIBELS, NOISE_MARGIN_DB, NOISE_OVERSUBTRACTION, NOISE_RMS_MARGIN, NOISE_SPECTRAL_FLOOR } from "./Constants";
+import { AnalysisFrame } from "./SpectrumAnalyser";
+
+// Ambient noise measured with nothing playing, per frequency bin of the
+// analyser it was captured from. Plain arrays and numbers so it can be
+// posted to the analysis worker.
+export interface NoiseProfile {
+    sampleRate: number;
+    levels: Float32Array; // dB, mean noise power in each bin
+    peaks: Float32Array; // dB, loudest the noise got in each bin
+    rms: number; // Of the time domain samples
+}
+
+// Accumulates frames of ambient noise into a NoiseProfile
+export class NoiseCalibrator {
+    private power: Float64Array | null = null;
+    private peaks: Float32Array | null = null;
+    private sumSquares = 0;
+    private sampleCount = 0;
+    private frameCount = 0;
+    private sampleRate = 0;
+
+    add(frame: AnalysisFrame) {
+        const data = frame.floatFrequencyData;
+        // The analyser changed under us, start again
+        if (!this.power || this.power.length !== data.length || this.sampleRate !== frame.sampleRate) {
+            this.power = new Float64Array(data.length);
+            this.peaks = new Float32Array(data.length).fill(-Infinity);
+            this.sumSquares = 0;
+            this.sampleCount = 0;
+            this.frameCount = 0;
+            this.sampleRate = frame.sampleRate;
+        }
+
+        for (let i = 0; i < data.length; i++) {
+            const db = data[i]!;
+            this.power[i] += Math.pow(10, db / 10);
+            if (db > this.peaks![i]!) this.peaks![i] = db;
+        }
+        for (let i = 0; i < frame.timeDomainData.length; i++) {
+            this.sumSquares += frame.timeDomainData[i]! * frame.timeDomainData[i]!;
+        }
+        this.sampleCount += frame.timeDomainData.length;
+        this.frameCount++;
+    }
+
+    getFrameCount(): number {
+        return this.frameCount;
+    }
+
+    // Null if no frames were added
+    finish(): NoiseProfile | null {
+        if (!this.power || !this.peaks || this.frameCount === 0) return null;
+        const levels = new Float32Array(this.power.length);
+        for (let i = 0; i < levels.length; i++) {
+            levels[i] = 10 * Math.log10(this.power[i]! / this.frameCount);
+        }
+        return {
+            sampleRate: this.sampleRate,
+            levels,
+            peaks: this.peaks.slice(),
+            rms: this.sampleCount > 0 ? Math.sqrt(this.sumSquares / this.sampleCount) : 0,
+        };
+    }
+}
+
+// Whether `profile` was captured with the same analyser settings as frames
+// of `binCount` bins at `sampleRate`, otherwise its bins mean nothing
+export function profileMatches(profile: NoiseProfile, binCount: number, sampleRate: number): boolean {
+    return profile.levels.length === binCount && profile.sampleRate === sampleRate;
+}
+
+// dB per bin a spectral peak has to exceed to be taken for a note: a margin
+// above the loudest the noise got there, so hum and fan noise don't make
+// notes while a quiet room still lets soft ones through
+export function noiseThresholds(profile: NoiseProfile): Float32Array {
+    const thresholds = new Float32Array(profile.peaks.length);
+    for (let i = 0; i < thresholds.length; i++) {
+        thresholds[i] = Math.max(MIN_DECIBELS, profile.peaks[i]! + NOISE_MARGIN_DB);
+    }
+    return thresholds;
+}
+
+// Silence gate for the pitch tracker
+export function noiseGateRms(profile: NoiseProfile): number {
+    return profile.rms * NOISE_RMS_MARGIN;
+}
+
+// Power spectral subtraction with over-subtraction and a spectral floor,
+// rewriting the frame's frequency data in place. The time domain data is
+// left alone. Does nothing if the profile is for different frames.
+// Berouti et al. (1979) "Enhancement of speech corrupted by acoustic noise"
+export function subtractNoise(frame: AnalysisFrame, profile: NoiseProfile, minDecibels = MIN_DECIBELS, maxDecibels = MAX_DECIBELS) {
+    const data = frame.floatFrequencyData;
+    if (!profileMatches(profile, data.length, frame.sampleRate)) return;
+
+    // Same conversion as SpectrumAnalyser / AnalyserNode.getByteFrequencyData
+    const byteScale = 255 / (maxDecibels - minDecibels);
+    for (let i = 0; i < data.length; i++) {
+        const power = Math.pow(10, data[i]! / 10);
+        const noise = Math.pow(10, profile.levels[i]! / 10);
+        const cleaned = Math.max(power - NOISE_OVERSUBTRACTION * noise, NOISE_SPECTRAL_FLOOR * power);
+        const db = 10 * Math.log10(cleaned);
+        data[i] = db;
+        frame.frequencyData[i] = Math.max(0, Math.min(255, Math.floor(byteScale * (db - minDecibels))));
+    }
+}
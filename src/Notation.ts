@@ -0,0 +1,374 @@
+import { beatGridFromRecording } from "./BeatTracker";
+import { BeatGrid, firstBeatTime, msPerQuarter, TimeSignature } from "./Quantize";
+import { RecordedNote } from "./Recorder";
+import { DEFAULT_TUNING, notePitch, Tuning } from "./Tuning";
+
+// Notation export: quantizes a recording to note values and writes it as
+// MusicXML or ABC. Both formats share the same single voice score model,
+// notes starting together become a chord and overlapping notes are cut at
+// the next onset. Notes in other tunings are written at the nearest
+// quarter tone.
+
+export interface KeySignature {
+    fifths: number; // -7 (7 flats) to 7 (7 sharps)
+    mode: 'major' | 'minor';
+}
+
+export interface NotationOptions {
+    beatGrid?: BeatGrid; // Estimated from the recording when omitted, the first bar starts on a beat
+    timeSignature?: TimeSignature; // Defaults to 4/4
+    key?: KeySignature; // Defaults to C major
+    subdivision?: number; // Grid steps per quarter note, 4 = sixteenths
+    title?: string;
+    tuning?: Tuning; // The recording's note names are in, defaults to 12-TET
+}
+
+export interface SpelledPitch {
+    step: string; // A-G
+    alter: number; // -2 to 2 semitones, in halves for quarter tones
+    octave: number;
+}
+
+interface ScoreNote {
+    duration: number; // Grid steps
+    pitches: number[]; // MIDI numbers to the nearest quarter tone, empty for a rest
+    tieStart: boolean; // Tied to the next note
+    tieStop: boolean; // Tied from the previous note
+}
+
+interface Score {
+    bpm: number;
+    timeSignature: TimeSignature;
+    key: KeySignature;
+    divisions: number; // Grid steps per quarter note
+    measures: ScoreNote[][];
+}
+
+const DEFAULT_BPM = 120; // For recordings too short to estimate a tempo
+
+// Circle of fifths order, used to spell pitches for a key
+const FIFTHS_LETTERS = "FCGDAEB";
+const MAJOR_KEY_NAMES = ['Cb', 'Gb', 'Db', 'Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#'];
+const MINOR_KEY_NAMES = ['Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#', 'G#', 'D#', 'A#'];
+
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { beats: 4, beatType: 4 };
+export const DEFAULT_KEY: KeySignature = { fifths: 0, mode: 'major' };
+
+export const KEY_SIGNATURES: KeySignature[] = (['major', 'minor'] as const).flatMap(mode =>
+    Array.from({ length: 15 }, (_, i) => ({ fifths: i - 7, mode })));
+
+export function getKeyName(key: KeySignature): string {
+    const names = key.mode === 'major' ? MAJOR_KEY_NAMES : MINOR_KEY_NAMES;
+    return `${names[key.fifths + 7]}${key.mode === 'minor' ? 'm' : ''}`;
+}
+
+// Quarter tones are spelt from the neighbouring semitone with the fewest
+// accidentals, C half sharp rather than C# half flat
+function spellQuarterTone(midi: number, key: KeySignature): SpelledPitch {
+    if (Number.isInteger(midi)) return spellPitch(midi, key);
+    const below = spellPitch(Math.floor(midi), key);
+    const above = spellPitch(Math.ceil(midi), key);
+    return Math.abs(above.alter) < Math.abs(below.alter)
+        ? { ...above, alter: above.alter - 0.5 }
+        : { ...below, alter: below.alter + 0.5 };
+}
+
+// Picks the spelling whose position on the line of fifths is closest to the
+// middle of the key, so diatonic notes get the key's letters (F# in G major,
+// E# in C# major) and chromatic notes lean towards the key's accidentals
+export function spellPitch(midi: number, key: KeySignature): SpelledPitch {
+    const pitchClass = ((midi % 12) + 12) % 12;
+    // Position 0 is C. Minor keys lean one step sharper for their raised
+    // leading note, e.g. G# rather than Ab in A minor.
+    const centre = key.fifths + (key.mode === 'minor' ? 3 : 2);
+
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let position = -15; position <= 19; position++) {
+        if (((position * 7) % 12 + 12) % 12 !== pitchClass) continue;
+        const distance = Math.abs(position - centre);
+        if (distance < bestDistance) {
+            best = position;
+            bestDistance = distance;
+        }
+    }
+
+    const step = FIFTHS_LETTERS[((best + 1) % 7 + 7) % 7]!;
+    const alter = Math.floor((best + 1) / 7);
+    const octave = Math.floor((midi - alter) / 12) - 1;
+    return { step, alter, octave };
+}
+
+export function toMusicXml(recording: RecordedNote[], options: NotationOptions = {}): string {
+    const score = buildScore(recording, options);
+    const { key, timeSignature, divisions } = score;
+    const clef = chooseClef(recording, options.tuning ?? DEFAULT_TUNING);
+
+    const lines: string[] = [
+        '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+        '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+        '<score-partwise version="4.0">',
+    ];
+    if (options.title) {
+        lines.push(`  <work><work-title>${escapeXml(options.title)}</work-title></work>`);
+    }
+    lines.push(
+        '  <part-list>',
+        '    <score-part id="P1"><part-name>Recording</part-name></score-part>',
+        '  </part-list>',
+        '  <part id="P1">',
+    );
+
+    score.measures.forEach((measure, index) => {
+        lines.push(`    <measure number="${index + 1}">`);
+        if (index === 0) {
+            lines.push(
+                '      <attributes>',
+                `        <divisions>${divisions}</divisions>`,
+                `        <key><fifths>${key.fifths}</fifths><mode>${key.mode}</mode></key>`,
+                `        <time><beats>${timeSignature.beats}</beats><beat-type>${timeSignature.beatType}</beat-type></time>`,
+                clef === 'bass'
+                    ? '        <clef><sign>F</sign><line>4</line></clef>'
+                    : '        <clef><sign>G</sign><line>2</line></clef>',
+                '      </attributes>',
+                '      <direction placement="above">',
+                '        <direction-type><metronome><beat-unit>quarter</beat-unit>'
+                    + `<per-minute>${Math.round(score.bpm)}</per-minute></metronome></direction-type>`,
+                `        <sound tempo="${Math.round(score.bpm)}"/>`,
+                '      </direction>',
+            );
+        }
+
+        for (const note of measure) {
+            const value = noteValue(note.duration, divisions);
+            const type = value ? `<type>${value.type}</type>${value.dotted ? '<dot/>' : ''}` : '';
+            const ties = (note.tieStop ? '<tie type="stop"/>' : '') + (note.tieStart ? '<tie type="start"/>' : '');
+            const tied = (note.tieStop ? '<tied type="stop"/>' : '') + (note.tieStart ? '<tied type="start"/>' : '');
+            const notations = tied ? `<notations>${tied}</notations>` : '';
+
+            if (note.pitches.length === 0) {
+                lines.push(`      <note><rest/><duration>${note.duration}</duration>${type}</note>`);
+                continue;
+            }
+            note.pitches.forEach((midi, i) => {
+                const { step, alter, octave } = spellQuarterTone(midi, key);
+                const pitch = `<pitch><step>${step}</step>${alter ? `<alter>${alter}</alter>` : ''}<octave>${octave}</octave></pitch>`;
+                const chord = i > 0 ? '<chord/>' : '';
+                lines.push(`      <note>${chord}${pitch}<duration>${note.duration}</duration>${ties}${type}${notations}</note>`);
+            });
+        }
+
+        if (index === score.measures.length - 1) {
+            lines.push('      <barline location="right"><bar-style>light-heavy</bar-style></barline>');
+        }
+        lines.push('    </measure>');
+    });
+
+    lines.push('  </part>', '</score-partwise>', '');
+    return lines.join('\n');
+}
+
+export function toAbc(recording: RecordedNote[], options: NotationOptions = {}): string {
+    const score = buildScore(recording, options);
+    const { key, timeSignature, divisions } = score;
+
+    const header = [
+        'X:1',
+        `T:${options.title ?? 'Recording'}`,
+        `M:${timeSignature.beats}/${timeSignature.beatType}`,
+        // One unit note length = one grid step
+        `L:1/${4 * divisions}`,
+        `Q:1/4=${Math.round(score.bpm)}`,
+        `K:${getKeyName(key)}`,
+    ];
+
+    const keyAlters = keySignatureAlters(key);
+    const bars = score.measures.map(measure => {
+        // Accidentals last until the end of the bar, as in standard notation
+        const barAlters = new Map<string, number>();
+        const alterFor = (step: string, octave: number) =>
+            barAlters.get(`${step}${octave}`) ?? keyAlters.get(step) ?? 0;
+
+        return measure.map(note => {
+            const length = note.duration === 1 ? '' : `${note.duration}`;
+            if (note.pitches.length === 0) return `z${length}`;
+
+            const pitches = note.pitches.map(midi => {
+                const { step, alter, octave } = spellQuarterTone(midi, key);
+                let accidental = '';
+                if (alterFor(step, octave) !== alter) {
+                    accidental = ABC_ACCIDENTALS[alter * 2 + 4]!;
+                    barAlters.set(`${step}${octave}`, alter);
+                }
+                return accidental + abcPitch(step, octave);
+            });
+            const body = pitches.length === 1 ? pitches[0]! : `[${pitches.join('')}]`;
+            return `${body}${length}${note.tieStart ? '-' : ''}`;
+        }).join(' ');
+    });
+
+    // Four bars per line
+    const lines: string[] = [];
+    for (let i = 0; i < bars.length; i += 4) {
+        const isLast = i + 4 >= bars.length;
+        lines.push(bars.slice(i, i + 4).join(' | ') + (isLast ? ' |]' : ' |'));
+    }
+
+    return [...header, ...lines, ''].join('\n');
+}
+
+// By quarter tones from a double flat, "^/" is a quarter tone sharp
+const ABC_ACCIDENTALS = ['__', '_3/2', '_', '_/', '=', '^/', '^', '^3/2', '^^'];
+
+// Nearest quarter tone of the note, read in `tuning` or failing that as a
+// 12-TET name, null when it's no note at all
+function scorePitch(note: string, tuning: Tuning): number | null {
+    const pitch = notePitch(note, tuning) ?? notePitch(note);
+    return pitch === null ? null : Math.round(pitch * 2) / 2;
+}
+
+function buildScore(recording: RecordedNote[], options: NotationOptions): Score {
+    const grid = options.beatGrid ?? beatGridFromRecording(recording) ?? { bpm: DEFAULT_BPM, offset: 0 };
+    const bpm = grid.bpm;
+    // Timed from a beat, so the notes fall on the grid and the time before
+    // the recording is a rest
+    const origin = firstBeatTime(grid);
+    const timeSignature = options.timeSignature ?? DEFAULT_TIME_SIGNATURE;
+    const key = options.key ?? DEFAULT_KEY;
+    const divisions = options.subdivision ?? 4;
+    const tuning = options.tuning ?? DEFAULT_TUNING;
+    const stepMs = msPerQuarter(bpm) / divisions;
+    const measureLength = Math.round(timeSignature.beats * 4 / timeSignature.beatType * divisions);
+
+    // Quantize every note to the grid, at least one step long
+    const quantized = recording
+        .map(n => {
+            const midi = scorePitch(n.note, tuning);
+            const start = Math.round((n.startTime - origin) / stepMs);
+            const end = Math.max(start + 1, Math.round((n.startTime - origin + n.duration) / stepMs));
+            return { midi, start, end };
+        })
+        .filter((n): n is { midi: number, start: number, end: number } => n.midi !== null);
+
+    // Group into chords by start step
+    const byStart = new Map<number, { midi: number, end: number }[]>();
+    for (const n of quantized) {
+        const group = byStart.get(n.start) ?? [];
+        group.push(n);
+        byStart.set(n.start, group);
+    }
+    const starts = [...byStart.keys()].sort((a, b) => a - b);
+
+    // A single voice timeline of chords and rests
+    const events: { start: number, duration: number, pitches: number[] }[] = [];
+    let position = 0;
+    starts.forEach((start, i) => {
+        const group = byStart.get(start)!;
+        const nextStart = starts[i + 1] ?? Infinity;
+        const end = Math.min(Math.max(...group.map(n => n.end)), nextStart);
+        if (start > position) {
+            events.push({ start: position, duration: start - position, pitches: [] });
+        }
+        const pitches = [...new Set(group.map(n => n.midi))].sort((a, b) => a - b);
+        events.push({ start, duration: end - start, pitches });
+        position = end;
+    });
+
+    // Pad the last measure with a rest
+    const totalLength = Math.max(measureLength, Math.ceil(position / measureLength) * measureLength);
+    if (position < totalLength) {
+        events.push({ start: position, duration: totalLength - position, pitches: [] });
+    }
+
+    // Split at bar lines and into writable note values, tying the pieces
+    const measures: ScoreNote[][] = Array.from({ length: totalLength / measureLength }, () => []);
+    for (const event of events) {
+        let start = event.start;
+        const end = event.start + event.duration;
+        while (start < end) {
+            const measureIndex = Math.floor(start / measureLength);
+            const barEnd = (measureIndex + 1) * measureLength;
+            const pieceEnd = Math.min(end, barEnd);
+            for (const duration of splitDuration(pieceEnd - start, divisions)) {
+                measures[measureIndex]!.push({
+                    duration,
+                    pitches: event.pitches,
+                    tieStop: start > event.start && event.pitches.length > 0,
+                    tieStart: start + duration < end && event.pitches.length > 0,
+                });
+                start += duration;
+            }
+        }
+    }
+
+    return { bpm, timeSignature, key, divisions, measures };
+}
+
+// Largest first, in quarter notes
+const NOTE_VALUES: { quarters: number, type: string, dotted: boolean }[] = [
+    { quarters: 6, type: 'whole', dotted: true },
+    { quarters: 4, type: 'whole', dotted: false },
+    { quarters: 3, type: 'half', dotted: true },
+    { quarters: 2, type: 'half', dotted: false },
+    { quarters: 1.5, type: 'quarter', dotted: true },
+    { quarters: 1, type: 'quarter', dotted: false },
+    { quarters: 0.75, type: 'eighth', dotted: true },
+    { quarters: 0.5, type: 'eighth', dotted: false },
+    { quarters: 0.375, type: '16th', dotted: true },
+    { quarters: 0.25, type: '16th', dotted: false },
+    { quarters: 0.125, type: '32nd', dotted: false },
+    { quarters: 0.0625, type: '64th', dotted: false },
+];
+
+function noteValue(duration: number, divisions: number) {
+    return NOTE_VALUES.find(v => v.quarters * divisions === duration);
+}
+
+// Breaks a duration in grid steps into values that can be written as a
+// single (possibly dotted) note, falling back to single steps when the grid
+// does not line up with any note value
+function splitDuration(duration: number, divisions: number): number[] {
+    const parts: number[] = [];
+    let remaining = duration;
+    while (remaining > 0) {
+        const value = NOTE_VALUES.find(v => {
+            const steps = v.quarters * divisions;
+            return Number.isInteger(steps) && steps <= remaining;
+        });
+        const steps = value ? value.quarters * divisions : 1;
+        parts.push(steps);
+        remaining -= steps;
+    }
+    return parts;
+}
+
+function chooseClef(recording: RecordedNote[], tuning: Tuning): 'treble' | 'bass' {
+    const midis = recording.map(n => scorePitch(n.note, tuning)).filter((m): m is number => m !== null);
+    if (midis.length === 0) return 'treble';
+    midis.sort((a, b) => a - b);
+    return midis[Math.floor(midis.length / 2)]! < 60 ? 'bass' : 'treble';
+}
+
+function keySignatureAlters(key: KeySignature): Map<string, number> {
+    const alters = new Map<string, number>();
+    // Sharps are added in circle of fifths order, flats in reverse
+    for (let i = 0; i < Math.abs(key.fifths); i++) {
+        if (key.fifths > 0) alters.set(FIFTHS_LETTERS[i]!, 1);
+        else alters.set(FIFTHS_LETTERS[6 - i]!, -1);
+    }
+    return alters;
+}
+
+// Middle C (C4) is "C", C5 is "c", C6 is "c'" and C3 is "C,"
+function abcPitch(step: string, octave: number): string {
+    if (octave >= 5) return step.toLowerCase() + "'".repeat(octave - 5);
+    return step + ",".repeat(Math.max(0, 4 - octave));
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -1,53 +1,253 @@
 // Mostly from an LLM
 
-import { FFT_SIZE, MAX_FREQ_SCALE, MIN_NOTE_DURATION, NOTE_NAMES, NOTE_THRESHOLD, NOTES_TO_SHOW } from "./Constants";
+import { MAX_DECIBELS, MIN_DECIBELS, MIN_ONSET_INTERVAL, ONSET_THRESHOLD, PITCH_CONFIDENCE_THRESHOLD } from "./Constants";
+import { MultiPitchEstimator } from "./MultiPitchEstimator";
+import { noiseGateRms, NoiseProfile, noiseThresholds, profileMatches } from "./NoiseProfile";
+import { OnsetDetector } from "./OnsetDetector";
+import { PitchEstimate, PitchTracker } from "./PitchTracker";
+import { AnalysisSettings, DEFAULT_SETTINGS } from "./Settings";
+import { DEFAULT_TUNING, frequencyToMidi, nearestNote, Tuning } from "./Tuning";
+import { AnalysisFrame } from "./SpectrumAnalyser";
+
+// 'peaks' = loudest FFT bins, one note per bin (chords, but overtones show up as notes)
+// 'monophonic' = single fundamental per frame from the YIN pitch tracker
+// 'polyphonic' = notes whose harmonics explain the spectrum, for chords on piano or guitar
+export type DetectionMode = 'peaks' | 'monophonic' | 'polyphonic';
+
+export interface DetectedNote {
+    note: string;
+    frequency: number; // Hz, refined to a fraction of an FFT bin
+    cents: number; // Deviation from the nearest step of the active tuning
+    amplitude: number; // 0-1, same scale as the byte frequency data / 255
+    onsetStrength: number; // 0-1, of the attack that started the current note event
+    onset: boolean; // True on the frame a sounding note was re-articulated
+    onsetTime: number; // ms, when the current note event was first detected
+}
+
+interface ActiveNote {
+    start: number; // ms
+    onsetStrength: number;
+    lastOnset: number; // ms
+    aboveThreshold: boolean; // Onset strength on the previous frame, onsets trigger on the rising edge
+}
 
 export class NoteDetector {
-    private activeNotes = new Map<string, number>(); // Note -> StartTime (ms)
+    private settings: AnalysisSettings;
+    private tuning = DEFAULT_TUNING;
+    private activeNotes = new Map<string, ActiveNote>();
+    private pitchTracker = new PitchTracker();
+    private multiPitchEstimator = new MultiPitchEstimator();
+    private onsetDetector = new OnsetDetector();
+    private onsetSampleRate = 0; // 0 until detectFrame has given the onset detector a spectrum
+    private lastOnsetStrength = 0;
+    private lastPitch: PitchEstimate | null = null;
+    private noiseProfile: NoiseProfile | null = null;
+    private noiseThresholds: Float32Array | null = null; // dB per bin, in place of noteThreshold once calibrated
+
+    constructor(settings = DEFAULT_SETTINGS) {
+        this.settings = settings;
+        this.multiPitchEstimator.setSettings(settings);
+    }
+
+    // Takes effect from the next frame, notes already sounding carry on
+    setSettings(settings: AnalysisSettings) {
+        this.settings = settings;
+        this.multiPitchEstimator.setSettings(settings);
+    }
+
+    // Note names and cents follow the tuning, polyphonic mode looks for its notes
+    setTuning(tuning: Tuning) {
+        this.tuning = tuning;
+        this.multiPitchEstimator.setTuning(tuning);
+    }
+
+    getTuning(): Tuning {
+        return this.tuning;
+    }
 
     getNoteFromFrequency(frequency: number): string {
-        if (frequency === 0) return '';
-        // A4 = 440Hz = MIDI 69
-        const noteNum = 12 * (Math.log(frequency / 440) / Math.log(2));
-        const midi = Math.round(noteNum) + 69;
-        // MIDI range 0-127
-        if (midi < 0 || midi > 127) return '';
-        const noteName = NOTE_NAMES[midi % 12];
-        const octave = Math.floor(midi / 12) - 1;
-        return `${noteName}${octave}`;
-    }
-
-    detect(dataArray: Uint8Array, sampleRate: number, currentTimeMs: number): Set<string> {
-        // Find top frequencies
+        return nearestNote(frequency, this.tuning)?.name ?? '';
+    }
+
+    // A4 = reference pitch = MIDI 69 in equal temperament, the fractional
+    // part is the distance to the nearest equal tempered note
+    getMidiFromFrequency(frequency: number): number {
+        return frequencyToMidi(frequency, this.tuning);
+    }
+
+    // Thresholds relative to the calibrated noise rather than fixed levels,
+    // null goes back to the fixed ones
+    setNoiseProfile(profile: NoiseProfile | null) {
+        this.noiseProfile = profile;
+        this.noiseThresholds = profile ? noiseThresholds(profile) : null;
+    }
+
+    // Onsets, and so re-articulated notes, are only tracked through here as
+    // they need the spectrum whatever the mode
+    detectFrame(frame: AnalysisFrame, mode: DetectionMode): DetectedNote[] {
+        this.onsetDetector.process(frame.floatFrequencyData);
+        this.onsetSampleRate = frame.sampleRate;
+        this.lastOnsetStrength = this.onsetDetector.overallStrength();
+        if (mode === 'monophonic') {
+            return this.detectMonophonic(frame.timeDomainData, frame.sampleRate, frame.timeMs);
+        }
+        if (mode === 'polyphonic') {
+            return this.detectPolyphonic(frame.floatFrequencyData, frame.sampleRate, frame.timeMs);
+        }
+        return this.detect(frame.floatFrequencyData, frame.sampleRate, frame.timeMs);
+    }
+
+    // `dataArray` is in decibels as from AnalyserNode.getFloatFrequencyData
+    detect(dataArray: Float32Array, sampleRate: number, currentTimeMs: number): DetectedNote[] {
+        // Find top frequencies, only local maxima so each spectral peak
+        // counts once and can be interpolated
         const peaks: { freq: number, amp: number }[] = [];
-        const maxBin = Math.floor(dataArray.length * MAX_FREQ_SCALE);
+        const maxBin = Math.min(Math.floor(dataArray.length * this.settings.maxFreqScale), dataArray.length - 1);
+        const thresholds = this.thresholdsFor(dataArray.length, sampleRate);
+
+        for (let i = 1; i < maxBin; i++) {
+            const prev = dataArray[i - 1]!;
+            const current = dataArray[i]!;
+            const next = dataArray[i + 1]!;
+            if (current <= prev || current < next) continue;
 
-        for (let i = 0; i < maxBin; i++) {
-            if (dataArray[i] > NOTE_THRESHOLD) {
+            // Parabolic interpolation on the log magnitudes gives the peak
+            // position to a fraction of a bin. Silent bins are -Infinity dB.
+            const denominator = prev - 2 * current + next;
+            const interpolate = denominator !== 0 && Number.isFinite(denominator);
+            const offset = interpolate ? 0.5 * (prev - next) / denominator : 0;
+            const peakDb = interpolate ? current - 0.25 * (prev - next) * offset : current;
+
+            const amp = this.decibelsToAmplitude(peakDb);
+            const threshold = thresholds?.[i];
+            if (threshold !== undefined ? peakDb > threshold : amp * 255 > this.settings.noteThreshold) {
                 peaks.push({
-                    freq: i * sampleRate / FFT_SIZE,
-                    amp: dataArray[i]
+                    freq: (i + offset) * sampleRate / (2 * dataArray.length),
+                    amp
                 });
             }
         }
         peaks.sort((a, b) => b.amp - a.amp);
-        const topPeaks = peaks.slice(0, NOTES_TO_SHOW);
 
-        const currentNotes = new Set<string>();
-        topPeaks.forEach(p => {
-            const note = this.getNoteFromFrequency(p.freq);
-            if (note) currentNotes.add(note);
-        });
+        // Loudest peak wins when two fall within the same semitone
+        const currentNotes = new Map<string, DetectedNote>();
+        for (const p of peaks) {
+            if (currentNotes.size >= this.settings.notesToShow) break;
+            const detected = this.toDetectedNote(p.freq, p.amp);
+            if (detected && !currentNotes.has(detected.note)) {
+                currentNotes.set(detected.note, detected);
+            }
+        }
+
+        return this.debounce(currentNotes, currentTimeMs);
+    }
+
+    // Reports at most one note per frame, the fundamental, so overtones of a
+    // sung or whistled tone are not mistaken for extra notes
+    detectMonophonic(timeDomainData: Float32Array, sampleRate: number, currentTimeMs: number): DetectedNote[] {
+        const minRms = this.noiseProfile?.sampleRate === sampleRate ? noiseGateRms(this.noiseProfile) : undefined;
+        this.lastPitch = this.pitchTracker.estimate(timeDomainData, sampleRate, minRms);
+
+        const currentNotes = new Map<string, DetectedNote>();
+        if (this.lastPitch && this.lastPitch.confidence >= PITCH_CONFIDENCE_THRESHOLD) {
+            let sumSquares = 0;
+            for (let i = 0; i < timeDomainData.length; i++) {
+                sumSquares += timeDomainData[i]! * timeDomainData[i]!;
+            }
+            const rms = Math.sqrt(sumSquares / timeDomainData.length);
+            const amp = this.decibelsToAmplitude(20 * Math.log10(rms));
+
+            const detected = this.toDetectedNote(this.lastPitch.frequency, amp);
+            if (detected) currentNotes.set(detected.note, detected);
+        }
+
+        return this.debounce(currentNotes, currentTimeMs);
+    }
 
-        // Debouncing logic
-        const confirmedNotes = new Set<string>();
+    // One note per fundamental rather than per peak, so overtones are not
+    // reported as notes and there is no notesToShow cap on chords
+    detectPolyphonic(dataArray: Float32Array, sampleRate: number, currentTimeMs: number): DetectedNote[] {
+        const currentNotes = new Map<string, DetectedNote>();
+        for (const candidate of this.multiPitchEstimator.estimate(dataArray, sampleRate, this.thresholdsFor(dataArray.length, sampleRate))) {
+            const detected = this.toDetectedNote(candidate.frequency, this.decibelsToAmplitude(candidate.peakDb));
+            if (detected && !currentNotes.has(detected.note)) {
+                currentNotes.set(detected.note, detected);
+            }
+        }
+
+        return this.debounce(currentNotes, currentTimeMs);
+    }
+
+    // Pitch estimate from the most recent call to detectMonophonic, null when
+    // the frame was silent or not periodic enough to have a pitch
+    getLastPitch(): PitchEstimate | null {
+        return this.lastPitch;
+    }
+
+    // Onset strength of the whole spectrum on the most recent detectFrame,
+    // whether or not any note was detected
+    getLastOnsetStrength(): number {
+        return this.lastOnsetStrength;
+    }
+
+    reset() {
+        this.activeNotes.clear();
+        this.onsetDetector.reset();
+        this.onsetSampleRate = 0;
+        this.lastOnsetStrength = 0;
+        this.lastPitch = null;
+    }
+
+    // Only when the profile was measured from the same kind of frames
+    private thresholdsFor(binCount: number, sampleRate: number): Float32Array | null {
+        if (!this.noiseProfile || !profileMatches(this.noiseProfile, binCount, sampleRate)) return null;
+        return this.noiseThresholds;
+    }
+
+    private toDetectedNote(frequency: number, amplitude: number): DetectedNote | null {
+        const nearest = nearestNote(frequency, this.tuning);
+        if (!nearest || !nearest.name) return null;
+        return {
+            note: nearest.name,
+            frequency,
+            cents: nearest.cents,
+            amplitude,
+            onsetStrength: 0,
+            onset: false,
+            onsetTime: 0,
+        };
+    }
+
+    private decibelsToAmplitude(db: number): number {
+        const scaled = (db - MIN_DECIBELS) / (MAX_DECIBELS - MIN_DECIBELS);
+        return Math.max(0, Math.min(1, scaled));
+    }
+
+    private debounce(currentNotes: Map<string, DetectedNote>, currentTimeMs: number): DetectedNote[] {
+        const confirmedNotes: DetectedNote[] = [];
 
         // Check existing active notes
-        for (const [note, startTime] of this.activeNotes.entries()) {
-            if (currentNotes.has(note)) {
-                // Still active
-                if (currentTimeMs - startTime > MIN_NOTE_DURATION) {
-                    confirmedNotes.add(note);
+        for (const [note, active] of this.activeNotes.entries()) {
+            const detected = currentNotes.get(note);
+            if (detected) {
+                // Still active, a rising edge in onset strength is a new
+                // attack on the same pitch
+                const strength = this.onsetStrength(detected);
+                const aboveThreshold = strength >= ONSET_THRESHOLD;
+                const onset = aboveThreshold && !active.aboveThreshold
+                    && currentTimeMs - active.lastOnset >= MIN_ONSET_INTERVAL;
+                const confirmed = currentTimeMs - active.start > this.settings.minNoteDuration;
+                if (onset) {
+                    active.lastOnset = currentTimeMs;
+                    active.onsetStrength = strength;
+                } else if (aboveThreshold && active.aboveThreshold) {
+                    // The attack can take a few frames to peak
+                    active.onsetStrength = Math.max(active.onsetStrength, strength);
+                }
+                active.aboveThreshold = aboveThreshold;
+
+                if (confirmed) {
+                    confirmedNotes.push({ ...detected, onsetStrength: active.onsetStrength, onset, onsetTime: active.lastOnset });
                 }
             } else {
                 // Note stopped
@@ -56,12 +256,23 @@ export class NoteDetector {
         }
 
         // Add new notes
-        for (const note of currentNotes) {
+        for (const [note, detected] of currentNotes) {
             if (!this.activeNotes.has(note)) {
-                this.activeNotes.set(note, currentTimeMs);
+                const strength = this.onsetStrength(detected);
+                this.activeNotes.set(note, {
+                    start: currentTimeMs,
+                    onsetStrength: strength,
+                    lastOnset: currentTimeMs,
+                    aboveThreshold: strength >= ONSET_THRESHOLD,
+                });
             }
         }
 
         return confirmedNotes;
     }
+
+    private onsetStrength(detected: DetectedNote): number {
+        if (!this.onsetSampleRate) return 0;
+        return this.onsetDetector.strengthAt(detected.frequency, this.onsetSampleRate);
+    }
 }
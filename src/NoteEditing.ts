@@ -0,0 +1,147 @@
+import { bendAt } from "./PitchContour";
+import { BeatGrid, msPerQuarter, snapToGrid } from "./Quantize";
+import { RecordedNote, recordingEnd } from "./Recorder";
+import { DEFAULT_TUNING, noteStep, stepName } from "./Tuning";
+
+// Hand edits of a recording for the piano roll. Every edit returns a new
+// recording, the notes it didn't touch are the same objects, and which notes
+// to select afterwards as indices into it.
+
+export const MIN_EDITED_DURATION = 10; // ms, shortest a note can be made
+const MAX_HISTORY = 100; // Edits that can be undone
+
+export interface EditResult {
+    recording: RecordedNote[];
+    selection: number[];
+}
+
+// `ms` moved to the nearest step of the grid, `stepsPerBeat` to a quarter
+// note. Unchanged without a grid or with 0 steps.
+export function snapTime(ms: number, grid: BeatGrid | null, stepsPerBeat: number): number {
+    if (!grid || stepsPerBeat <= 0) return Math.round(ms);
+    return grid.offset + snapToGrid(ms - grid.offset, msPerQuarter(grid.bpm) / stepsPerBeat);
+}
+
+// Later by `deltaMs` and higher by `deltaSteps` of the tuning. Notes that
+// aren't in the tuning keep their pitch.
+export function moveNotes(recording: RecordedNote[], indices: number[], deltaMs: number, deltaSteps: number, tuning = DEFAULT_TUNING): EditResult {
+    const moved = new Set(indices);
+    return {
+        recording: recording.map((n, i) => {
+            if (!moved.has(i)) return n;
+            const step = noteStep(n.note, tuning);
+            const note = step === null || deltaSteps === 0 ? n.note : stepName(step + deltaSteps, tuning) || n.note;
+            return { ...n, note, startTime: Math.max(0, n.startTime + deltaMs) };
+        }),
+        selection: indices,
+    };
+}
+
+// Ends moved by `deltaMs`, starts stay put
+export function resizeNotes(recording: RecordedNote[], indices: number[], deltaMs: number): EditResult {
+    const resized = new Set(indices);
+    return {
+        recording: recording.map((n, i) => resized.has(i)
+            ? { ...n, duration: Math.max(MIN_EDITED_DURATION, n.duration + deltaMs) }
+            : n),
+        selection: indices,
+    };
+}
+
+// Two notes either side of `atMs`, unchanged when that isn't well inside
+// the note. The pitch bend is divided between them, the glide in stays
+// with the first.
+export function splitNote(recording: RecordedNote[], index: number, atMs: number): EditResult {
+    const note = recording[index];
+    if (!note) return { recording, selection: [] };
+    const offset = atMs - note.startTime;
+    if (offset < MIN_EDITED_DURATION || note.duration - offset < MIN_EDITED_DURATION) return { recording, selection: [index] };
+
+    const first: RecordedNote = { ...note, duration: offset };
+    const second: RecordedNote = { ...note, startTime: atMs, duration: note.duration - offset };
+    delete second.portamento;
+    if (note.pitchBend) {
+        first.pitchBend = note.pitchBend.filter(p => p.time < offset);
+        second.pitchBend = [
+            { time: 0, cents: bendAt(note.pitchBend, offset) },
+            ...note.pitchBend.filter(p => p.time > offset).map(p => ({ ...p, time: p.time - offset })),
+        ];
+        if (first.pitchBend.length === 0) delete first.pitchBend;
+    }
+    return {
+        recording: [...recording.slice(0, index), first, second, ...recording.slice(index + 1)],
+        selection: [index, index + 1],
+    };
+}
+
+// One note from the start of the earliest to the end of the latest, at the
+// earliest one's pitch, in place of the first of them
+export function mergeNotes(recording: RecordedNote[], indices: number[]): EditResult {
+    const notes = indices.map(i => recording[i]).filter((n): n is RecordedNote => n !== undefined);
+    if (notes.length < 2) return { recording, selection: indices };
+
+    const earliest = notes.reduce((a, b) => b.startTime < a.startTime ? b : a);
+    const end = recordingEnd(notes);
+    const velocities = notes.map(n => n.velocity).filter((v): v is number => v !== undefined);
+    const merged: RecordedNote = { ...earliest, duration: end - earliest.startTime };
+    if (velocities.length > 0) merged.velocity = velocities.reduce((a, b) => Math.max(a, b));
+
+    const removed = new Set(indices);
+    const first = indices.reduce((a, b) => Math.min(a, b));
+    const result: RecordedNote[] = [];
+    recording.forEach((n, i) => {
+        if (i === first) result.push(merged);
+        else if (!removed.has(i)) result.push(n);
+    });
+    return { recording: result, selection: [first] };
+}
+
+export function deleteNotes(recording: RecordedNote[], indices: number[]): EditResult {
+    const removed = new Set(indices);
+    return { recording: recording.filter((_, i) => !removed.has(i)), selection: [] };
+}
+
+export function addNote(recording: RecordedNote[], note: RecordedNote): EditResult {
+    return { recording: [...recording, note], selection: [recording.length] };
+}
+
+// Undo and redo of edits, by keeping the whole recording from before each
+export class EditHistory {
+    private undoStack: RecordedNote[][] = [];
+    private redoStack: RecordedNote[][] = [];
+
+    // Call with the recording as it was before an edit
+    push(before: RecordedNote[]) {
+        this.undoStack.push(before);
+        if (this.undoStack.length > MAX_HISTORY) this.undoStack.shift();
+        this.redoStack = [];
+    }
+
+    // The recording before the last edit, null when there is nothing to undo
+    undo(current: RecordedNote[]): RecordedNote[] | null {
+        const previous = this.undoStack.pop();
+        if (!previous) return null;
+        this.redoStack.push(current);
+        return previous;
+    }
+
+    redo(current: RecordedNote[]): RecordedNote[] | null {
+        const next = this.redoStack.pop();
+        if (!next) return null;
+        this.undoStack.push(current);
+        return next;
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    clear() {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+}
@@ -1,19 +1,47 @@
 // Mostly from an LLM
 
-import { HISTORY_SIZE, NOTES_TO_SHOW } from "./Constants";
+import { HISTORY_SIZE } from "./Constants";
+import { HarmonyTracks } from "./Harmony";
+import { DetectedNote } from "./NoteDetector";
+import { contourSegments, PitchContour } from "./PitchContour";
+import { LoopRegion } from "./Player";
+import { BeatGrid, beatTimes } from "./Quantize";
+import { RecordedNote, recordingEnd } from "./Recorder";
+import { AnalysisSettings, DEFAULT_SETTINGS } from "./Settings";
+import { frequencyToMidi } from "./Tuning";
 
 export class NoteVisualizerController {
     private container: HTMLDivElement;
     private scrollContainer: HTMLDivElement;
-    private lanes: (string | null)[] = new Array(NOTES_TO_SHOW).fill(null);
+    private lanes: (string | null)[];
     private scrollPos: number = 0;
+    private showingRecording = false;
+    private pixelsPerMs = 0; // Scale of the recording view
+    private totalDuration = 0; // ms, of the recording view
+    private beatEls: HTMLDivElement[] = [];
+    private harmonyEls: HTMLDivElement[] = [];
+    private contourEl: SVGSVGElement | null = null;
+    private playheadEl: HTMLDivElement | null = null;
+    private loopEl: HTMLDivElement | null = null;
 
-    constructor(container: HTMLDivElement, scrollContainer: HTMLDivElement) {
+    constructor(container: HTMLDivElement, scrollContainer: HTMLDivElement, settings = DEFAULT_SETTINGS) {
         this.container = container;
         this.scrollContainer = scrollContainer;
+        this.lanes = new Array(settings.notesToShow).fill(null);
     }
 
-    update(confirmedNotes: Set<string>) {
+    // Notes in lanes that no longer exist are dropped, the rest keep theirs
+    setSettings(settings: AnalysisSettings) {
+        const lanes = this.lanes.slice(0, settings.notesToShow);
+        while (lanes.length < settings.notesToShow) lanes.push(null);
+        this.lanes = lanes;
+    }
+
+    update(detectedNotes: DetectedNote[]) {
+        // A static recording is on display, leave it alone
+        if (this.showingRecording) return;
+
+        const confirmedNotes = new Set(detectedNotes.map(d => d.note));
         const containerWidth = this.container.clientWidth;
         const stepPixels = containerWidth / HISTORY_SIZE;
 
@@ -36,7 +64,7 @@ export class NoteVisualizerController {
         const matchedNotes = new Set<string>();
 
         // 1. Keep existing notes in their lanes
-        for (let i = 0; i < NOTES_TO_SHOW; i++) {
+        for (let i = 0; i < this.lanes.length; i++) {
             const laneNote = this.lanes[i];
             if (laneNote && confirmedNotes.has(laneNote)) {
                 matchedNotes.add(laneNote);
@@ -75,7 +103,209 @@ export class NoteVisualizerController {
         this.scrollContainer.appendChild(el);
     }
 
+    // Replaces the scrolling live view with the whole recording fitted to the
+    // container width, until clear() is called
+    showRecording(recording: RecordedNote[]) {
+        this.clear();
+        this.showingRecording = true;
+
+        const containerWidth = this.container.clientWidth;
+        const containerHeight = this.container.clientHeight;
+        const totalDuration = Math.max(1, recordingEnd(recording));
+        const pixelsPerMs = containerWidth / totalDuration;
+        this.pixelsPerMs = pixelsPerMs;
+        this.totalDuration = totalDuration;
+
+        // Same lane idea as the live view: each note takes the first lane
+        // that is free when it starts
+        const sorted = [...recording].sort((a, b) => a.startTime - b.startTime);
+        const laneEndTimes: number[] = [];
+        const laneIndices = sorted.map(n => {
+            let lane = laneEndTimes.findIndex(end => end <= n.startTime);
+            if (lane === -1) lane = laneEndTimes.length;
+            laneEndTimes[lane] = n.startTime + n.duration;
+            return lane;
+        });
+        const laneHeight = Math.min(25, containerHeight / Math.max(1, laneEndTimes.length));
+
+        sorted.forEach((n, i) => {
+            const el = document.createElement('div');
+            el.textContent = n.note;
+            el.className = 'note-label';
+            el.title = `${n.note} at ${(n.startTime / 1000).toFixed(2)}s for ${Math.round(n.duration)}ms`
+                + (n.portamento ? `, ${Math.round(n.portamento)}ms glide in` : '')
+                + (n.vibrato ? `, vibrato ${n.vibrato.rate.toFixed(1)}Hz ±${Math.round(n.vibrato.depth)}¢` : '');
+            el.style.position = 'absolute';
+            el.style.left = `${n.startTime * pixelsPerMs}px`;
+            el.style.top = `${laneIndices[i]! * laneHeight}px`;
+            el.style.width = `${Math.max(1, n.duration * pixelsPerMs)}px`;
+            el.style.height = `${laneHeight - 2}px`;
+            el.style.overflow = 'hidden';
+            el.style.background = 'rgba(100, 108, 255, 0.6)';
+            el.style.color = 'white';
+            el.style.fontFamily = 'monospace';
+            el.style.fontSize = '12px';
+            el.style.fontWeight = 'bold';
+            el.style.whiteSpace = 'nowrap';
+            this.scrollContainer.appendChild(el);
+        });
+
+        this.loopEl = document.createElement('div');
+        this.loopEl.style.position = 'absolute';
+        this.loopEl.style.top = '0';
+        this.loopEl.style.height = '100%';
+        this.loopEl.style.background = 'rgba(255, 255, 255, 0.15)';
+        this.loopEl.style.borderLeft = '1px solid rgba(255, 255, 255, 0.5)';
+        this.loopEl.style.borderRight = '1px solid rgba(255, 255, 255, 0.5)';
+        this.loopEl.style.pointerEvents = 'none';
+        this.loopEl.style.display = 'none';
+        this.scrollContainer.appendChild(this.loopEl);
+
+        this.playheadEl = document.createElement('div');
+        this.playheadEl.style.position = 'absolute';
+        this.playheadEl.style.top = '0';
+        this.playheadEl.style.width = '2px';
+        this.playheadEl.style.height = '100%';
+        this.playheadEl.style.background = '#ff5050';
+        this.playheadEl.style.pointerEvents = 'none';
+        this.playheadEl.style.display = 'none';
+        this.scrollContainer.appendChild(this.playheadEl);
+    }
+
+    // Beat lines behind the notes of the recording view, null removes them
+    setBeatGrid(grid: BeatGrid | null) {
+        this.beatEls.forEach(el => el.remove());
+        this.beatEls = [];
+        if (!this.showingRecording || !grid) return;
+
+        const firstChild = this.scrollContainer.firstChild;
+        for (const time of beatTimes(grid, 0, this.totalDuration)) {
+            const el = document.createElement('div');
+            el.style.position = 'absolute';
+            el.style.left = `${time * this.pixelsPerMs}px`;
+            el.style.top = '0';
+            el.style.width = '1px';
+            el.style.height = '100%';
+            el.style.background = 'rgba(255, 255, 255, 0.2)';
+            el.style.pointerEvents = 'none';
+            this.scrollContainer.insertBefore(el, firstChild);
+            this.beatEls.push(el);
+        }
+    }
+
+    // Strips along the bottom of the recording view, chords lowest with the
+    // key above, null removes them
+    setHarmonyTracks(tracks: HarmonyTracks | null) {
+        this.harmonyEls.forEach(el => el.remove());
+        this.harmonyEls = [];
+        if (!this.showingRecording || !tracks) return;
+
+        const stripHeight = 16;
+        const addSegment = (label: string, title: string, startTime: number, duration: number, bottom: number, background: string) => {
+            const el = document.createElement('div');
+            el.textContent = label;
+            el.title = title;
+            el.style.position = 'absolute';
+            el.style.left = `${startTime * this.pixelsPerMs}px`;
+            el.style.bottom = `${bottom}px`;
+            el.style.width = `${Math.max(1, duration * this.pixelsPerMs - 1)}px`;
+            el.style.height = `${stripHeight - 2}px`;
+            el.style.overflow = 'hidden';
+            el.style.background = background;
+            el.style.color = 'white';
+            el.style.fontFamily = 'monospace';
+            el.style.fontSize = '11px';
+            el.style.whiteSpace = 'nowrap';
+            this.scrollContainer.appendChild(el);
+            this.harmonyEls.push(el);
+        };
+
+        for (const c of tracks.chords) {
+            const title = `${c.name} at ${(c.startTime / 1000).toFixed(2)}s, ${Math.round(c.confidence * 100)}% match`;
+            addSegment(c.name, title, c.startTime, c.duration, 0, 'rgba(60, 160, 90, 0.7)');
+        }
+        for (const k of tracks.keys) {
+            const label = `${k.name} ${k.mode}`;
+            addSegment(label, `Key ${label} from ${(k.startTime / 1000).toFixed(2)}s`, k.startTime, k.duration, stripHeight, 'rgba(170, 110, 40, 0.7)');
+        }
+    }
+
+    // Line through the pitch of every voiced frame over the recording view,
+    // scaled to fill the height, null removes it
+    setPitchContour(contour: PitchContour | null) {
+        this.contourEl?.remove();
+        this.contourEl = null;
+        if (!this.showingRecording || !contour || contour.length === 0) return;
+
+        const width = this.container.clientWidth;
+        const height = this.container.clientHeight;
+        const midis = contour.map(p => frequencyToMidi(p.frequency));
+        const low = midis.reduce((a, b) => Math.min(a, b)) - 1;
+        const high = midis.reduce((a, b) => Math.max(a, b)) + 1;
+        const svgNs = 'http://www.w3.org/2000/svg';
+
+        const svg = document.createElementNS(svgNs, 'svg');
+        svg.setAttribute('width', `${width}`);
+        svg.setAttribute('height', `${height}`);
+        svg.style.position = 'absolute';
+        svg.style.left = '0';
+        svg.style.top = '0';
+        svg.style.pointerEvents = 'none';
+
+        for (const segment of contourSegments(contour)) {
+            const line = document.createElementNS(svgNs, 'polyline');
+            line.setAttribute('points', segment.map(p => {
+                const midi = frequencyToMidi(p.frequency);
+                return `${p.time * this.pixelsPerMs},${height * (high - midi) / (high - low)}`;
+            }).join(' '));
+            line.setAttribute('fill', 'none');
+            line.setAttribute('stroke', 'rgba(255, 220, 80, 0.9)');
+            line.setAttribute('stroke-width', '1.5');
+            svg.appendChild(line);
+        }
+        this.scrollContainer.appendChild(svg);
+        this.contourEl = svg;
+    }
+
+    // Only shown over a recording, null hides it
+    setPlayhead(positionMs: number | null) {
+        if (!this.playheadEl) return;
+        if (positionMs === null) {
+            this.playheadEl.style.display = 'none';
+            return;
+        }
+        this.playheadEl.style.display = 'block';
+        this.playheadEl.style.left = `${positionMs * this.pixelsPerMs - 1}px`;
+    }
+
+    setLoopRegion(loop: LoopRegion | null) {
+        if (!this.loopEl) return;
+        if (!loop) {
+            this.loopEl.style.display = 'none';
+            return;
+        }
+        const start = Math.min(loop.start, loop.end);
+        const end = Math.max(loop.start, loop.end);
+        this.loopEl.style.display = 'block';
+        this.loopEl.style.left = `${start * this.pixelsPerMs}px`;
+        this.loopEl.style.width = `${(end - start) * this.pixelsPerMs}px`;
+    }
+
+    // Time in the displayed recording under a mouse position, null when the
+    // live view is showing
+    positionFromClientX(clientX: number): number | null {
+        if (!this.showingRecording || this.pixelsPerMs <= 0) return null;
+        const rect = this.container.getBoundingClientRect();
+        return Math.max(0, (clientX - rect.left) / this.pixelsPerMs);
+    }
+
     clear() {
+        this.showingRecording = false;
+        this.playheadEl = null;
+        this.loopEl = null;
+        this.beatEls = [];
+        this.harmonyEls = [];
+        this.contourEl = null;
         this.scrollContainer.innerHTML = '';
         this.scrollPos = 0;
         this.lanes.fill(null);
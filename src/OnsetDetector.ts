@@ -0,0 +1,81 @@
+const SEMITONE = Math.pow(2, 1 / 12);
+const DEFAULT_ONSET_LAG = 3; // Frames
+
+// Spectral flux onset detection. Each frame's spectrum is compared with the
+// one `lag` frames earlier and the rise in energy around a note's frequency
+// is that note's onset strength, so a re-articulated note shows up as a jump
+// even when it never drops below the detection threshold in between. More
+// than one frame of lag is needed as a long FFT window only takes in an
+// attack gradually over several hops.
+export class OnsetDetector {
+    private history: Float32Array[] = []; // Linear magnitudes, oldest first
+    private lag: number;
+
+    constructor(lag = DEFAULT_ONSET_LAG) {
+        this.lag = lag;
+    }
+
+    // `floatFrequencyData` is in decibels as from
+    // AnalyserNode.getFloatFrequencyData
+    process(floatFrequencyData: Float32Array) {
+        if (this.history[0]?.length !== floatFrequencyData.length) this.history = [];
+
+        // Reuse the oldest array once the history is full
+        const magnitudes = this.history.length > this.lag
+            ? this.history.shift()!
+            : new Float32Array(floatFrequencyData.length);
+        for (let i = 0; i < floatFrequencyData.length; i++) {
+            // -Infinity dB (silence) becomes 0
+            magnitudes[i] = Math.pow(10, floatFrequencyData[i]! / 20);
+        }
+        this.history.push(magnitudes);
+    }
+
+    // 0 when the energy within a semitone of `frequency` is steady or
+    // falling, up to 1 when it rose from silence
+    strengthAt(frequency: number, sampleRate: number): number {
+        const current = this.history[this.history.length - 1];
+        const previous = this.history[0];
+        if (!current || !previous || current === previous) return 0;
+
+        const binWidth = sampleRate / (2 * current.length);
+        const centre = Math.round(frequency / binWidth);
+        const low = Math.max(0, Math.min(centre - 1, Math.floor(frequency / SEMITONE / binWidth)));
+        const high = Math.min(current.length - 1, Math.max(centre + 1, Math.ceil(frequency * SEMITONE / binWidth)));
+
+        let energy = 0;
+        let previousEnergy = 0;
+        for (let i = low; i <= high; i++) {
+            energy += current[i]!;
+            previousEnergy += previous[i]!;
+        }
+        if (energy <= 0) return 0;
+        return Math.max(0, (energy - previousEnergy) / energy);
+    }
+
+    // Same idea over the whole spectrum, but rising bins are summed on their
+    // own so a new note counts even while another fades. This is the onset
+    // stream the BeatTracker follows.
+    overallStrength(): number {
+        const current = this.history[this.history.length - 1];
+        const previous = this.history[this.history.length - 2];
+        if (!current || !previous || current === previous) return 0;
+
+        let energy = 0;
+        let previousEnergy = 0;
+        let flux = 0;
+        for (let i = 0; i < current.length; i++) {
+            energy += current[i]!;
+            previousEnergy += previous[i]!;
+            flux += Math.max(0, current[i]! - previous[i]!);
+        }
+        // Relative to the louder of the two so the spectral splatter of a
+        // note being cut off is not mistaken for an onset
+        const reference = Math.max(energy, previousEnergy);
+        return reference > 0 ? flux / reference : 0;
+    }
+
+    reset() {
+        this.history = [];
+    }
+}
@@ -0,0 +1,368 @@
+import { useEffect, useRef, useState } from "preact/hooks";
+
+import { addNote, deleteNotes, EditResult, mergeNotes, MIN_EDITED_DURATION, moveNotes, resizeNotes, snapTime, splitNote } from "./NoteEditing";
+import { Player } from "./Player";
+import { BeatGrid, beatTimes, msPerQuarter, SUBDIVISIONS } from "./Quantize";
+import { RecordedNote, recordingEnd } from "./Recorder";
+import { noteStep, stepName, Tuning } from "./Tuning";
+
+interface PianoRollProps {
+    recording: RecordedNote[];
+    tuning: Tuning; // Rows are the notes of the tuning
+    beatGrid: BeatGrid | null; // Snapped to
+    player: Player; // Followed by the playhead
+    canUndo: boolean;
+    canRedo: boolean;
+    onChange: (recording: RecordedNote[]) => void;
+    onUndo: () => void;
+    onRedo: () => void;
+}
+
+type Tool = 'select' | 'draw' | 'split';
+
+// In progress with the pointer down, positions are pixels in the roll
+type Drag =
+    | { kind: 'move', anchor: number, indices: number[], startX: number, startY: number, deltaMs: number, deltaSteps: number }
+    | { kind: 'resize', anchor: number, indices: number[], startX: number, deltaMs: number }
+    | { kind: 'draw', step: number, start: number, end: number }
+    | { kind: 'select', additive: boolean, startX: number, startY: number, x: number, y: number };
+
+const ROW_HEIGHT = 12; // px
+const LABEL_WIDTH = 48; // px
+const MAX_HEIGHT = 360; // px, scrolls beyond
+const RESIZE_HANDLE = 6; // px at the end of a note that resizes it
+const ROW_PADDING = 4; // Empty rows above and below the notes
+const MIN_ROWS = 24;
+const END_PADDING = 2000; // ms after the last note, room to draw more
+const ZOOMS = [50, 100, 200, 400]; // px per second
+const DEFAULT_ZOOM = 100;
+const DRAW_DURATION = 250; // ms, of a clicked note without a grid
+const DRAW_VELOCITY = 100;
+
+function isNatural(name: string): boolean {
+    return /^[A-G]-?\d+$/.test(name);
+}
+
+export const PianoRoll = ({ recording, tuning, beatGrid, player, canUndo, canRedo, onChange, onUndo, onRedo }: PianoRollProps) => {
+    const [tool, setTool] = useState<Tool>('select');
+    const [stepsPerBeat, setStepsPerBeat] = useState(4); // Of the grid snapped to, 0 = off
+    const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+    const [selection, setSelection] = useState<number[]>([]);
+    const [drag, setDrag] = useState<Drag | null>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const playheadRef = useRef<SVGLineElement>(null);
+    const lastEditRef = useRef<RecordedNote[] | null>(null);
+
+    // Indices don't survive a recording changed from outside, e.g. undo
+    useEffect(() => {
+        if (recording !== lastEditRef.current) setSelection([]);
+    }, [recording]);
+
+    const pixelsPerMs = zoom / 1000;
+    const grid = stepsPerBeat > 0 ? beatGrid : null;
+    const snap = (ms: number) => snapTime(ms, grid, stepsPerBeat);
+    const gridStep = grid ? msPerQuarter(grid.bpm) / stepsPerBeat : DRAW_DURATION;
+
+    // Rows cover the notes as they were before the current drag, so they
+    // don't shift under the pointer
+    const steps = recording.map(n => noteStep(n.note, tuning));
+    const known = steps.filter((s): s is number => s !== null);
+    const middle = noteStep('C4', tuning) ?? 60;
+    let lowStep = known.length > 0 ? known.reduce((a, b) => Math.min(a, b)) - ROW_PADDING : middle - MIN_ROWS / 2;
+    let highStep = known.length > 0 ? known.reduce((a, b) => Math.max(a, b)) + ROW_PADDING : middle + MIN_ROWS / 2;
+    if (highStep - lowStep + 1 < MIN_ROWS) {
+        const extra = MIN_ROWS - (highStep - lowStep + 1);
+        lowStep -= Math.floor(extra / 2);
+        highStep += Math.ceil(extra / 2);
+    }
+    const rows = Array.from({ length: highStep - lowStep + 1 }, (_, i) => highStep - i);
+    const rowNames = rows.map(step => stepName(step, tuning));
+
+    const totalMs = recordingEnd(recording) + END_PADDING;
+    const width = totalMs * pixelsPerMs;
+    const height = rows.length * ROW_HEIGHT;
+
+    // The notes as they'll be if the drag ends here
+    let display = recording;
+    if (drag?.kind === 'move') display = moveNotes(recording, drag.indices, drag.deltaMs, drag.deltaSteps, tuning).recording;
+    else if (drag?.kind === 'resize') display = resizeNotes(recording, drag.indices, drag.deltaMs).recording;
+    const displaySteps = display === recording ? steps : display.map(n => noteStep(n.note, tuning));
+    const selected = new Set(selection);
+
+    // Drawn directly rather than through state, it moves every frame
+    useEffect(() => {
+        let animationId: number;
+        const draw = () => {
+            animationId = requestAnimationFrame(draw);
+            if (!playheadRef.current) return;
+            const state = player.getState();
+            const x = state.position * pixelsPerMs;
+            playheadRef.current.setAttribute('x1', `${x}`);
+            playheadRef.current.setAttribute('x2', `${x}`);
+            playheadRef.current.style.display = state.status === 'stopped' ? 'none' : '';
+        };
+        animationId = requestAnimationFrame(draw);
+        return () => cancelAnimationFrame(animationId);
+    }, [player, pixelsPerMs]);
+
+    const commit = (result: EditResult) => {
+        if (result.recording === recording) return;
+        lastEditRef.current = result.recording;
+        setSelection(result.selection);
+        onChange(result.recording);
+    };
+
+    const pointerPosition = (e: PointerEvent) => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const stepAt = (y: number) => highStep - Math.floor(y / ROW_HEIGHT);
+
+    // The note under a point, the one drawn on top when they overlap
+    const noteAt = (x: number, y: number): number | null => {
+        const step = stepAt(y);
+        const ms = x / pixelsPerMs;
+        for (let i = recording.length - 1; i >= 0; i--) {
+            const n = recording[i]!;
+            if (steps[i] === step && ms >= n.startTime && ms <= n.startTime + Math.max(n.duration, 2 / pixelsPerMs)) return i;
+        }
+        return null;
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+        if (e.button !== 0) return;
+        svgRef.current!.setPointerCapture(e.pointerId);
+        const { x, y } = pointerPosition(e);
+        const hit = noteAt(x, y);
+
+        if (tool === 'split') {
+            if (hit !== null) commit(splitNote(recording, hit, snap(x / pixelsPerMs)));
+            return;
+        }
+        if (hit === null) {
+            if (tool === 'draw') {
+                const start = Math.max(0, snap(x / pixelsPerMs));
+                setDrag({ kind: 'draw', step: stepAt(y), start, end: start + gridStep });
+            } else {
+                const additive = e.shiftKey || e.ctrlKey || e.metaKey;
+                if (!additive) setSelection([]);
+                setDrag({ kind: 'select', additive, startX: x, startY: y, x, y });
+            }
+            return;
+        }
+
+        let indices = selection;
+        if (e.shiftKey || e.ctrlKey || e.metaKey) {
+            indices = selected.has(hit) ? selection.filter(i => i !== hit) : [...selection, hit];
+            setSelection(indices);
+            if (!indices.includes(hit)) return;
+        } else if (!selected.has(hit)) {
+            indices = [hit];
+            setSelection(indices);
+        }
+        const note = recording[hit]!;
+        const right = (note.startTime + note.duration) * pixelsPerMs;
+        if (x >= right - RESIZE_HANDLE) setDrag({ kind: 'resize', anchor: hit, indices, startX: x, deltaMs: 0 });
+        else setDrag({ kind: 'move', anchor: hit, indices, startX: x, startY: y, deltaMs: 0, deltaSteps: 0 });
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+        if (!drag) return;
+        const { x, y } = pointerPosition(e);
+        switch (drag.kind) {
+            case 'move': {
+                // The note dragged lands on the grid, the others keep their
+                // distance from it. None can go before the start.
+                const anchorStart = recording[drag.anchor]!.startTime;
+                const earliest = drag.indices.reduce((t, i) => Math.min(t, recording[i]!.startTime), Infinity);
+                const deltaMs = Math.max(-earliest, snap(anchorStart + (x - drag.startX) / pixelsPerMs) - anchorStart);
+                const deltaSteps = stepAt(y) - stepAt(drag.startY);
+                setDrag({ ...drag, deltaMs, deltaSteps });
+                break;
+            }
+            case 'resize': {
+                const anchor = recording[drag.anchor]!;
+                const anchorEnd = anchor.startTime + anchor.duration;
+                setDrag({ ...drag, deltaMs: snap(anchorEnd + (x - drag.startX) / pixelsPerMs) - anchorEnd });
+                break;
+            }
+            case 'draw':
+                setDrag({ ...drag, end: Math.max(drag.start + MIN_EDITED_DURATION, snap(x / pixelsPerMs)) });
+                break;
+            case 'select':
+                setDrag({ ...drag, x, y });
+                break;
+        }
+    };
+
+    const handlePointerUp = () => {
+        if (!drag) return;
+        setDrag(null);
+        switch (drag.kind) {
+            case 'move':
+                if (drag.deltaMs !== 0 || drag.deltaSteps !== 0) commit(moveNotes(recording, drag.indices, drag.deltaMs, drag.deltaSteps, tuning));
+                break;
+            case 'resize':
+                if (drag.deltaMs !== 0) commit(resizeNotes(recording, drag.indices, drag.deltaMs));
+                break;
+            case 'draw': {
+                const note = stepName(drag.step, tuning);
+                if (note) commit(addNote(recording, { note, startTime: drag.start, duration: drag.end - drag.start, velocity: DRAW_VELOCITY }));
+                break;
+            }
+            case 'select': {
+                const left = Math.min(drag.startX, drag.x) / pixelsPerMs;
+                const right = Math.max(drag.startX, drag.x) / pixelsPerMs;
+                const top = stepAt(Math.min(drag.startY, drag.y));
+                const bottom = stepAt(Math.max(drag.startY, drag.y));
+                const inside = recording.flatMap((n, i) => {
+                    const step = steps[i];
+                    const overlaps = step !== null && step !== undefined && step <= top && step >= bottom
+                        && n.startTime <= right && n.startTime + n.duration >= left;
+                    return overlaps ? [i] : [];
+                });
+                setSelection(drag.additive ? [...new Set([...selection, ...inside])] : inside);
+                break;
+            }
+        }
+    };
+
+    const handleDelete = () => {
+        if (selection.length > 0) commit(deleteNotes(recording, selection));
+    };
+
+    const handleMerge = () => {
+        if (selection.length > 1) commit(mergeNotes(recording, selection));
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+        const command = e.ctrlKey || e.metaKey;
+        const key = e.key.toLowerCase();
+        if (e.key === 'Delete' || e.key === 'Backspace') handleDelete();
+        else if (command && key === 'z' && !e.shiftKey) onUndo();
+        else if (command && (key === 'y' || (key === 'z' && e.shiftKey))) onRedo();
+        else if (command && key === 'a') setSelection(recording.map((_, i) => i));
+        else if (e.key === 'Escape') setSelection([]);
+        else return;
+        e.preventDefault();
+    };
+
+    const beats = beatGrid ? beatTimes(beatGrid, 0, totalMs) : [];
+
+    return (
+        <div className="piano-roll" style={{ display: 'flex', flexDirection: 'column', gap: '6px', padding: '10px 0' }}>
+            <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px' }}>
+                <select value={tool} onChange={e => setTool(e.currentTarget.value as Tool)} title="What a click on the roll does">
+                    <option value="select">Select / Move</option>
+                    <option value="draw">Draw</option>
+                    <option value="split">Split</option>
+                </select>
+                <select
+                    value={stepsPerBeat}
+                    onChange={e => setStepsPerBeat(parseInt(e.currentTarget.value, 10))}
+                    disabled={!beatGrid}
+                    title={beatGrid ? "Grid notes snap to" : "Set the grid BPM to snap to it"}
+                >
+                    <option value={0}>No snap</option>
+                    {SUBDIVISIONS.map(s => <option key={s.stepsPerBeat} value={s.stepsPerBeat}>Snap {s.label}</option>)}
+                </select>
+                <select value={zoom} onChange={e => setZoom(parseInt(e.currentTarget.value, 10))} title="Horizontal zoom">
+                    {ZOOMS.map(z => <option key={z} value={z}>{z} px/s</option>)}
+                </select>
+                <button onClick={handleMerge} disabled={selection.length < 2} style={{ padding: '5px 10px' }} title="One note from the selected ones">
+                    Merge
+                </button>
+                <button onClick={handleDelete} disabled={selection.length === 0} style={{ padding: '5px 10px' }}>
+                    Delete
+                </button>
+                <button onClick={onUndo} disabled={!canUndo} style={{ padding: '5px 10px' }} title="Ctrl+Z">
+                    Undo
+                </button>
+                <button onClick={onRedo} disabled={!canRedo} style={{ padding: '5px 10px' }} title="Ctrl+Shift+Z">
+                    Redo
+                </button>
+                <span style={{ color: '#888' }}>
+                    {selection.length > 0 ? `${selection.length} selected` : 'Shift+click or drag a box to select several, drag a note\'s end to resize'}
+                </span>
+            </div>
+            <div
+                tabIndex={0}
+                onKeyDown={handleKeyDown}
+                style={{ display: 'flex', maxHeight: `${MAX_HEIGHT}px`, overflowY: 'auto', background: '#1a1a1a', outline: 'none' }}
+            >
+                <svg width={LABEL_WIDTH} height={height} style={{ flex: 'none', display: 'block' }}>
+                    {rows.map((step, row) => (
+                        <g key={step}>
+                            <rect y={row * ROW_HEIGHT} width={LABEL_WIDTH} height={ROW_HEIGHT} fill={isNatural(rowNames[row]!) ? '#ddd' : '#333'} />
+                            <text
+                                x={4}
+                                y={(row + 1) * ROW_HEIGHT - 2}
+                                fontSize={9}
+                                fontFamily="monospace"
+                                fill={isNatural(rowNames[row]!) ? '#000' : '#ddd'}
+                            >
+                                {rowNames[row]}
+                            </text>
+                        </g>
+                    ))}
+                </svg>
+                <div style={{ overflowX: 'auto', flex: 1 }}>
+                    <svg
+                        ref={svgRef}
+                        width={width}
+                        height={height}
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        style={{ display: 'block', cursor: tool === 'select' ? 'default' : 'crosshair', touchAction: 'none' }}
+                    >
+                        {rows.map((step, row) => (
+                            <rect key={step} y={row * ROW_HEIGHT} width={width} height={ROW_HEIGHT} fill={isNatural(rowNames[row]!) ? '#262626' : '#1c1c1c'} />
+                        ))}
+                        {beats.map(t => (
+                            <line key={t} x1={t * pixelsPerMs} x2={t * pixelsPerMs} y1={0} y2={height} stroke="#3a3a3a" />
+                        ))}
+                        {display.map((n, i) => {
+                            const step = displaySteps[i];
+                            if (step === null || step === undefined) return null;
+                            return (
+                                <rect
+                                    key={i}
+                                    x={n.startTime * pixelsPerMs}
+                                    y={(highStep - step) * ROW_HEIGHT + 1}
+                                    width={Math.max(2, n.duration * pixelsPerMs)}
+                                    height={ROW_HEIGHT - 2}
+                                    fill={selected.has(i) ? 'orange' : 'rgba(100, 108, 255, 0.8)'}
+                                    stroke={selected.has(i) ? 'white' : 'none'}
+                                >
+                                    <title>{`${n.note} at ${(n.startTime / 1000).toFixed(2)}s for ${Math.round(n.duration)}ms`}</title>
+                                </rect>
+                            );
+                        })}
+                        {drag?.kind === 'draw' && (
+                            <rect
+                                x={drag.start * pixelsPerMs}
+                                y={(highStep - drag.step) * ROW_HEIGHT + 1}
+                                width={(drag.end - drag.start) * pixelsPerMs}
+                                height={ROW_HEIGHT - 2}
+                                fill="rgba(255, 165, 0, 0.6)"
+                            />
+                        )}
+                        {drag?.kind === 'select' && (
+                            <rect
+                                x={Math.min(drag.startX, drag.x)}
+                                y={Math.min(drag.startY, drag.y)}
+                                width={Math.abs(drag.x - drag.startX)}
+                                height={Math.abs(drag.y - drag.startY)}
+                                fill="rgba(255, 255, 255, 0.1)"
+                                stroke="rgba(255, 255, 255, 0.5)"
+                            />
+                        )}
+                        <line ref={playheadRef} y1={0} y2={height} stroke="#ff5050" strokeWidth={2} style={{ display: 'none', pointerEvents: 'none' }} />
+                    </svg>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,319 @@
+import { PITCH_CONFIDENCE_THRESHOLD } from "./Constants";
+import { PitchEstimate } from "./PitchTracker";
+import { PitchBendPoint, RecordedNote, Vibrato } from "./Recorder";
+import { DEFAULT_TUNING, frequencyToMidi, nearestNote, notePitch, Tuning } from "./Tuning";
+
+// The pitch tracker's estimate on every frame, kept unrounded alongside the
+// notes so slides and vibrato survive the rounding to semitones
+
+export interface PitchPoint {
+    time: number; // ms from start of recording
+    frequency: number; // Hz
+    cents: number; // Deviation from the nearest note of the tuning it was recorded in
+}
+
+// Voiced frames only, in time order
+export type PitchContour = PitchPoint[];
+
+const MAX_CONTOUR_GAP = 60; // ms, longer gaps are silence or unpitched sound
+const MAX_PITCH_SLEW = 0.1; // Semitones per ms, faster changes are a new note rather than a slide
+const MAX_TRANSITION_NOTE = 300; // ms, notes a glide only passes through are shorter than this
+const MIN_TRANSITION_TRAVEL = 0.5; // Semitones the pitch moves across a note passed through
+const NOTE_EDGE = 20; // ms at each end of a note averaged for its entry and exit pitch
+const MIN_BEND = 10; // cents, notes that stay closer to their pitch keep no pitch bend
+const VIBRATO_STEP = 10; // ms, the contour is resampled to this for vibrato detection
+const MIN_VIBRATO_DURATION = 300; // ms, about two cycles at the slowest rate
+const MIN_VIBRATO_RATE = 3; // Hz
+const MAX_VIBRATO_RATE = 9; // Hz
+const MIN_VIBRATO_DEPTH = 8; // cents
+const MIN_VIBRATO_CORRELATION = 0.5;
+
+export class PitchContourRecorder {
+    private startTime = 0;
+    private points: PitchPoint[] = [];
+    private tuning = DEFAULT_TUNING;
+
+    start(nowMs: number) {
+        this.startTime = nowMs;
+        this.points = [];
+    }
+
+    // Only confident estimates are kept, the rest are gaps
+    update(pitch: PitchEstimate | null, nowMs: number) {
+        if (!pitch || pitch.confidence < PITCH_CONFIDENCE_THRESHOLD) return;
+        this.points.push({
+            time: nowMs - this.startTime,
+            frequency: pitch.frequency,
+            cents: nearestNote(pitch.frequency, this.tuning)?.cents ?? 0,
+        });
+    }
+
+    setTuning(tuning: Tuning) {
+        this.tuning = tuning;
+    }
+
+    getContour(): PitchContour {
+        return [...this.points];
+    }
+}
+
+// Runs of the contour with no gap or jump, each one a phrase sung or played
+// without a break
+export function contourSegments(contour: PitchContour): PitchPoint[][] {
+    const segments: PitchPoint[][] = [];
+    let current: PitchPoint[] = [];
+    for (const point of contour) {
+        const last = current[current.length - 1];
+        if (last) {
+            const elapsed = point.time - last.time;
+            const jump = Math.abs(frequencyToMidi(point.frequency) - frequencyToMidi(last.frequency));
+            if (elapsed > MAX_CONTOUR_GAP || jump > MAX_PITCH_SLEW * Math.max(elapsed, 1)) {
+                segments.push(current);
+                current = [];
+            }
+        }
+        current.push(point);
+    }
+    if (current.length > 0) segments.push(current);
+    return segments;
+}
+
+// Rejoins the notes a glide was chopped into and gives every note the pitch
+// contour through it. Short notes the pitch only passes through become the
+// portamento into the next held note, or the fall off the end of the last.
+// Pitch bend is relative to where each note is in `tuning`.
+export function applyPitchContour(recording: RecordedNote[], contour: PitchContour, tuning = DEFAULT_TUNING): RecordedNote[] {
+    const segments = contourSegments(contour);
+    const bySegment = new Map<PitchPoint[], RecordedNote[]>();
+    const result: RecordedNote[] = [];
+
+    for (const note of recording) {
+        const segment = segmentFor(note, segments);
+        if (!segment) {
+            result.push(note);
+            continue;
+        }
+        const notes = bySegment.get(segment) ?? [];
+        notes.push(note);
+        bySegment.set(segment, notes);
+    }
+
+    for (const [segment, notes] of bySegment) {
+        notes.sort((a, b) => a.startTime - b.startTime);
+        // Chords did not come from the pitch tracker, only add the contour
+        const overlapping = notes.some((n, i) => i > 0 && n.startTime < notes[i - 1]!.startTime + notes[i - 1]!.duration - NOTE_EDGE);
+        const merged = overlapping ? notes : mergeTransitions(notes, segment, tuning);
+        result.push(...merged.map(n => withPitchBend(n, segment, tuning)));
+    }
+
+    return result.sort((a, b) => a.startTime - b.startTime);
+}
+
+// Rate and depth of a regular oscillation in the pitch bend, null when
+// there is none
+export function detectVibrato(bend: PitchBendPoint[]): Vibrato | null {
+    const first = bend[0];
+    const last = bend[bend.length - 1];
+    if (!first || !last || last.time - first.time < MIN_VIBRATO_DURATION) return null;
+
+    // Resample evenly then remove any overall drift
+    const samples: number[] = [];
+    let j = 0;
+    for (let t = first.time; t <= last.time; t += VIBRATO_STEP) {
+        while (bend[j + 1] && bend[j + 1]!.time < t) j++;
+        const a = bend[j]!;
+        const b = bend[j + 1] ?? a;
+        const fraction = b.time > a.time ? (t - a.time) / (b.time - a.time) : 0;
+        samples.push(a.cents + fraction * (b.cents - a.cents));
+    }
+    const x = detrend(samples);
+
+    const energy = x.reduce((sum, v) => sum + v * v, 0);
+    if (energy <= 0) return null;
+
+    const minLag = Math.floor(1000 / MAX_VIBRATO_RATE / VIBRATO_STEP);
+    const maxLag = Math.min(x.length - 2, Math.ceil(1000 / MIN_VIBRATO_RATE / VIBRATO_STEP));
+    const correlation = (lag: number) => {
+        let sum = 0;
+        for (let i = lag; i < x.length; i++) sum += x[i]! * x[i - lag]!;
+        // Normalised for the overlap so longer lags are not penalised
+        return sum / energy * x.length / (x.length - lag);
+    };
+
+    let bestLag = -1;
+    let best = MIN_VIBRATO_CORRELATION;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        const r = correlation(lag);
+        if (r > best && r >= correlation(lag - 1) && r >= correlation(lag + 1)) {
+            best = r;
+            bestLag = lag;
+        }
+    }
+    if (bestLag === -1) return null;
+
+    const prev = correlation(bestLag - 1);
+    const next = correlation(bestLag + 1);
+    const denominator = prev - 2 * best + next;
+    const period = bestLag + (denominator < 0 ? 0.5 * (prev - next) / denominator : 0);
+
+    // A sine's peak is √2 times its RMS
+    const depth = Math.sqrt(2 * energy / x.length);
+    if (depth < MIN_VIBRATO_DEPTH) return null;
+    return { rate: 1000 / (period * VIBRATO_STEP), depth };
+}
+
+// Cents at `time` ms into a note, linear between points and held at the ends
+export function bendAt(bend: PitchBendPoint[], time: number): number {
+    if (bend.length === 0) return 0;
+    const next = bend.findIndex(p => p.time >= time);
+    if (next === -1) return bend[bend.length - 1]!.cents;
+    if (next === 0) return bend[0]!.cents;
+    const a = bend[next - 1]!;
+    const b = bend[next]!;
+    return a.cents + (b.cents - a.cents) * (time - a.time) / (b.time - a.time);
+}
+
+// The segment covering most of the note, if that is at least half of it
+function segmentFor(note: RecordedNote, segments: PitchPoint[][]): PitchPoint[] | null {
+    const end = note.startTime + note.duration;
+    let best: PitchPoint[] | null = null;
+    let bestOverlap = note.duration / 2;
+    for (const segment of segments) {
+        const from = Math.max(note.startTime, segment[0]!.time);
+        const to = Math.min(end, segment[segment.length - 1]!.time);
+        if (to - from >= bestOverlap) {
+            best = segment;
+            bestOverlap = to - from;
+        }
+    }
+    return best;
+}
+
+function pointsDuring(segment: PitchPoint[], from: number, to: number): PitchPoint[] {
+    return segment.filter(p => p.time >= from && p.time <= to);
+}
+
+function meanMidi(points: PitchPoint[], tuning: Tuning): number | null {
+    if (points.length === 0) return null;
+    return points.reduce((sum, p) => sum + frequencyToMidi(p.frequency, tuning), 0) / points.length;
+}
+
+// A short note whose pitch enters below it and leaves above, or the other
+// way round
+function isTransition(note: RecordedNote, segment: PitchPoint[], tuning: Tuning): boolean {
+    const midi = notePitch(note.note, tuning);
+    if (midi === null || note.duration >= MAX_TRANSITION_NOTE) return false;
+    const end = note.startTime + note.duration;
+    const entry = meanMidi(pointsDuring(segment, note.startTime, note.startTime + NOTE_EDGE), tuning);
+    const exit = meanMidi(pointsDuring(segment, end - NOTE_EDGE, end), tuning);
+    if (entry === null || exit === null) return false;
+    const half = MIN_TRANSITION_TRAVEL / 2;
+    return (entry <= midi - half && exit >= midi + half) || (entry >= midi + half && exit <= midi - half);
+}
+
+function mergeTransitions(notes: RecordedNote[], segment: PitchPoint[], tuning: Tuning): RecordedNote[] {
+    const merged: RecordedNote[] = [];
+    let pending: RecordedNote[] = []; // Transitions waiting for the note they lead to
+
+    for (const note of notes) {
+        if (isTransition(note, segment, tuning)) {
+            pending.push(note);
+            continue;
+        }
+        merged.push(pending.length > 0 ? join(pending, note, 'in') : note);
+        pending = [];
+    }
+
+    if (pending.length > 0) {
+        const previous = merged.pop();
+        if (previous) {
+            merged.push(join(pending, previous, 'out'));
+        } else {
+            // Nothing but sliding, the note is where it lands
+            merged.push(join(pending.slice(0, -1), pending[pending.length - 1]!, 'in'));
+        }
+    }
+
+    // A glide too quick through each semitone for any note to be confirmed
+    // leaves a gap between notes that the contour carries on through
+    for (let i = 1; i < merged.length; i++) {
+        const previous = merged[i - 1]!;
+        const note = merged[i]!;
+        const gapStart = previous.startTime + previous.duration;
+        const gap = pointsDuring(segment, gapStart, note.startTime);
+        if (gap.length < 2) continue;
+
+        // Sparse frames can leave an edge of the gap without points, the
+        // nearest one stands in for it
+        const entry = meanMidi(pointsDuring(gap, gapStart, gapStart + NOTE_EDGE), tuning) ?? frequencyToMidi(gap[0]!.frequency, tuning);
+        const exit = meanMidi(pointsDuring(gap, note.startTime - NOTE_EDGE, note.startTime), tuning) ?? frequencyToMidi(gap[gap.length - 1]!.frequency, tuning);
+        const previousMidi = notePitch(previous.note, tuning) ?? entry;
+        const noteMidi = notePitch(note.note, tuning) ?? exit;
+        const gliding = Math.abs(exit - entry) >= MIN_TRANSITION_TRAVEL;
+        if (gliding || Math.abs(exit - noteMidi) < Math.abs(entry - previousMidi)) {
+            const extension = note.startTime - gapStart;
+            merged[i] = {
+                ...note,
+                startTime: gapStart,
+                duration: note.duration + extension,
+                ...(gliding ? { portamento: (note.portamento ?? 0) + extension } : {}),
+            };
+        } else {
+            merged[i - 1] = { ...previous, duration: note.startTime - previous.startTime };
+        }
+    }
+    return merged;
+}
+
+// One note named after `held` covering it and the transitions into or out
+// of it
+function join(transitions: RecordedNote[], held: RecordedNote, direction: 'in' | 'out'): RecordedNote {
+    const all = [...transitions, held];
+    const start = Math.min(...all.map(n => n.startTime));
+    const end = Math.max(...all.map(n => n.startTime + n.duration));
+    const first = all.reduce((a, b) => b.startTime < a.startTime ? b : a);
+    const velocities = all.map(n => n.velocity).filter((v): v is number => v !== undefined);
+
+    const note: RecordedNote = {
+        ...held,
+        startTime: start,
+        duration: end - start,
+        onsetStrength: first.onsetStrength,
+    };
+    if (velocities.length > 0) note.velocity = Math.max(...velocities);
+    if (direction === 'in' && held.startTime > start) note.portamento = held.startTime - start;
+    return note;
+}
+
+function withPitchBend(note: RecordedNote, segment: PitchPoint[], tuning: Tuning): RecordedNote {
+    const midi = notePitch(note.note, tuning);
+    if (midi === null) return note;
+    const points = pointsDuring(segment, note.startTime, note.startTime + note.duration);
+    const bend = points.map(p => ({
+        time: p.time - note.startTime,
+        cents: 100 * (frequencyToMidi(p.frequency, tuning) - midi),
+    }));
+
+    // Vibrato is measured once the pitch has arrived
+    const vibrato = detectVibrato(bend.filter(p => p.time >= (note.portamento ?? 0)));
+    const bent = bend.some(p => Math.abs(p.cents) >= MIN_BEND);
+    if (!bent && !vibrato) return note;
+
+    const result: RecordedNote = { ...note, pitchBend: bend };
+    if (vibrato) result.vibrato = vibrato;
+    return result;
+}
+
+function detrend(samples: number[]): number[] {
+    const n = samples.length;
+    const meanT = (n - 1) / 2;
+    const meanX = samples.reduce((sum, v) => sum + v, 0) / n;
+    let covariance = 0;
+    let variance = 0;
+    samples.forEach((v, t) => {
+        covariance += (t - meanT) * (v - meanX);
+        variance += (t - meanT) * (t - meanT);
+    });
+    const slope = variance > 0 ? covariance / variance : 0;
+    return samples.map((v, t) => v - meanX - slope * (t - meanT));
+}
@@ -0,0 +1,79 @@
+import { MAX_PITCH_FREQ, MIN_PITCH_FREQ, MIN_PITCH_RMS, YIN_THRESHOLD } from "./Constants";
+
+export interface PitchEstimate {
+    frequency: number; // Hz
+    confidence: number; // 0-1, 1 = perfectly periodic
+}
+
+// YIN fundamental frequency estimator
+// de Cheveigné & Kawahara (2002) "YIN, a fundamental frequency estimator for speech and music"
+export class PitchTracker {
+    private difference: Float32Array = new Float32Array(0);
+
+    // `minRms` is the silence gate, below it there is no pitch
+    estimate(samples: Float32Array, sampleRate: number, minRms = MIN_PITCH_RMS): PitchEstimate | null {
+        const windowSize = Math.floor(samples.length / 2);
+        const minTau = Math.max(2, Math.floor(sampleRate / MAX_PITCH_FREQ));
+        const maxTau = Math.min(windowSize, Math.ceil(sampleRate / MIN_PITCH_FREQ));
+        if (maxTau <= minTau) return null;
+
+        // Silence gate, YIN will happily find a "pitch" in background noise
+        let sumSquares = 0;
+        for (let i = 0; i < samples.length; i++) {
+            sumSquares += samples[i]! * samples[i]!;
+        }
+        if (Math.sqrt(sumSquares / samples.length) < minRms) return null;
+
+        if (this.difference.length !== maxTau + 1) {
+            this.difference = new Float32Array(maxTau + 1);
+        }
+        const d = this.difference;
+
+        // Step 2: difference function
+        d[0] = 0;
+        for (let tau = 1; tau <= maxTau; tau++) {
+            let sum = 0;
+            for (let i = 0; i < windowSize; i++) {
+                const delta = samples[i]! - samples[i + tau]!;
+                sum += delta * delta;
+            }
+            d[tau] = sum;
+        }
+
+        // Step 3: cumulative mean normalized difference
+        d[0] = 1;
+        let runningSum = 0;
+        for (let tau = 1; tau <= maxTau; tau++) {
+            runningSum += d[tau]!;
+            d[tau] = runningSum === 0 ? 1 : d[tau]! * tau / runningSum;
+        }
+
+        // Step 4: absolute threshold, take the first dip below it
+        let bestTau = -1;
+        for (let tau = minTau; tau <= maxTau; tau++) {
+            if (d[tau]! < YIN_THRESHOLD) {
+                while (tau + 1 <= maxTau && d[tau + 1]! < d[tau]!) tau++;
+                bestTau = tau;
+                break;
+            }
+        }
+        if (bestTau === -1) return null;
+
+        // Step 5: parabolic interpolation around the dip
+        let refinedTau = bestTau;
+        if (bestTau > minTau && bestTau < maxTau) {
+            const s0 = d[bestTau - 1]!;
+            const s1 = d[bestTau]!;
+            const s2 = d[bestTau + 1]!;
+            const denominator = s0 + s2 - 2 * s1;
+            if (denominator !== 0) {
+                refinedTau = bestTau + (s0 - s2) / (2 * denominator);
+            }
+        }
+
+        return {
+            frequency: sampleRate / refinedTau,
+            confidence: Math.max(0, Math.min(1, 1 - d[bestTau]!)),
+        };
+    }
+}
@@ -1,72 +1,487 @@
 // Mostly from an LLM
 
-import { NOTE_NAMES } from "./Constants";
-import { RecordedNote } from "./Recorder";
+import { DEFAULT_INSTRUMENT, Instrument, INSTRUMENT_PRESETS, SampleInstrument, scheduleEnvelope } from "./Instruments";
+import { bendAt } from "./PitchContour";
+import { PitchBendPoint, RecordedNote, recordingEnd } from "./Recorder";
+import { DEFAULT_TUNING, noteFrequency, Tuning } from "./Tuning";
+import { DecodedAudio } from "./Wav";
 
-function getFrequencyFromNote(note: string): number {
-    const match = note.match(/^([A-G]#?)(-?\d+)$/);
-    if (!match) return 0;
+export const DEFAULT_MAX_POLYPHONY = 16;
+export const DEFAULT_MASTER_GAIN = 0.8;
+const VOICE_GAIN = 0.25; // Peak gain of a single full velocity note
+const DEFAULT_VELOCITY = 100;
+const STEAL_FADE_TIME = 0.02; // seconds, fade out of a voice cut by the polyphony limit
+const SCHEDULE_INTERVAL = 25; // ms between scheduler runs
+const SCHEDULE_LOOKAHEAD = 0.1; // seconds of audio scheduled ahead of the playhead
+const MIN_LOOP_LENGTH = 50; // ms
+const MONITOR_FADE_TIME = 0.01; // seconds, switching between the notes and the original
 
-    const name = match[1];
-    const octave = parseInt(match[2], 10);
+export type PlaybackStatus = 'stopped' | 'playing' | 'paused';
 
-    const noteIndex = NOTE_NAMES.indexOf(name);
-    if (noteIndex === -1) return 0;
+// What is heard: the notes resynthesised (A), the recorded audio (B) or both
+export type MonitorMode = 'notes' | 'original' | 'mix';
 
-    // MIDI note number
-    // C-1 is 0. A4 is 69.
-    // C4 is 60.
-    // Formula: freq = 440 * 2^((midi - 69) / 12)
-    // midi = (octave + 1) * 12 + noteIndex
+export interface LoopRegion {
+    start: number; // ms
+    end: number; // ms
+}
+
+export interface PlaybackState {
+    status: PlaybackStatus;
+    position: number; // ms into the recording
+    duration: number; // ms, end of the last note or the original audio
+    loop: LoopRegion | null;
+    rate: number; // 1 = as recorded
+    transpose: number; // semitones
+    monitor: MonitorMode;
+}
 
-    const midi = (octave + 1) * 12 + noteIndex;
-    return 440 * Math.pow(2, (midi - 69) / 12);
+interface Voice {
+    start: number; // context time
+    stop: number; // context time, including release
+    envelope: GainNode;
+    sources: AudioScheduledSourceNode[];
+    detune: AudioParam[]; // Pitch bends are connected to
 }
 
 export class Player {
     private audioContext: AudioContext | null = null;
+    private masterGain: GainNode | null = null;
+    private instrument: Instrument = INSTRUMENT_PRESETS[DEFAULT_INSTRUMENT]!();
+    private maxPolyphony = DEFAULT_MAX_POLYPHONY;
+    private masterGainValue = DEFAULT_MASTER_GAIN;
+    private voices: Voice[] = [];
+    private notesBus: GainNode | null = null;
+    private originalBus: GainNode | null = null;
+    private monitor: MonitorMode = 'notes';
+
+    // Audio the notes were transcribed from, on the same timeline, played
+    // in segments scheduled alongside the notes
+    private original: DecodedAudio | null = null;
+    private originalBuffer: AudioBuffer | null = null;
+    private originalSources: AudioBufferSourceNode[] = [];
+    private originalScheduledUpTo = 0; // unwrapped ms
+
+    // Transport. Notes are scheduled a little ahead of time by a timer so
+    // playback can be stopped, moved or changed at any point. Positions are
+    // "unwrapped": they keep increasing through loop repeats and are mapped
+    // back into the loop by wrapPosition.
+    private recording: RecordedNote[] = [];
+    private duration = 0;
+    private status: PlaybackStatus = 'stopped';
+    private pausedPosition = 0; // ms, when not playing
+    private anchorContextTime = 0; // context time at which...
+    private anchorPosition = 0; // ...the unwrapped position was this (ms)
+    private scheduledUpTo = 0; // unwrapped ms
+    private schedulerId: ReturnType<typeof setInterval> | null = null;
+    private loop: LoopRegion | null = null;
+    private rate = 1;
+    private transpose = 0;
+    private tuning = DEFAULT_TUNING;
 
     constructor() {}
 
     private getContext() {
         if (!this.audioContext) {
             this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+
+            // Master gain into a limiter so chords don't clip
+            const limiter = this.audioContext.createDynamicsCompressor();
+            limiter.threshold.value = -6;
+            limiter.knee.value = 0;
+            limiter.ratio.value = 20;
+            limiter.attack.value = 0.003;
+            limiter.release.value = 0.1;
+            limiter.connect(this.audioContext.destination);
+
+            this.masterGain = this.audioContext.createGain();
+            this.masterGain.gain.value = this.masterGainValue;
+            this.masterGain.connect(limiter);
+
+            this.notesBus = this.audioContext.createGain();
+            this.notesBus.connect(this.masterGain);
+            this.originalBus = this.audioContext.createGain();
+            this.originalBus.connect(this.masterGain);
+            this.applyMonitor(this.audioContext.currentTime);
         }
         return this.audioContext;
     }
 
+    getInstrument(): Instrument {
+        return this.instrument;
+    }
+
+    setInstrument(instrument: Instrument) {
+        this.instrument = instrument;
+    }
+
+    setMaxPolyphony(voices: number) {
+        this.maxPolyphony = Math.max(1, Math.floor(voices));
+    }
+
+    setMasterGain(gain: number) {
+        this.masterGainValue = gain;
+        if (this.masterGain && this.audioContext) {
+            this.masterGain.gain.setTargetAtTime(gain, this.audioContext.currentTime, 0.02);
+        }
+    }
+
+    // Decodes a local audio file of a single note, `rootNote` is the pitch
+    // it was recorded at e.g. "C4"
+    async loadSampleInstrument(file: File, rootNote: string, loop = false): Promise<SampleInstrument> {
+        const ctx = this.getContext();
+        const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+        const rootFrequency = noteFrequency(rootNote, this.tuning) ?? 261.63;
+        return new SampleInstrument(file.name, buffer, rootFrequency, { ...this.instrument.envelope }, loop);
+    }
+
+    // Replaces the loaded recording and plays it from the start
     async play(recording: RecordedNote[]) {
+        this.load(recording);
+        await this.resume();
+    }
+
+    load(recording: RecordedNote[]) {
+        this.stop();
+        this.recording = [...recording].sort((a, b) => a.startTime - b.startTime);
+        this.updateDuration();
+    }
+
+    // Swaps in edited notes, playback carries on from the same position
+    update(recording: RecordedNote[]) {
+        const position = this.getPosition();
+        this.recording = [...recording].sort((a, b) => a.startTime - b.startTime);
+        this.updateDuration();
+        if (this.status === 'playing') this.seek(position);
+        else this.pausedPosition = Math.min(this.pausedPosition, this.duration);
+    }
+
+    // Audio recorded with the notes, starting at time 0 of the recording,
+    // null to play only the notes
+    setOriginal(audio: DecodedAudio | null) {
+        this.stop();
+        this.original = audio;
+        this.originalBuffer = null;
+        if (!audio) this.setMonitor('notes');
+        this.updateDuration();
+    }
+
+    // Takes effect straight away, playback carries on at the same position
+    setMonitor(mode: MonitorMode) {
+        this.monitor = mode;
+        if (this.audioContext) this.applyMonitor(this.audioContext.currentTime);
+    }
+
+    async resume() {
+        if (this.status === 'playing') return;
         const ctx = this.getContext();
         if (ctx.state === 'suspended') {
             await ctx.resume();
         }
 
-        const now = ctx.currentTime;
+        const position = this.pausedPosition >= this.duration ? 0 : this.pausedPosition;
+        this.status = 'playing';
+        this.startFrom(position);
+        this.schedulerId = setInterval(() => this.schedule(), SCHEDULE_INTERVAL);
+    }
+
+    pause() {
+        if (this.status !== 'playing') return;
+        this.pausedPosition = this.getPosition();
+        this.halt();
+        this.status = 'paused';
+    }
+
+    stop() {
+        this.halt();
+        this.status = 'stopped';
+        this.pausedPosition = 0;
+    }
+
+    seek(positionMs: number) {
+        const position = Math.max(0, Math.min(positionMs, this.duration));
+        if (this.status === 'playing') {
+            this.silenceVoices();
+            this.startFrom(position);
+        } else {
+            this.pausedPosition = position;
+        }
+    }
+
+    setLoop(loop: LoopRegion | null) {
+        const wasPlaying = this.status === 'playing';
+        const position = this.getPosition();
+        if (loop) {
+            const start = Math.max(0, Math.min(loop.start, loop.end));
+            const end = Math.min(this.duration, Math.max(loop.start, loop.end));
+            this.loop = end - start >= MIN_LOOP_LENGTH ? { start, end } : null;
+        } else {
+            this.loop = null;
+        }
+        // Restart the schedule so the new region applies straight away
+        if (wasPlaying) this.seek(position);
+    }
+
+    // Speeds up or slows down the timing, pitch is unaffected as every note
+    // is synthesised at its own frequency. The original audio is resampled
+    // so its pitch follows the rate.
+    setRate(rate: number) {
+        if (!(rate > 0)) return;
+        if (this.status === 'playing' && this.audioContext) {
+            // Re-anchor so the position carries on smoothly from here
+            const now = this.audioContext.currentTime;
+            this.anchorPosition = this.unwrappedPositionAt(now);
+            this.anchorContextTime = now;
+        }
+        this.rate = rate;
+        // Audio already scheduled is at the old rate
+        if (this.status === 'playing' && this.original) this.seek(this.getPosition());
+    }
+
+    // Applies to notes scheduled from now on
+    setTranspose(semitones: number) {
+        this.transpose = Math.round(semitones);
+    }
+
+    // Tuning notes are played in, from the next note scheduled
+    setTuning(tuning: Tuning) {
+        this.tuning = tuning;
+    }
+
+    getState(): PlaybackState {
+        return {
+            status: this.status,
+            position: this.getPosition(),
+            duration: this.duration,
+            loop: this.loop,
+            rate: this.rate,
+            transpose: this.transpose,
+            monitor: this.monitor,
+        };
+    }
+
+    private getPosition(): number {
+        if (this.status !== 'playing' || !this.audioContext) return this.pausedPosition;
+        const unwrapped = this.unwrappedPositionAt(this.audioContext.currentTime);
+        return Math.min(this.duration, this.wrapPosition(Math.max(this.anchorPosition, unwrapped)));
+    }
+
+    private startFrom(position: number) {
+        const ctx = this.getContext();
+        this.anchorContextTime = ctx.currentTime + 0.01;
+        this.anchorPosition = position;
+        this.scheduledUpTo = position;
+        this.originalScheduledUpTo = position;
+
+        // Notes already sounding at the start position play their remainder
+        for (const item of this.recording) {
+            if (item.startTime >= position) break;
+            const end = this.loopEndFor(position, item.startTime + item.duration);
+            if (end > position) this.scheduleRecordedNote(item, position, end);
+        }
+        this.schedule();
+    }
+
+    // Runs every SCHEDULE_INTERVAL, queues the notes starting before the
+    // lookahead horizon
+    private schedule() {
+        if (this.status !== 'playing' || !this.audioContext) return;
+
+        const horizon = this.unwrappedPositionAt(this.audioContext.currentTime + SCHEDULE_LOOKAHEAD);
+        let unwrapped = this.scheduledUpTo;
+        while (unwrapped < horizon) {
+            const position = this.wrapPosition(unwrapped);
+            const segmentEnd = this.loop && position < this.loop.end ? this.loop.end : this.duration;
+            const segmentLength = Math.min(horizon - unwrapped, segmentEnd - position);
+            if (segmentLength <= 0) break;
+
+            if (this.original && unwrapped >= this.originalScheduledUpTo) {
+                this.scheduleOriginal(position, segmentEnd, unwrapped);
+            }
+
+            const offset = unwrapped - position;
+            for (const item of this.recording) {
+                if (item.startTime >= position + segmentLength) break;
+                if (item.startTime < position) continue;
+                const end = this.loopEndFor(position, item.startTime + item.duration);
+                this.scheduleRecordedNote(item, item.startTime, end, offset);
+            }
+            unwrapped += segmentLength;
+        }
+        this.scheduledUpTo = Math.max(this.scheduledUpTo, unwrapped);
+
+        // Finished once past the last note, including its release
+        const end = this.unwrappedPositionAt(this.audioContext.currentTime);
+        if (!this.loop && end >= this.duration + this.instrument.envelope.release * 1000 * this.rate) {
+            this.stop();
+        }
+    }
+
+    // `from` and `to` are ms in the recording, `offset` maps them to
+    // unwrapped positions when looping
+    private scheduleRecordedNote(item: RecordedNote, from: number, to: number, offset = 0) {
+        const ctx = this.getContext();
+        // Transposed by equal semitones whatever the tuning, keeping the intervals
+        const frequency = noteFrequency(item.note, this.tuning);
+        if (frequency === null || to <= from) return;
+        const freq = frequency * Math.pow(2, this.transpose / 12);
 
-        recording.forEach(item => {
-            const freq = getFrequencyFromNote(item.note);
-            if (freq <= 0) return;
+        const startTime = Math.max(ctx.currentTime, this.contextTimeAt(from + offset));
+        const duration = (to - from) / 1000 / this.rate;
+        const voice = this.scheduleNote(ctx, freq, startTime, duration, item.velocity ?? DEFAULT_VELOCITY);
+        if (item.pitchBend?.length) this.scheduleBend(ctx, voice, item.pitchBend, from - item.startTime, startTime);
+    }
 
-            const osc = ctx.createOscillator();
-            const gain = ctx.createGain();
+    // The original audio from `from` to `to` ms, a whole segment at a time
+    // starting at unwrapped position `unwrapped`
+    private scheduleOriginal(from: number, to: number, unwrapped: number) {
+        const ctx = this.getContext();
+        this.originalScheduledUpTo = unwrapped + to - from;
+        const buffer = this.getOriginalBuffer(ctx);
+        if (!buffer || from >= buffer.duration * 1000) return;
 
-            osc.type = 'sine';
-            osc.frequency.value = freq;
+        // Scheduled late, e.g. straight after a seek, skip what's been missed
+        const startTime = this.contextTimeAt(unwrapped);
+        const late = Math.max(0, ctx.currentTime - startTime);
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.playbackRate.value = this.rate;
+        source.connect(this.originalBus!);
+        source.start(startTime + late, from / 1000 + late * this.rate);
+        source.stop(this.contextTimeAt(unwrapped + to - from));
+        source.onended = () => {
+            this.originalSources = this.originalSources.filter(s => s !== source);
+        };
+        this.originalSources.push(source);
+    }
 
-            osc.connect(gain);
-            gain.connect(ctx.destination);
+    private getOriginalBuffer(ctx: AudioContext): AudioBuffer | null {
+        const audio = this.original;
+        const length = audio?.channelData[0]?.length ?? 0;
+        if (!audio || length === 0) return null;
+        if (!this.originalBuffer) {
+            this.originalBuffer = ctx.createBuffer(audio.channelData.length, length, audio.sampleRate);
+            audio.channelData.forEach((samples, channel) => this.originalBuffer!.copyToChannel(samples, channel));
+        }
+        return this.originalBuffer;
+    }
+
+    // Glides and vibrato, starting `noteOffset` ms into the note, from one
+    // constant source added to the detune the instrument gave each pitched
+    // source, so its own detune and any LFO on it are kept
+    private scheduleBend(ctx: AudioContext, voice: Voice, bend: PitchBendPoint[], noteOffset: number, startTime: number) {
+        if (voice.detune.length === 0) return;
+        const cents = ctx.createConstantSource();
+        cents.offset.setValueAtTime(bendAt(bend, noteOffset), startTime);
+        for (const point of bend) {
+            if (point.time <= noteOffset) continue;
+            cents.offset.linearRampToValueAtTime(point.cents, startTime + (point.time - noteOffset) / 1000 / this.rate);
+        }
+        voice.detune.forEach(param => cents.connect(param));
+        cents.start(startTime);
+        cents.stop(voice.stop);
+        voice.sources.push(cents);
+    }
 
-            const startTime = now + (item.startTime / 1000);
-            const duration = item.duration / 1000;
+    // Notes are cut at the loop end while the playhead is inside the loop
+    private loopEndFor(position: number, noteEnd: number): number {
+        if (this.loop && position < this.loop.end) return Math.min(noteEnd, this.loop.end);
+        return noteEnd;
+    }
 
-            // Simple envelope
-            gain.gain.setValueAtTime(0, startTime);
-            gain.gain.linearRampToValueAtTime(0.1, startTime + 0.05);
-            gain.gain.setValueAtTime(0.1, startTime + duration - 0.05);
-            gain.gain.linearRampToValueAtTime(0, startTime + duration);
+    private unwrappedPositionAt(contextTime: number): number {
+        return this.anchorPosition + (contextTime - this.anchorContextTime) * 1000 * this.rate;
+    }
+
+    private contextTimeAt(unwrapped: number): number {
+        return this.anchorContextTime + (unwrapped - this.anchorPosition) / 1000 / this.rate;
+    }
+
+    // Playback runs straight through until the loop end, then repeats the
+    // loop region forever
+    private wrapPosition(unwrapped: number): number {
+        if (!this.loop || unwrapped < this.loop.end) return unwrapped;
+        const length = this.loop.end - this.loop.start;
+        return this.loop.start + (unwrapped - this.loop.end) % length;
+    }
+
+    private updateDuration() {
+        const notesEnd = recordingEnd(this.recording);
+        const audio = this.original;
+        const audioEnd = audio ? (audio.channelData[0]?.length ?? 0) / audio.sampleRate * 1000 : 0;
+        this.duration = Math.max(notesEnd, audioEnd);
+        if (this.loop && this.loop.start >= this.duration) this.loop = null;
+    }
+
+    private applyMonitor(time: number) {
+        this.notesBus?.gain.setTargetAtTime(this.monitor === 'original' ? 0 : 1, time, MONITOR_FADE_TIME);
+        this.originalBus?.gain.setTargetAtTime(this.monitor === 'notes' ? 0 : 1, time, MONITOR_FADE_TIME);
+    }
+
+    private halt() {
+        if (this.schedulerId !== null) {
+            clearInterval(this.schedulerId);
+            this.schedulerId = null;
+        }
+        this.silenceVoices();
+    }
+
+    // Quickly fades out everything scheduled or sounding
+    private silenceVoices() {
+        if (!this.audioContext) return;
+        const now = this.audioContext.currentTime;
+        for (const voice of this.voices) {
+            if (voice.stop <= now) continue;
+            this.cutVoice(voice, now);
+        }
+        this.voices = [];
+        this.originalSources.forEach(source => source.stop(now));
+        this.originalSources = [];
+    }
+
+    private scheduleNote(ctx: AudioContext, frequency: number, startTime: number, duration: number, velocity: number): Voice {
+        const envelope = this.instrument.envelope;
+        const stopTime = startTime + duration + envelope.release;
+
+        this.stealVoices(startTime);
+        this.voices = this.voices.filter(v => v.stop > ctx.currentTime);
+
+        const gain = ctx.createGain();
+        scheduleEnvelope(gain.gain, envelope, VOICE_GAIN * velocity / 127, startTime, duration);
+        gain.connect(this.notesBus!);
+
+        const { sources, detune } = this.instrument.createVoice(ctx, gain, frequency, startTime, stopTime);
+        const voice = { start: startTime, stop: stopTime, envelope: gain, sources, detune };
+        this.voices.push(voice);
+        return voice;
+    }
+
+    // Cuts the oldest sounding voices so at most maxPolyphony - 1 are still
+    // playing at `time`, leaving room for a new one
+    private stealVoices(time: number) {
+        const sounding = this.voices
+            .filter(v => v.start <= time && v.stop > time)
+            .sort((a, b) => a.start - b.start);
+
+        while (sounding.length >= this.maxPolyphony) {
+            this.cutVoice(sounding.shift()!, time);
+        }
+    }
+
+    private cutVoice(voice: Voice, time: number) {
+        // Not started yet, it never needs to make a sound
+        if (voice.start > time) {
+            voice.stop = time;
+            voice.sources.forEach(source => source.stop(time));
+            return;
+        }
 
-            osc.start(startTime);
-            osc.stop(startTime + duration);
-        });
+        const gain = voice.envelope.gain;
+        // Hold the envelope where it is rather than jumping, not in every browser
+        if (typeof gain.cancelAndHoldAtTime === 'function') gain.cancelAndHoldAtTime(time);
+        else gain.cancelScheduledValues(time);
+        gain.setTargetAtTime(0, time, STEAL_FADE_TIME / 3);
+        voice.stop = time + STEAL_FADE_TIME;
+        voice.sources.forEach(source => source.stop(voice.stop));
     }
 }
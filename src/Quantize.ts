@@ -0,0 +1,72 @@
+import { RecordedNote } from "./Recorder";
+
+export interface TimeSignature {
+    beats: number; // Top number
+    beatType: number; // Bottom number, 4 = quarter note
+}
+
+// Tempo plus the time of one beat, which fixes where every other beat is
+export interface BeatGrid {
+    bpm: number;
+    offset: number; // ms from the start of the recording to a beat
+}
+
+export interface Subdivision {
+    label: string;
+    stepsPerBeat: number; // Grid steps per quarter note beat
+}
+
+export const SUBDIVISIONS: Subdivision[] = [
+    { label: '1/4', stepsPerBeat: 1 },
+    { label: '1/8', stepsPerBeat: 2 },
+    { label: '1/8 triplet', stepsPerBeat: 3 },
+    { label: '1/16', stepsPerBeat: 4 },
+    { label: '1/16 triplet', stepsPerBeat: 6 },
+];
+
+export const MIN_ESTIMATED_BPM = 60;
+export const MAX_ESTIMATED_BPM = 180;
+
+export function msPerQuarter(bpm: number): number {
+    return 60000 / bpm;
+}
+
+// Nearest multiple of gridMs
+export function snapToGrid(ms: number, gridMs: number): number {
+    return Math.round(ms / gridMs) * gridMs;
+}
+
+// The last beat at or before the start of the recording, 0 or earlier.
+// Exports start there so the beats fall on whole quarter notes.
+export function firstBeatTime(grid: BeatGrid): number {
+    const beatMs = msPerQuarter(grid.bpm);
+    return grid.offset - Math.ceil(grid.offset / beatMs) * beatMs;
+}
+
+// Every beat from the first at or after `fromMs` up to `toMs`
+export function beatTimes(grid: BeatGrid, fromMs: number, toMs: number): number[] {
+    const beatMs = msPerQuarter(grid.bpm);
+    const times: number[] = [];
+    for (let t = grid.offset + Math.ceil((fromMs - grid.offset) / beatMs) * beatMs; t <= toMs; t += beatMs) {
+        times.push(t);
+    }
+    return times;
+}
+
+// Moves note starts and ends towards the nearest step of the grid, by
+// `strength` of the way (0 = unchanged, 1 = exactly on the grid). A note
+// whose end would snap onto its start is given one step.
+export function quantizeRecording(recording: RecordedNote[], grid: BeatGrid, stepsPerBeat: number, strength = 1): RecordedNote[] {
+    const stepMs = msPerQuarter(grid.bpm) / stepsPerBeat;
+    const snap = (ms: number) => grid.offset + snapToGrid(ms - grid.offset, stepMs);
+    const amount = Math.max(0, Math.min(1, strength));
+
+    return recording.map(n => {
+        const end = n.startTime + n.duration;
+        const snappedStart = snap(n.startTime);
+        const snappedEnd = Math.max(snappedStart + stepMs, snap(end));
+        const startTime = Math.max(0, n.startTime + amount * (snappedStart - n.startTime));
+        const newEnd = end + amount * (snappedEnd - end);
+        return { ...n, startTime, duration: Math.max(1, newEnd - startTime) };
+    });
+}
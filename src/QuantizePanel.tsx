@@ -0,0 +1,74 @@
+import { useState } from "preact/hooks";
+
+import { beatGridFromRecording } from "./BeatTracker";
+import { BeatGrid, quantizeRecording, SUBDIVISIONS } from "./Quantize";
+import { RecordedNote } from "./Recorder";
+
+interface QuantizePanelProps {
+    recording: RecordedNote[];
+    beatGrid: BeatGrid | null;
+    onBeatGridChange: (grid: BeatGrid | null) => void;
+    onQuantize: (recording: RecordedNote[]) => void;
+}
+
+export const QuantizePanel = ({ recording, beatGrid, onBeatGridChange, onQuantize }: QuantizePanelProps) => {
+    const [stepsPerBeat, setStepsPerBeat] = useState(4);
+    const [strength, setStrength] = useState(1);
+
+    const handleBpmChange = (bpm: number) => {
+        if (!(bpm > 0)) return;
+        onBeatGridChange({ bpm, offset: beatGrid?.offset ?? 0 });
+    };
+
+    const handleDetect = () => {
+        const grid = beatGridFromRecording(recording);
+        if (!grid) {
+            alert("Recording is too short to find the beat.");
+            return;
+        }
+        onBeatGridChange(grid);
+    };
+
+    const handleQuantize = () => {
+        if (beatGrid) onQuantize(quantizeRecording(recording, beatGrid, stepsPerBeat, strength));
+    };
+
+    return (
+        <div className="quantize-panel" style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px', padding: '10px 0' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }} title="Tempo of the beat grid">
+                Grid BPM
+                <input
+                    type="number"
+                    min={20}
+                    max={300}
+                    step={0.1}
+                    value={beatGrid ? Math.round(beatGrid.bpm * 10) / 10 : ''}
+                    placeholder="—"
+                    onChange={e => handleBpmChange(parseFloat(e.currentTarget.value))}
+                    style={{ width: '5em' }}
+                />
+            </label>
+            <button onClick={handleDetect} style={{ padding: '5px 10px' }} title="Find the tempo and beats from the note starts">
+                Detect Beat
+            </button>
+            <select value={stepsPerBeat} onChange={e => setStepsPerBeat(parseInt(e.currentTarget.value, 10))} title="Grid to snap to">
+                {SUBDIVISIONS.map(s => <option key={s.stepsPerBeat} value={s.stepsPerBeat}>{s.label}</option>)}
+            </select>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }} title="How far notes move towards the grid">
+                Strength
+                <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={strength}
+                    onInput={e => setStrength(parseFloat(e.currentTarget.value))}
+                />
+                {Math.round(strength * 100)}%
+            </label>
+            <button onClick={handleQuantize} disabled={!beatGrid} style={{ padding: '5px 10px' }}>
+                Quantize
+            </button>
+        </div>
+    );
+};
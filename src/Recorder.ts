@@ -1,14 +1,47 @@
+import { DetectedNote } from "./NoteDetector";
+
+export interface PitchBendPoint {
+    time: number; // ms from the start of the note
+    cents: number; // Offset from the equal tempered pitch of the note
+}
+
+export interface Vibrato {
+    rate: number; // Hz
+    depth: number; // cents, half the peak to peak swing
+}
+
 export interface RecordedNote {
     note: string;
     startTime: number; // ms from start of recording
     duration: number; // ms
+    velocity?: number; // 1-127 as in MIDI, from the loudest frame of the note
+    onsetStrength?: number; // 0-1, how sharp the attack was
+    pitchBend?: PitchBendPoint[]; // Continuous pitch through the note, from the pitch contour or MIDI pitch bend
+    vibrato?: Vibrato;
+    portamento?: number; // ms spent gliding into the note from the previous pitch
+}
+
+interface ActiveNote {
+    start: number;
+    amplitude: number; // Max seen so far, 0-1
+    onsetStrength: number;
+}
+
+// End of the last note in ms, 0 when there are none. Not Math.max(...),
+// which runs out of arguments on recordings of 100k or so notes.
+export function recordingEnd(recording: RecordedNote[]): number {
+    return recording.reduce((end, n) => Math.max(end, n.startTime + n.duration), 0);
+}
+
+function amplitudeToVelocity(amplitude: number): number {
+    return Math.max(1, Math.min(127, Math.round(1 + amplitude * 126)));
 }
 
 export class Recorder {
     private isRecording = false;
     private startTime = 0;
     private recordedNotes: RecordedNote[] = [];
-    private activeNotes = new Map<string, number>();
+    private activeNotes = new Map<string, ActiveNote>();
     private maxDuration: number;
     private maxNotes: number;
 
@@ -17,46 +50,65 @@ export class Recorder {
         this.maxNotes = maxNotes;
     }
 
-    start() {
+    // Also while recording, a recording already past the new duration
+    // stops on the next update
+    setLimits(maxDurationMs: number, maxNotes: number) {
+        this.maxDuration = maxDurationMs;
+        this.maxNotes = maxNotes;
+    }
+
+    // Times are in ms on the clock the analysis frames are stamped with, the
+    // audio clock for live input or the position in the file offline, so a
+    // recording does not depend on when the UI got round to each frame
+    start(nowMs: number) {
         this.isRecording = true;
-        this.startTime = Date.now();
+        this.startTime = nowMs;
         this.recordedNotes = [];
         this.activeNotes.clear();
     }
 
-    stop() {
+    stop(nowMs: number) {
         if (!this.isRecording) return;
-        this.finalizeActiveNotes();
+        this.finalizeActiveNotes(nowMs);
         this.isRecording = false;
     }
 
-    update(currentNotes: Set<string>) {
+    update(detectedNotes: DetectedNote[], nowMs: number) {
         if (!this.isRecording) return;
 
-        const now = Date.now();
+        const currentNotes = new Map(detectedNotes.map(d => [d.note, d]));
+
+        const now = nowMs;
         if (now - this.startTime >= this.maxDuration) {
-            this.stop();
+            // End exactly on the limit however late this frame arrived
+            this.stop(this.startTime + this.maxDuration);
             return;
         }
 
-        // Check for notes that stopped
-        for (const [note, start] of this.activeNotes) {
-            if (!currentNotes.has(note)) {
-                this.recordedNotes.push({
-                    note,
-                    startTime: start - this.startTime,
-                    duration: now - start
-                });
+        // Check for notes that stopped or were played again
+        for (const [note, active] of this.activeNotes) {
+            const detected = currentNotes.get(note);
+            if (!detected) {
+                this.recordedNotes.push(this.toRecordedNote(note, active, now));
                 this.activeNotes.delete(note);
+            } else if (detected.onset) {
+                this.recordedNotes.push(this.toRecordedNote(note, active, now));
+                this.activeNotes.set(note, { start: now, amplitude: detected.amplitude, onsetStrength: detected.onsetStrength });
+            } else {
+                active.amplitude = Math.max(active.amplitude, detected.amplitude);
+                active.onsetStrength = Math.max(active.onsetStrength, detected.onsetStrength);
             }
         }
 
         // Check for new notes
-        for (const note of currentNotes) {
+        for (const [note, detected] of currentNotes) {
             if (!this.activeNotes.has(note)) {
                 // Check limit
                 if (this.activeNotes.size < this.maxNotes) {
-                    this.activeNotes.set(note, now);
+                    // Back to when the note was first heard rather than when
+                    // the detector confirmed it, but not before recording
+                    const start = Math.max(this.startTime, Math.min(now, detected.onsetTime));
+                    this.activeNotes.set(note, { start, amplitude: detected.amplitude, onsetStrength: detected.onsetStrength });
                 }
             }
         }
@@ -70,15 +122,20 @@ export class Recorder {
         return this.isRecording;
     }
 
-    private finalizeActiveNotes() {
-        const now = Date.now();
-        for (const [note, start] of this.activeNotes) {
-            this.recordedNotes.push({
-                note,
-                startTime: start - this.startTime,
-                duration: now - start
-            });
+    private finalizeActiveNotes(now: number) {
+        for (const [note, active] of this.activeNotes) {
+            this.recordedNotes.push(this.toRecordedNote(note, active, now));
         }
         this.activeNotes.clear();
     }
+
+    private toRecordedNote(note: string, active: ActiveNote, now: number): RecordedNote {
+        return {
+            note,
+            startTime: active.start - this.startTime,
+            duration: now - active.start,
+            velocity: amplitudeToVelocity(active.amplitude),
+            onsetStrength: active.onsetStrength,
+        };
+    }
 }
@@ -0,0 +1,124 @@
+// Scala scale (.scl) and keyboard mapping (.kbm) files
+// https://www.huygens-fokker.org/scala/scl_format.html
+// https://www.huygens-fokker.org/scala/help.htm#mappings
+
+export interface ScalaScale {
+    description: string;
+    cents: number[]; // Of degrees 1 to n above degree 0, the last is the period, usually 1200
+}
+
+export interface KeyboardMapping {
+    size: number; // Keys in the repeating pattern, 0 = every key is the next degree
+    firstKey: number; // Lowest MIDI key mapped
+    lastKey: number;
+    middleKey: number; // Key the pattern starts from, sounds degree 0
+    referenceKey: number; // Key tuned to referenceFrequency
+    referenceFrequency: number; // Hz
+    periodDegree: number; // Degree the pattern repeats at, usually the scale size
+    mapping: (number | null)[]; // Degree of each key of the pattern, null = unmapped
+}
+
+// Lines starting with "!" are comments, anything after the value on a line
+// is ignored
+function dataLines(text: string): string[] {
+    return text.split(/\r?\n/).filter(line => !line.startsWith('!'));
+}
+
+// "701.955" is in cents, "3/2" or "2" a ratio
+function parsePitch(line: string): number {
+    const value = line.trim().split(/\s+/)[0] ?? '';
+    if (value.includes('.')) {
+        const cents = parseFloat(value);
+        if (!Number.isFinite(cents)) throw new Error(`Invalid pitch "${value}"`);
+        return cents;
+    }
+    const match = value.match(/^(\d+)(?:\/(\d+))?$/);
+    const numerator = match ? parseInt(match[1]!, 10) : NaN;
+    const denominator = match?.[2] ? parseInt(match[2], 10) : 1;
+    if (!(numerator > 0) || !(denominator > 0)) throw new Error(`Invalid pitch "${value}"`);
+    return 1200 * Math.log2(numerator / denominator);
+}
+
+function parseInteger(line: string | undefined, what: string): number {
+    const value = parseInt(line?.trim().split(/\s+/)[0] ?? '', 10);
+    if (!Number.isFinite(value)) throw new Error(`Missing ${what}`);
+    return value;
+}
+
+export function parseScl(text: string): ScalaScale {
+    const lines = dataLines(text);
+    const description = lines[0]?.trim() ?? '';
+    const count = parseInteger(lines[1], "number of notes");
+    if (count < 1) throw new Error("A scale needs at least one note");
+    const pitches = lines.slice(2).filter(line => line.trim() !== '');
+    if (pitches.length < count) throw new Error(`Expected ${count} notes, found ${pitches.length}`);
+
+    const cents = pitches.slice(0, count).map(parsePitch);
+    if (!(cents[cents.length - 1]! > 0)) throw new Error("The last note has to be above the first");
+    return { description, cents };
+}
+
+export function parseKbm(text: string): KeyboardMapping {
+    const lines = dataLines(text).filter(line => line.trim() !== '');
+    const size = parseInteger(lines[0], "map size");
+    const firstKey = parseInteger(lines[1], "first key");
+    const lastKey = parseInteger(lines[2], "last key");
+    const middleKey = parseInteger(lines[3], "middle key");
+    const referenceKey = parseInteger(lines[4], "reference key");
+    const referenceFrequency = parseFloat(lines[5] ?? '');
+    const periodDegree = parseInteger(lines[6], "octave degree");
+    if (size < 0) throw new Error("Invalid map size");
+    if (!(referenceFrequency > 0)) throw new Error("Invalid reference frequency");
+    if (periodDegree < 1 && size > 0) throw new Error("Invalid octave degree");
+
+    // Missing entries at the end are unmapped
+    const mapping = Array.from({ length: size }, (_, i) => {
+        const value = lines[7 + i]?.trim().split(/\s+/)[0];
+        if (value === undefined || value === 'x') return null;
+        const degree = parseInt(value, 10);
+        if (!Number.isFinite(degree)) throw new Error(`Invalid mapping "${value}"`);
+        return degree;
+    });
+    const keyboard: KeyboardMapping = {
+        size,
+        firstKey: Math.max(0, firstKey),
+        lastKey: Math.min(127, lastKey),
+        middleKey,
+        referenceKey,
+        referenceFrequency,
+        periodDegree,
+        mapping,
+    };
+    // Every other key is tuned relative to it
+    if (patternDegree(referenceKey, keyboard) === null) throw new Error("The reference key is unmapped");
+    return keyboard;
+}
+
+// Scale degree sounded by `key`, counting periods, null when unmapped
+export function keyDegree(key: number, keyboard: KeyboardMapping): number | null {
+    if (key < keyboard.firstKey || key > keyboard.lastKey) return null;
+    return patternDegree(key, keyboard);
+}
+
+// Degree the reference frequency is of, which can be outside the keys mapped
+export function referenceDegree(keyboard: KeyboardMapping): number {
+    return patternDegree(keyboard.referenceKey, keyboard) ?? 0;
+}
+
+// As keyDegree ignoring the range of keys mapped
+function patternDegree(key: number, keyboard: KeyboardMapping): number | null {
+    const offset = key - keyboard.middleKey;
+    if (keyboard.size === 0) return offset;
+    const index = ((offset % keyboard.size) + keyboard.size) % keyboard.size;
+    const degree = keyboard.mapping[index];
+    if (degree === null || degree === undefined) return null;
+    return Math.floor(offset / keyboard.size) * keyboard.periodDegree + degree;
+}
+
+// Cents of `degree` above degree 0, repeating the scale every period
+export function degreeCents(degree: number, scale: ScalaScale): number {
+    const size = scale.cents.length;
+    const period = scale.cents[size - 1]!;
+    const index = ((degree % size) + size) % size;
+    return Math.floor(degree / size) * period + (index === 0 ? 0 : scale.cents[index - 1]!);
+}
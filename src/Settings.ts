@@ -0,0 +1,147 @@
+import { AMPLITUDE_LOG_SCALE, FFT_SIZE, MAX_FREQ_SCALE, MIN_NOTE_DURATION, NOTE_THRESHOLD, NOTES_TO_SHOW, RECORD_DURATION_MS, SMOOTHING_TIME_CONSTANT } from "./Constants";
+
+// The analysis parameters worth tuning per instrument, changeable while
+// running. The Constants of the same names are the defaults.
+export interface AnalysisSettings {
+    fftSize: number; // Power of two, see FFT_SIZES
+    smoothingTimeConstant: number; // Averaging of each bin with the previous frame (0-1)
+    noteThreshold: number; // Amplitude threshold (0-255)
+    notesToShow: number; // Simultaneous notes in peaks mode and live view lanes
+    minNoteDuration: number; // ms
+    maxFreqScale: number; // Fraction of the spectrum analysed and shown, 0.5 = up to Nyquist
+    amplitudeLogScale: number; // Spectrogram contrast
+    recordDurationMs: number;
+}
+
+export const DEFAULT_SETTINGS: AnalysisSettings = {
+    fftSize: FFT_SIZE,
+    smoothingTimeConstant: SMOOTHING_TIME_CONSTANT,
+    noteThreshold: NOTE_THRESHOLD,
+    notesToShow: NOTES_TO_SHOW,
+    minNoteDuration: MIN_NOTE_DURATION,
+    maxFreqScale: MAX_FREQ_SCALE,
+    amplitudeLogScale: AMPLITUDE_LOG_SCALE,
+    recordDurationMs: RECORD_DURATION_MS,
+};
+
+// AnalyserNode allows 32 to 32768, below 512 the bins are too wide for notes
+export const FFT_SIZES = [512, 1024, 2048, 4096, 8192, 16384, 32768];
+
+// Longer windows resolve low notes but smear fast ones, the frequency range
+// only needs to reach a few harmonics above the instrument
+export const BUILT_IN_PRESETS: Record<string, AnalysisSettings> = {
+    Default: DEFAULT_SETTINGS,
+    Voice: {
+        ...DEFAULT_SETTINGS,
+        fftSize: 4096,
+        smoothingTimeConstant: 0.6,
+        noteThreshold: 90,
+        notesToShow: 3,
+        minNoteDuration: 80,
+        maxFreqScale: 0.1,
+        recordDurationMs: 60000,
+    },
+    Piano: {
+        ...DEFAULT_SETTINGS,
+        fftSize: 8192,
+        smoothingTimeConstant: 0.3,
+        notesToShow: 10,
+        minNoteDuration: 40,
+        maxFreqScale: 0.2,
+    },
+    Guitar: {
+        ...DEFAULT_SETTINGS,
+        fftSize: 4096,
+        smoothingTimeConstant: 0.4,
+        notesToShow: 6,
+        minNoteDuration: 40,
+        maxFreqScale: 0.15,
+    },
+    Whistle: {
+        ...DEFAULT_SETTINGS,
+        noteThreshold: 110,
+        notesToShow: 1,
+        maxFreqScale: 0.2,
+        amplitudeLogScale: 20,
+    },
+};
+
+// The recorder keeps more notes than are shown live, for chords and
+// overlapping releases
+export function notesToRecord(settings: AnalysisSettings): number {
+    return settings.notesToShow * 2;
+}
+
+const SETTINGS_KEY = 'soundAnalyser.settings';
+const PRESETS_KEY = 'soundAnalyser.presets';
+
+// Anything missing or out of range in stored settings falls back to the
+// default, they may be from an older version or edited by hand
+export function sanitizeSettings(value: unknown): AnalysisSettings {
+    const stored = (typeof value === 'object' && value !== null ? value : {}) as Partial<Record<keyof AnalysisSettings, unknown>>;
+    const clamped = (key: keyof AnalysisSettings, min: number, max: number): number => {
+        const n = stored[key];
+        return typeof n === 'number' && Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : DEFAULT_SETTINGS[key];
+    };
+    const fftSize = stored.fftSize;
+    return {
+        fftSize: typeof fftSize === 'number' && FFT_SIZES.includes(fftSize) ? fftSize : DEFAULT_SETTINGS.fftSize,
+        smoothingTimeConstant: clamped('smoothingTimeConstant', 0, 0.99),
+        noteThreshold: clamped('noteThreshold', 0, 255),
+        notesToShow: Math.round(clamped('notesToShow', 1, 20)),
+        minNoteDuration: clamped('minNoteDuration', 0, 1000),
+        maxFreqScale: clamped('maxFreqScale', 0.01, 0.5),
+        amplitudeLogScale: clamped('amplitudeLogScale', 0.1, 100),
+        recordDurationMs: clamped('recordDurationMs', 1000, 600000),
+    };
+}
+
+// localStorage can throw, e.g. when disabled or full, settings then just
+// don't persist
+function readStorage(key: string): unknown {
+    try {
+        const json = localStorage.getItem(key);
+        return json === null ? null : JSON.parse(json);
+    } catch {
+        return null;
+    }
+}
+
+function writeStorage(key: string, value: unknown) {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (err) {
+        console.warn("Could not save settings:", err);
+    }
+}
+
+// The settings in use when the page was last closed
+export function loadSettings(): AnalysisSettings {
+    const stored = readStorage(SETTINGS_KEY);
+    return stored === null ? DEFAULT_SETTINGS : sanitizeSettings(stored);
+}
+
+export function saveSettings(settings: AnalysisSettings) {
+    writeStorage(SETTINGS_KEY, settings);
+}
+
+// Presets saved by the user, by name
+export function loadUserPresets(): Record<string, AnalysisSettings> {
+    const stored = readStorage(PRESETS_KEY);
+    const presets: Record<string, AnalysisSettings> = {};
+    if (typeof stored !== 'object' || stored === null) return presets;
+    for (const [name, settings] of Object.entries(stored)) {
+        presets[name] = sanitizeSettings(settings);
+    }
+    return presets;
+}
+
+export function saveUserPreset(name: string, settings: AnalysisSettings) {
+    writeStorage(PRESETS_KEY, { ...loadUserPresets(), [name]: settings });
+}
+
+export function deleteUserPreset(name: string) {
+    const presets = loadUserPresets();
+    delete presets[name];
+    writeStorage(PRESETS_KEY, presets);
+}
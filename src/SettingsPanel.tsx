@@ -0,0 +1,120 @@
+import { useState } from "preact/hooks";
+
+import { AnalysisSettings, BUILT_IN_PRESETS, deleteUserPreset, FFT_SIZES, loadUserPresets, sanitizeSettings, saveUserPreset } from "./Settings";
+
+interface SettingsPanelProps {
+    settings: AnalysisSettings;
+    sampleRate: number; // For the frequency and resolution readouts
+    disabled?: boolean;
+    onChange: (settings: AnalysisSettings) => void;
+}
+
+type NumericSetting = Exclude<keyof AnalysisSettings, 'fftSize'>;
+
+// `scale` converts the stored value to the one shown, e.g. ms to seconds
+const NUMERIC_FIELDS: { key: NumericSetting, label: string, title: string, min: number, max: number, step: number, scale?: number }[] = [
+    { key: 'smoothingTimeConstant', label: 'Smoothing', title: 'Averaging of each bin with the previous frame', min: 0, max: 0.99, step: 0.01 },
+    { key: 'noteThreshold', label: 'Threshold', title: 'Level (0-255) a spectral peak needs to be a note', min: 0, max: 255, step: 1 },
+    { key: 'notesToShow', label: 'Notes', title: 'Simultaneous notes in peaks mode and the live view', min: 1, max: 20, step: 1 },
+    { key: 'minNoteDuration', label: 'Min ms', title: 'How long a note has to last to count', min: 0, max: 1000, step: 10 },
+    { key: 'amplitudeLogScale', label: 'Contrast', title: 'Spectrogram brightness of quiet sounds', min: 0.1, max: 100, step: 0.1 },
+    { key: 'recordDurationMs', label: 'Record s', title: 'Longest recording', min: 1, max: 600, step: 1, scale: 1 / 1000 },
+];
+
+function sameSettings(a: AnalysisSettings, b: AnalysisSettings): boolean {
+    return (Object.keys(a) as (keyof AnalysisSettings)[]).every(key => a[key] === b[key]);
+}
+
+export const SettingsPanel = ({ settings, sampleRate, disabled, onChange }: SettingsPanelProps) => {
+    const [userPresets, setUserPresets] = useState(loadUserPresets);
+
+    const presets = { ...BUILT_IN_PRESETS, ...userPresets };
+    const presetName = Object.keys(presets).find(name => sameSettings(presets[name]!, settings)) ?? null;
+
+    // Through sanitizeSettings so typed values stay in range
+    const change = (changes: Partial<AnalysisSettings>) => {
+        onChange(sanitizeSettings({ ...settings, ...changes }));
+    };
+
+    const handleSavePreset = () => {
+        const name = prompt("Preset name", presetName ?? '')?.trim();
+        if (!name) return;
+        if (BUILT_IN_PRESETS[name]) {
+            alert("That is the name of a built in preset.");
+            return;
+        }
+        saveUserPreset(name, settings);
+        setUserPresets(loadUserPresets());
+    };
+
+    const handleDeletePreset = () => {
+        if (!presetName || !userPresets[presetName]) return;
+        deleteUserPreset(presetName);
+        setUserPresets(loadUserPresets());
+    };
+
+    return (
+        <div className="settings-panel" style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px', padding: '10px 0' }}>
+            <select
+                value={presetName ?? ''}
+                onChange={e => {
+                    const preset = presets[e.currentTarget.value];
+                    if (preset) onChange(preset);
+                }}
+                disabled={disabled}
+                title="Preset"
+            >
+                {presetName === null && <option value="">Custom</option>}
+                {Object.keys(presets).map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <button onClick={handleSavePreset} disabled={disabled} style={{ padding: '5px 10px' }}>
+                Save Preset
+            </button>
+            {presetName && userPresets[presetName] && (
+                <button onClick={handleDeletePreset} disabled={disabled} style={{ padding: '5px 10px' }}>
+                    Delete Preset
+                </button>
+            )}
+            <label
+                style={{ display: 'flex', alignItems: 'center', gap: '4px' }}
+                title={`Longer resolves lower notes, ${(sampleRate / settings.fftSize).toFixed(1)} Hz per bin, but reacts more slowly`}
+            >
+                FFT
+                <select value={settings.fftSize} onChange={e => change({ fftSize: parseInt(e.currentTarget.value, 10) })} disabled={disabled}>
+                    {FFT_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+                </select>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }} title="Highest frequency analysed and shown">
+                Max freq
+                <input
+                    type="range"
+                    min={0.01}
+                    max={0.5}
+                    step={0.01}
+                    value={settings.maxFreqScale}
+                    onInput={e => change({ maxFreqScale: parseFloat(e.currentTarget.value) })}
+                    disabled={disabled}
+                />
+                {(settings.maxFreqScale * sampleRate / 1000).toFixed(1)} kHz
+            </label>
+            {NUMERIC_FIELDS.map(({ key, label, title, min, max, step, scale = 1 }) => (
+                <label key={key} style={{ display: 'flex', alignItems: 'center', gap: '4px' }} title={title}>
+                    {label}
+                    <input
+                        type="number"
+                        min={min}
+                        max={max}
+                        step={step}
+                        value={settings[key] * scale}
+                        onChange={e => {
+                            const value = parseFloat(e.currentTarget.value);
+                            if (Number.isFinite(value)) change({ [key]: value / scale });
+                        }}
+                        disabled={disabled}
+                        style={{ width: '4em' }}
+                    />
+                </label>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,184 @@
+import { RecordedNote } from "./Recorder";
+import { DEFAULT_TUNING, notePitch, stepName, Tuning } from "./Tuning";
+
+// Recordings small enough to share as a link, packed into the URL fragment
+// ("#share=1.<data>") so they never reach a server.
+//
+// <data> is base64url of the deflate-raw compressed bytes of, in version 1:
+//
+//   varint    number of notes
+//   per note, in order of start time:
+//     varint  ms since the previous note's start (the first's since 0)
+//     byte    MIDI note number, 0-127
+//     varint  duration, ms
+//     byte    velocity, 1-127
+//
+// Varints are unsigned LEB128, 7 bits a byte, low bits first. Only the
+// nearest MIDI note survives, pitch bend and microtones are dropped. The
+// number before the "." is the version, a change to the bytes needs a new one.
+
+export const SHARE_LINK_VERSION = 1;
+export const MAX_SHARED_NOTES = 5000;
+export const MAX_SHARE_LINK_LENGTH = 16000; // Characters of fragment, much longer links get cut off by chat apps and browsers
+
+const FRAGMENT_KEY = 'share';
+const DEFAULT_VELOCITY = 100;
+const MAX_VARINT_BYTES = 5; // Up to 2^35, far beyond any time in ms
+const MAX_NOTE_BYTES = MAX_VARINT_BYTES * 2 + 2;
+const MAX_DECODED_BYTES = MAX_VARINT_BYTES + MAX_SHARED_NOTES * MAX_NOTE_BYTES;
+
+// Packs `recording` into a fragment for a link, "share=1.<data>". Throws
+// when it's too long for one.
+export async function encodeShareFragment(recording: RecordedNote[], tuning = DEFAULT_TUNING): Promise<string> {
+    const notes = toMidiNotes(recording, tuning);
+    if (notes.length === 0) throw new Error("There are no notes to share");
+    if (notes.length > MAX_SHARED_NOTES) throw new Error(`Links can hold at most ${MAX_SHARED_NOTES} notes`);
+
+    const bytes: number[] = [];
+    writeVarint(bytes, notes.length);
+    let previousStart = 0;
+    for (const note of notes) {
+        writeVarint(bytes, note.start - previousStart);
+        bytes.push(note.midi);
+        writeVarint(bytes, note.duration);
+        bytes.push(note.velocity);
+        previousStart = note.start;
+    }
+
+    const compressed = await transform(new Uint8Array(bytes), new CompressionStream('deflate-raw'), Infinity);
+    const fragment = `${FRAGMENT_KEY}=${SHARE_LINK_VERSION}.${toBase64Url(compressed)}`;
+    if (fragment.length > MAX_SHARE_LINK_LENGTH) throw new Error("The recording is too long to share as a link");
+    return fragment;
+}
+
+// The recording in a URL fragment ("#..." or without the "#"), null when it
+// has none. Throws when there is one but it can't be read.
+export async function decodeShareFragment(hash: string): Promise<RecordedNote[] | null> {
+    const value = new URLSearchParams(hash.replace(/^#/, '')).get(FRAGMENT_KEY);
+    if (value === null) return null;
+    if (value.length > MAX_SHARE_LINK_LENGTH) throw new Error("The link is too long");
+
+    const match = value.match(/^(\d+)\.([A-Za-z0-9_-]*)$/);
+    if (!match) throw new Error("The link is incomplete or damaged");
+    const version = parseInt(match[1]!, 10);
+    if (version > SHARE_LINK_VERSION) throw new Error("The link is from a newer version of the app");
+    if (version !== SHARE_LINK_VERSION) throw new Error(`Unknown link version ${version}`);
+
+    let bytes: Uint8Array;
+    try {
+        bytes = await transform(fromBase64Url(match[2]!), new DecompressionStream('deflate-raw'), MAX_DECODED_BYTES);
+    } catch {
+        throw new Error("The link is incomplete or damaged");
+    }
+    return readNotes(bytes);
+}
+
+interface MidiNote {
+    start: number; // ms, whole
+    midi: number;
+    duration: number; // ms, whole and at least 1
+    velocity: number;
+}
+
+// Notes without a MIDI equivalent are left out
+function toMidiNotes(recording: RecordedNote[], tuning: Tuning): MidiNote[] {
+    const notes: MidiNote[] = [];
+    for (const note of recording) {
+        const pitch = notePitch(note.note, tuning);
+        if (pitch === null) continue;
+        const midi = Math.round(pitch);
+        if (midi < 0 || midi > 127) continue;
+        notes.push({
+            start: Math.max(0, Math.round(note.startTime)),
+            midi,
+            duration: Math.max(1, Math.round(note.duration)),
+            velocity: Math.max(1, Math.min(127, Math.round(note.velocity ?? DEFAULT_VELOCITY))),
+        });
+    }
+    return notes.sort((a, b) => a.start - b.start);
+}
+
+function readNotes(bytes: Uint8Array): RecordedNote[] {
+    let offset = 0;
+    const readVarint = (): number => {
+        let value = 0;
+        for (let i = 0; i < MAX_VARINT_BYTES; i++) {
+            const byte = readByte();
+            value += (byte & 0x7f) * Math.pow(2, 7 * i);
+            if (byte < 0x80) return value;
+        }
+        throw new Error("The link is damaged");
+    };
+    const readByte = (): number => {
+        const byte = bytes[offset++];
+        if (byte === undefined) throw new Error("The link is incomplete");
+        return byte;
+    };
+
+    const count = readVarint();
+    if (count > MAX_SHARED_NOTES) throw new Error("The link has too many notes");
+    const recording: RecordedNote[] = [];
+    let start = 0;
+    for (let i = 0; i < count; i++) {
+        start += readVarint();
+        const midi = readByte();
+        const duration = readVarint();
+        const velocity = readByte();
+        if (midi > 127 || duration < 1 || velocity < 1 || velocity > 127) throw new Error("The link is damaged");
+        recording.push({ note: stepName(midi), startTime: start, duration, velocity });
+    }
+    if (offset !== bytes.length) throw new Error("The link is damaged");
+    return recording;
+}
+
+function writeVarint(bytes: number[], value: number) {
+    let remaining = value;
+    while (remaining >= 0x80) {
+        bytes.push((remaining % 0x80) | 0x80);
+        remaining = Math.floor(remaining / 0x80);
+    }
+    bytes.push(remaining);
+}
+
+// Streams `input` through a compression stream, giving up once the output
+// passes `maxLength` so a small link can't inflate into a huge one
+async function transform(input: Uint8Array, stream: CompressionStream | DecompressionStream, maxLength: number): Promise<Uint8Array> {
+    const writer = stream.writable.getWriter();
+    // Not awaited before reading, the stream only takes more input as output is read
+    const written = writer.write(input).then(() => writer.close());
+    written.catch(() => {});
+
+    const reader = stream.readable.getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        length += value.length;
+        if (length > maxLength) {
+            await reader.cancel();
+            throw new Error("Too large");
+        }
+        chunks.push(value);
+    }
+    await written;
+
+    const output = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+        output.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return output;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
@@ -3,6 +3,7 @@
 import { useEffect, useRef } from "preact/hooks";
 import * as THREE from "three";
 import { AMPLITUDE_LOG_SCALE, FREQ_BINS, HISTORY_SIZE, MAX_FREQ_SCALE } from "./Constants";
+import { AnalysisSettings, DEFAULT_SETTINGS } from "./Settings";
 
 interface SpectrogramProps {
     dataArray: Uint8Array | null;
@@ -150,12 +151,14 @@ export class SpectrogramController {
     private camera: THREE.OrthographicCamera;
     private texture: THREE.DataTexture;
     private textureData: Uint8Array;
+    private binCount: number; // Width of the texture, fftSize / 2
     private material: THREE.ShaderMaterial;
     private plane: THREE.Mesh;
 
-    constructor(canvas: HTMLCanvasElement) {
+    constructor(canvas: HTMLCanvasElement, settings = DEFAULT_SETTINGS) {
         this.canvas = canvas;
-        this.textureData = new Uint8Array(FREQ_BINS * HISTORY_SIZE).fill(0);
+        this.binCount = settings.fftSize / 2;
+        this.textureData = new Uint8Array(this.binCount * HISTORY_SIZE).fill(0);
 
         this.scene = new THREE.Scene();
         this.scene.background = new THREE.Color(0x000000);
@@ -166,23 +169,14 @@ export class SpectrogramController {
         this.renderer = new THREE.WebGLRenderer({ canvas, antialias: false });
         this.renderer.setSize(canvas.clientWidth, canvas.clientHeight);
 
-        this.texture = new THREE.DataTexture(
-            this.textureData,
-            FREQ_BINS,
-            HISTORY_SIZE,
-            THREE.RedFormat,
-            THREE.UnsignedByteType
-        );
-        this.texture.magFilter = THREE.LinearFilter;
-        this.texture.minFilter = THREE.LinearFilter;
-        this.texture.needsUpdate = true;
+        this.texture = this.createTexture();
 
         this.material = new THREE.ShaderMaterial({
             uniforms: {
                 uTexture: { value: this.texture },
-                uMaxFreqScale: { value: MAX_FREQ_SCALE },
-                uAmplitudeLogScale: { value: AMPLITUDE_LOG_SCALE },
-                uLogOfAmplitudeLogScale: { value: Math.log(1.0 + AMPLITUDE_LOG_SCALE) },
+                uMaxFreqScale: { value: settings.maxFreqScale },
+                uAmplitudeLogScale: { value: settings.amplitudeLogScale },
+                uLogOfAmplitudeLogScale: { value: Math.log(1.0 + settings.amplitudeLogScale) },
             },
             vertexShader: `
                 varying vec2 vUv;
@@ -209,12 +203,38 @@ export class SpectrogramController {
         this.scene.add(this.plane);
     }
 
-    update(dataArray: Uint8Array) {
-        const rowSize = FREQ_BINS;
+    // A new FFT size needs a texture of the new width, which starts empty
+    setSettings(settings: AnalysisSettings) {
+        const uniforms = this.material.uniforms;
+        uniforms.uMaxFreqScale!.value = settings.maxFreqScale;
+        uniforms.uAmplitudeLogScale!.value = settings.amplitudeLogScale;
+        uniforms.uLogOfAmplitudeLogScale!.value = Math.log(1.0 + settings.amplitudeLogScale);
+
+        if (settings.fftSize / 2 !== this.binCount) {
+            this.binCount = settings.fftSize / 2;
+            this.textureData = new Uint8Array(this.binCount * HISTORY_SIZE).fill(0);
+            this.texture.dispose();
+            this.texture = this.createTexture();
+            uniforms.uTexture!.value = this.texture;
+        }
+        this.render();
+    }
+
+    // Pass render = false when pushing many frames at once, e.g. offline
+    // file analysis, and call render() after the last one. Frames of
+    // another size, still in flight from before an FFT size change, are
+    // dropped.
+    update(dataArray: Uint8Array, render = true) {
+        if (dataArray.length !== this.binCount) return;
+        const rowSize = this.binCount;
         this.textureData.copyWithin(0, rowSize);
         const lastRowOffset = (HISTORY_SIZE - 1) * rowSize;
         this.textureData.set(dataArray, lastRowOffset);
         this.texture.needsUpdate = true;
+        if (render) this.render();
+    }
+
+    render() {
         this.renderer.render(this.scene, this.camera);
     }
 
@@ -224,6 +244,20 @@ export class SpectrogramController {
         this.canvas.height = height;
     }
 
+    private createTexture(): THREE.DataTexture {
+        const texture = new THREE.DataTexture(
+            this.textureData,
+            this.binCount,
+            HISTORY_SIZE,
+            THREE.RedFormat,
+            THREE.UnsignedByteType
+        );
+        texture.magFilter = THREE.LinearFilter;
+        texture.minFilter = THREE.LinearFilter;
+        texture.needsUpdate = true;
+        return texture;
+    }
+
     dispose() {
         this.renderer.dispose();
         this.texture.dispose();
@@ -0,0 +1,113 @@
+import { FFT_SIZE, MAX_DECIBELS, MIN_DECIBELS, SMOOTHING_TIME_CONSTANT } from "./Constants";
+import { blackmanWindow, FFT } from "./FFT";
+
+export interface AnalysisFrame {
+    frequencyData: Uint8Array;
+    floatFrequencyData: Float32Array; // dB
+    timeDomainData: Float32Array;
+    sampleRate: number;
+    timeMs: number;
+}
+
+// Pure TypeScript stand in for AnalyserNode following the Web Audio spec's
+// windowing, smoothing and decibel conversion, so frames computed here match
+// what the browser analyser gives for the same input
+// https://webaudio.github.io/web-audio-api/#fft-windowing-and-smoothing-over-time
+export class SpectrumAnalyser {
+    readonly fftSize: number;
+    readonly frequencyBinCount: number;
+    private smoothingTimeConstant: number;
+    private minDecibels: number;
+    private maxDecibels: number;
+    private fft: FFT;
+    private window: Float32Array;
+    private real: Float32Array;
+    private imag: Float32Array;
+    private smoothed: Float32Array;
+    private frequencyData: Uint8Array;
+    private floatFrequencyData: Float32Array;
+    private timeDomainData: Float32Array;
+    private padded: Float32Array;
+
+    constructor(
+        fftSize = FFT_SIZE,
+        smoothingTimeConstant = SMOOTHING_TIME_CONSTANT,
+        minDecibels = MIN_DECIBELS,
+        maxDecibels = MAX_DECIBELS,
+    ) {
+        this.fftSize = fftSize;
+        this.frequencyBinCount = fftSize / 2;
+        this.smoothingTimeConstant = smoothingTimeConstant;
+        this.minDecibels = minDecibels;
+        this.maxDecibels = maxDecibels;
+        this.fft = new FFT(fftSize);
+        this.window = blackmanWindow(fftSize);
+        this.real = new Float32Array(fftSize);
+        this.imag = new Float32Array(fftSize);
+        this.smoothed = new Float32Array(this.frequencyBinCount);
+        this.frequencyData = new Uint8Array(this.frequencyBinCount);
+        this.floatFrequencyData = new Float32Array(this.frequencyBinCount);
+        this.timeDomainData = new Float32Array(fftSize);
+        this.padded = new Float32Array(fftSize);
+    }
+
+    // `samples` is the most recent `fftSize` samples of input. The returned
+    // frame's arrays are reused by the next call.
+    process(samples: Float32Array, sampleRate: number, timeMs: number): AnalysisFrame {
+        if (samples.length !== this.fftSize) {
+            throw new Error(`Expected ${this.fftSize} samples, got ${samples.length}`);
+        }
+
+        this.timeDomainData.set(samples);
+        for (let i = 0; i < this.fftSize; i++) {
+            this.real[i] = samples[i]! * this.window[i]!;
+            this.imag[i] = 0;
+        }
+        this.fft.transform(this.real, this.imag);
+
+        const tau = this.smoothingTimeConstant;
+        const byteScale = 255 / (this.maxDecibels - this.minDecibels);
+        for (let k = 0; k < this.frequencyBinCount; k++) {
+            const re = this.real[k]!;
+            const im = this.imag[k]!;
+            const magnitude = Math.sqrt(re * re + im * im) / this.fftSize;
+            const smoothed = tau * this.smoothed[k]! + (1 - tau) * magnitude;
+            this.smoothed[k] = smoothed;
+
+            const db = 20 * Math.log10(smoothed);
+            this.floatFrequencyData[k] = db;
+            const byte = Math.floor(byteScale * (db - this.minDecibels));
+            this.frequencyData[k] = Math.max(0, Math.min(255, byte));
+        }
+
+        return {
+            frequencyData: this.frequencyData,
+            floatFrequencyData: this.floatFrequencyData,
+            timeDomainData: this.timeDomainData,
+            sampleRate,
+            timeMs,
+        };
+    }
+
+    // The frame at `end` samples into a whole recording, of the fftSize
+    // samples before it, zero padded before the start
+    processAt(recording: Float32Array, end: number, sampleRate: number): AnalysisFrame {
+        const start = end - this.fftSize;
+        if (start >= 0) {
+            this.padded.set(recording.subarray(start, end));
+        } else {
+            this.padded.fill(0, 0, -start);
+            this.padded.set(recording.subarray(0, end), -start);
+        }
+        return this.process(this.padded, sampleRate, end / sampleRate * 1000);
+    }
+
+    // Changing fftSize needs a new analyser
+    setSmoothingTimeConstant(smoothingTimeConstant: number) {
+        this.smoothingTimeConstant = smoothingTimeConstant;
+    }
+
+    reset() {
+        this.smoothed.fill(0);
+    }
+}
@@ -0,0 +1,312 @@
+import { CHORD_QUALITIES, ChordSegment, HarmonyTracks, KeySegment } from "./Harmony";
+import { DetectionMode } from "./NoteDetector";
+import { PitchContour, PitchPoint } from "./PitchContour";
+import { BeatGrid } from "./Quantize";
+import { RecordedNote } from "./Recorder";
+import { AnalysisSettings, sanitizeSettings } from "./Settings";
+import { sanitizeTuning, Tuning } from "./Tuning";
+import { DecodedAudio } from "./Wav";
+
+// Saved recordings ("takes"), kept in the browser's IndexedDB and passed
+// between machines as JSON files in this format:
+//
+//   {
+//     "format": "sound-analyser-takes",
+//     "version": 1,
+//     "takes": [
+//       {
+//         "name": "Verse, second try",
+//         "createdAt": "2025-01-31T12:00:00.000Z",   ISO 8601
+//         "updatedAt": "2025-01-31T12:05:00.000Z",
+//         "detectionMode": "monophonic",             "peaks", "monophonic" or "polyphonic"
+//         "settings": { "fftSize": 8192, ... },      AnalysisSettings, src/Settings.ts
+//         "tuning": { "referencePitch": 440, ... },  Tuning, src/Tuning.ts
+//         "beatGrid": { "bpm": 120, "offset": 0 },   or null
+//         "notes": [                                 RecordedNote, src/Recorder.ts
+//           { "note": "C4", "startTime": 0, "duration": 480, "velocity": 90 },
+//           ...
+//         ],
+//         "harmony": {                               HarmonyTracks, src/Harmony.ts, or null
+//           "chords": [{ "name": "Am", "root": 9, "quality": "min", "startTime": 0, "duration": 960, "confidence": 0.8 }, ...],
+//           "keys": [{ "name": "C", "tonic": 0, "mode": "major", "signature": { "fifths": 0, "mode": "major" },
+//                      "startTime": 0, "duration": 4000, "confidence": 0.7 }, ...]
+//         },
+//         "contour": [                               PitchContour, src/PitchContour.ts, or null
+//           { "time": 0, "frequency": 261.6, "cents": -1 },
+//           ...
+//         ]
+//       }
+//     ]
+//   }
+//
+// Times are in ms from the start of the take, note names are in its tuning.
+// Readers ignore fields they don't know and use the defaults for missing or
+// invalid ones, so fields can be added without a new version. Anything a
+// reader of the current version would misread gets a new version number,
+// and files from a newer version than the reader's are refused. The audio
+// recorded with a take stays in the browser, it is too large for JSON.
+
+export const TAKE_FILE_FORMAT = 'sound-analyser-takes';
+export const TAKE_FILE_VERSION = 1;
+
+const DATABASE_NAME = 'soundAnalyser';
+const DATABASE_VERSION = 1;
+const TAKES_STORE = 'takes'; // Take by id
+const AUDIO_STORE = 'takeAudio'; // DecodedAudio by take id, apart so listing takes doesn't load it
+
+const DETECTION_MODES: DetectionMode[] = ['peaks', 'monophonic', 'polyphonic'];
+
+// What a take keeps of a recording
+export interface TakeContent {
+    detectionMode: DetectionMode;
+    settings: AnalysisSettings; // Detected with
+    tuning: Tuning;
+    beatGrid: BeatGrid | null;
+    notes: RecordedNote[];
+    harmony: HarmonyTracks | null; // Chords and keys heard while recording
+    contour: PitchContour | null; // Only from monophonic mode
+}
+
+export interface Take extends TakeContent {
+    id: string; // Only meaningful in this browser, imports get new ones
+    name: string;
+    createdAt: number; // ms since 1970
+    updatedAt: number;
+    hasAudio: boolean;
+}
+
+function newTakeId(): string {
+    return typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function createTake(name: string, content: TakeContent, hasAudio: boolean): Take {
+    const now = Date.now();
+    return { ...content, id: newTakeId(), name, createdAt: now, updatedAt: now, hasAudio };
+}
+
+// Opened once and shared
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    database ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(TAKES_STORE)) db.createObjectStore(TAKES_STORE, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(AUDIO_STORE)) db.createObjectStore(AUDIO_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            database = null;
+            reject(request.error);
+        };
+    });
+    return database;
+}
+
+function completed(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+function result<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+// Newest first
+export async function listTakes(): Promise<Take[]> {
+    const db = await openDatabase();
+    const takes = await result(db.transaction(TAKES_STORE).objectStore(TAKES_STORE).getAll() as IDBRequest<Take[]>);
+    return takes.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// `audio` replaces the take's audio, undefined leaves it as it is
+export async function saveTake(take: Take, audio?: DecodedAudio | null) {
+    const db = await openDatabase();
+    const transaction = db.transaction([TAKES_STORE, AUDIO_STORE], 'readwrite');
+    const hasAudio = audio === undefined ? take.hasAudio : audio !== null;
+    transaction.objectStore(TAKES_STORE).put({ ...take, hasAudio });
+    if (audio) transaction.objectStore(AUDIO_STORE).put(audio, take.id);
+    else if (audio === null) transaction.objectStore(AUDIO_STORE).delete(take.id);
+    await completed(transaction);
+}
+
+export async function loadTakeAudio(id: string): Promise<DecodedAudio | null> {
+    const db = await openDatabase();
+    const audio = await result(db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).get(id) as IDBRequest<DecodedAudio | undefined>);
+    return audio ?? null;
+}
+
+export async function deleteTake(id: string) {
+    const db = await openDatabase();
+    const transaction = db.transaction([TAKES_STORE, AUDIO_STORE], 'readwrite');
+    transaction.objectStore(TAKES_STORE).delete(id);
+    transaction.objectStore(AUDIO_STORE).delete(id);
+    await completed(transaction);
+}
+
+export async function duplicateTake(take: Take, name: string): Promise<Take> {
+    const copy = createTake(name, take, take.hasAudio);
+    await saveTake(copy, take.hasAudio ? await loadTakeAudio(take.id) : null);
+    return copy;
+}
+
+export function exportTakes(takes: Take[]): string {
+    return JSON.stringify({
+        format: TAKE_FILE_FORMAT,
+        version: TAKE_FILE_VERSION,
+        takes: takes.map(take => ({
+            name: take.name,
+            createdAt: new Date(take.createdAt).toISOString(),
+            updatedAt: new Date(take.updatedAt).toISOString(),
+            detectionMode: take.detectionMode,
+            settings: take.settings,
+            tuning: take.tuning,
+            beatGrid: take.beatGrid,
+            notes: take.notes,
+            harmony: take.harmony,
+            contour: take.contour,
+        })),
+    }, null, 2);
+}
+
+// New takes, without audio, from a file in the format above. Throws when it
+// isn't one.
+export function importTakes(json: string): Take[] {
+    let file: unknown;
+    try {
+        file = JSON.parse(json);
+    } catch {
+        throw new Error("Not a JSON file");
+    }
+    const { format, version, takes } = (typeof file === 'object' && file !== null ? file : {}) as Record<string, unknown>;
+    if (format !== TAKE_FILE_FORMAT) throw new Error("Not a takes file");
+    if (typeof version !== 'number' || version < 1) throw new Error("Invalid version");
+    if (version > TAKE_FILE_VERSION) throw new Error(`Made by a newer version (${version}), this one reads up to ${TAKE_FILE_VERSION}`);
+    if (!Array.isArray(takes)) throw new Error("No takes in the file");
+    return takes.map((take, i) => sanitizeTake(take, `Take ${i + 1}`));
+}
+
+function sanitizeTake(value: unknown, defaultName: string): Take {
+    const stored = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+    const now = Date.now();
+    const time = (iso: unknown) => {
+        const ms = typeof iso === 'string' ? Date.parse(iso) : NaN;
+        return Number.isFinite(ms) ? ms : now;
+    };
+    const name = typeof stored.name === 'string' && stored.name.trim() ? stored.name.trim() : defaultName;
+    const take = createTake(name, {
+        detectionMode: DETECTION_MODES.includes(stored.detectionMode as DetectionMode) ? stored.detectionMode as DetectionMode : 'peaks',
+        settings: sanitizeSettings(stored.settings),
+        tuning: sanitizeTuning(stored.tuning),
+        beatGrid: sanitizeBeatGrid(stored.beatGrid),
+        notes: Array.isArray(stored.notes) ? stored.notes.flatMap(note => sanitizeNote(note) ?? []) : [],
+        harmony: sanitizeHarmony(stored.harmony),
+        contour: sanitizeContour(stored.contour),
+    }, false);
+    return { ...take, createdAt: time(stored.createdAt), updatedAt: time(stored.updatedAt) };
+}
+
+function sanitizeBeatGrid(value: unknown): BeatGrid | null {
+    const grid = value as Partial<Record<keyof BeatGrid, unknown>> | null;
+    if (typeof grid?.bpm !== 'number' || !(grid.bpm > 0) || typeof grid.offset !== 'number' || !Number.isFinite(grid.offset)) return null;
+    return { bpm: grid.bpm, offset: grid.offset };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Null when the note can't be played, optional fields that are invalid are
+// left out
+function sanitizeNote(value: unknown): RecordedNote | null {
+    if (typeof value !== 'object' || value === null) return null;
+    const stored = value as Partial<Record<keyof RecordedNote, unknown>>;
+    if (typeof stored.note !== 'string' || !stored.note) return null;
+    if (!isFiniteNumber(stored.startTime) || stored.startTime < 0) return null;
+    if (!isFiniteNumber(stored.duration) || stored.duration <= 0) return null;
+
+    const note: RecordedNote = { note: stored.note, startTime: stored.startTime, duration: stored.duration };
+    if (isFiniteNumber(stored.velocity)) note.velocity = Math.max(1, Math.min(127, Math.round(stored.velocity)));
+    if (isFiniteNumber(stored.onsetStrength)) note.onsetStrength = Math.max(0, Math.min(1, stored.onsetStrength));
+    if (Array.isArray(stored.pitchBend)) {
+        const points = stored.pitchBend.filter(p => isFiniteNumber(p?.time) && isFiniteNumber(p?.cents));
+        if (points.length > 0) note.pitchBend = points.map(p => ({ time: p.time, cents: p.cents }));
+    }
+    const vibrato = stored.vibrato as Record<string, unknown> | null | undefined;
+    if (vibrato && isFiniteNumber(vibrato.rate) && isFiniteNumber(vibrato.depth)) note.vibrato = { rate: vibrato.rate, depth: vibrato.depth };
+    if (isFiniteNumber(stored.portamento) && stored.portamento >= 0) note.portamento = stored.portamento;
+    return note;
+}
+
+function isSegmentTime(stored: { startTime?: unknown, duration?: unknown }): boolean {
+    return isFiniteNumber(stored.startTime) && stored.startTime >= 0 && isFiniteNumber(stored.duration) && stored.duration > 0;
+}
+
+function isPitchClass(value: unknown): value is number {
+    return Number.isInteger(value) && (value as number) >= 0 && (value as number) < 12;
+}
+
+function isMode(value: unknown): value is 'major' | 'minor' {
+    return value === 'major' || value === 'minor';
+}
+
+// Null when there is neither a chord nor a key, segments that are invalid
+// are left out
+function sanitizeHarmony(value: unknown): HarmonyTracks | null {
+    if (typeof value !== 'object' || value === null) return null;
+    const stored = value as Partial<Record<keyof HarmonyTracks, unknown>>;
+    const chords = Array.isArray(stored.chords) ? stored.chords.flatMap(chord => sanitizeChord(chord) ?? []) : [];
+    const keys = Array.isArray(stored.keys) ? stored.keys.flatMap(key => sanitizeKey(key) ?? []) : [];
+    return chords.length > 0 || keys.length > 0 ? { chords, keys } : null;
+}
+
+function sanitizeChord(value: unknown): ChordSegment | null {
+    if (typeof value !== 'object' || value === null) return null;
+    const stored = value as Partial<Record<keyof ChordSegment, unknown>>;
+    if (typeof stored.name !== 'string' || !isPitchClass(stored.root) || !isSegmentTime(stored)) return null;
+    if (typeof stored.quality !== 'string' || !Object.keys(CHORD_QUALITIES).includes(stored.quality)) return null;
+    return {
+        name: stored.name,
+        root: stored.root,
+        quality: stored.quality,
+        startTime: stored.startTime as number,
+        duration: stored.duration as number,
+        confidence: isFiniteNumber(stored.confidence) ? stored.confidence : 0,
+    };
+}
+
+function sanitizeKey(value: unknown): KeySegment | null {
+    if (typeof value !== 'object' || value === null) return null;
+    const stored = value as Partial<Record<keyof KeySegment, unknown>>;
+    const signature = stored.signature as Record<string, unknown> | null | undefined;
+    if (typeof stored.name !== 'string' || !isPitchClass(stored.tonic) || !isMode(stored.mode) || !isSegmentTime(stored)) return null;
+    if (!signature || !Number.isInteger(signature.fifths) || Math.abs(signature.fifths as number) > 7 || !isMode(signature.mode)) return null;
+    return {
+        name: stored.name,
+        tonic: stored.tonic,
+        mode: stored.mode,
+        signature: { fifths: signature.fifths as number, mode: signature.mode },
+        startTime: stored.startTime as number,
+        duration: stored.duration as number,
+        confidence: isFiniteNumber(stored.confidence) ? stored.confidence : 0,
+    };
+}
+
+// Null when no point is usable, kept in time order
+function sanitizeContour(value: unknown): PitchContour | null {
+    if (!Array.isArray(value)) return null;
+    const points = value.flatMap((p): PitchPoint[] => {
+        if (!isFiniteNumber(p?.time) || p.time < 0 || !isFiniteNumber(p?.frequency) || p.frequency <= 0) return [];
+        return [{ time: p.time, frequency: p.frequency, cents: isFiniteNumber(p.cents) ? p.cents : 0 }];
+    });
+    return points.length > 0 ? points.sort((a, b) => a.time - b.time) : null;
+}
@@ -0,0 +1,62 @@
+import { OFFLINE_HOP_SIZE } from "./Constants";
+import { NoiseProfile, subtractNoise } from "./NoiseProfile";
+import { DetectionMode, NoteDetector } from "./NoteDetector";
+import { applyPitchContour, PitchContourRecorder } from "./PitchContour";
+import { RecordedNote, Recorder } from "./Recorder";
+import { AnalysisSettings, DEFAULT_SETTINGS, notesToRecord } from "./Settings";
+import { SpectrumAnalyser } from "./SpectrumAnalyser";
+import { Tuning } from "./Tuning";
+import { decodeWav, mixToMono } from "./Wav";
+
+// Headless equivalent of the DemoSim analysis loop: no DOM, AnalyserNode or
+// requestAnimationFrame, so the same PCM always gives the same notes, in the
+// browser or under Node.
+
+export interface TranscribeOptions {
+    mode?: DetectionMode; // Defaults to 'peaks'
+    hopSize?: number; // Samples between analysis frames
+    settings?: AnalysisSettings; // Defaults to DEFAULT_SETTINGS, recordDurationMs is ignored
+    maxNotes?: number; // Maximum simultaneous notes recorded, defaults to twice settings.notesToShow
+    tuning?: Tuning; // Of the note names, defaults to A4 = 440Hz equal temperament
+    noiseProfile?: NoiseProfile; // Thresholds relative to this noise rather than fixed
+    subtractNoise?: boolean; // Also remove the noise profile from each spectrum
+}
+
+export function transcribe(samples: Float32Array, sampleRate: number, options: TranscribeOptions = {}): RecordedNote[] {
+    const mode = options.mode ?? 'peaks';
+    const hopSize = options.hopSize ?? OFFLINE_HOP_SIZE;
+
+    const settings = options.settings ?? DEFAULT_SETTINGS;
+    const analyser = new SpectrumAnalyser(settings.fftSize, settings.smoothingTimeConstant);
+    const detector = new NoteDetector(settings);
+    if (options.tuning) detector.setTuning(options.tuning);
+    const noiseProfile = options.noiseProfile ?? null;
+    detector.setNoiseProfile(noiseProfile);
+    const durationMs = samples.length / sampleRate * 1000;
+    // +1 so the recorder does not stop itself before the last frame
+    const recorder = new Recorder(durationMs + 1, options.maxNotes ?? notesToRecord(settings));
+
+    // The pitch tracker only runs in monophonic mode
+    const contour = new PitchContourRecorder();
+    if (options.tuning) contour.setTuning(options.tuning);
+
+    recorder.start(0);
+    contour.start(0);
+    // The same frames as AudioEngine.analyseFileOffline gives for a file
+    for (let end = hopSize; end < samples.length; end += hopSize) {
+        const frame = analyser.processAt(samples, end, sampleRate);
+        if (noiseProfile && options.subtractNoise) subtractNoise(frame, noiseProfile);
+        recorder.update(detector.detectFrame(frame, mode), frame.timeMs);
+        contour.update(detector.getLastPitch(), frame.timeMs);
+    }
+    recorder.stop(durationMs);
+
+    return mode === 'monophonic'
+        ? applyPitchContour(recorder.getRecording(), contour.getContour(), options.tuning)
+        : recorder.getRecording();
+}
+
+export function transcribeWav(bytes: ArrayBuffer, options: TranscribeOptions = {}): RecordedNote[] {
+    const { sampleRate, channelData } = decodeWav(bytes);
+    return transcribe(mixToMono(channelData), sampleRate, options);
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "preact/hooks";
+
+import { MonitorMode, PlaybackState, Player } from "./Player";
+import { RecordedNote } from "./Recorder";
+import { DecodedAudio } from "./Wav";
+
+interface TransportPanelProps {
+    player: Player;
+    recording: RecordedNote[];
+    audio: DecodedAudio | null; // Recorded with the notes, to compare against them
+}
+
+const STATE_POLL_INTERVAL = 100; // ms
+const RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2];
+
+function formatTime(ms: number): string {
+    const seconds = ms / 1000;
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+}
+
+export const TransportPanel = ({ player, recording, audio }: TransportPanelProps) => {
+    const [state, setState] = useState<PlaybackState>(() => player.getState());
+
+    // Edits while playing are heard from the next note scheduled
+    useEffect(() => {
+        player.update(recording);
+        setState(player.getState());
+    }, [recording]);
+
+    useEffect(() => {
+        player.setOriginal(audio);
+        setState(player.getState());
+    }, [audio]);
+
+    // The player has no events so poll it for the position display
+    useEffect(() => {
+        const id = setInterval(() => setState(player.getState()), STATE_POLL_INTERVAL);
+        return () => {
+            clearInterval(id);
+            player.stop();
+        };
+    }, [player]);
+
+    const handleTogglePlay = async () => {
+        if (player.getState().status === 'playing') player.pause();
+        else await player.resume();
+        setState(player.getState());
+    };
+
+    const handleStop = () => {
+        player.stop();
+        setState(player.getState());
+    };
+
+    const handleRate = (rate: number) => {
+        player.setRate(rate);
+        setState(player.getState());
+    };
+
+    const handleTranspose = (semitones: number) => {
+        if (!Number.isFinite(semitones)) return;
+        player.setTranspose(Math.max(-12, Math.min(12, semitones)));
+        setState(player.getState());
+    };
+
+    const handleMonitor = (mode: MonitorMode) => {
+        player.setMonitor(mode);
+        setState(player.getState());
+    };
+
+    const handleClearLoop = () => {
+        player.setLoop(null);
+        setState(player.getState());
+    };
+
+    return (
+        <div className="transport-panel" style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px', padding: '10px 0' }}>
+            <button onClick={handleTogglePlay} style={{ padding: '5px 10px', background: 'green', color: 'white' }}>
+                {state.status === 'playing' ? 'Pause' : 'Play'}
+            </button>
+            <button onClick={handleStop} disabled={state.status === 'stopped'} style={{ padding: '5px 10px' }}>
+                Stop
+            </button>
+            <span style={{ fontFamily: 'monospace' }}>
+                {formatTime(state.position)} / {formatTime(state.duration)}
+            </span>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                Rate
+                <select value={state.rate} onChange={e => handleRate(parseFloat(e.currentTarget.value))}>
+                    {RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+                </select>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }} title="Semitones">
+                Transpose
+                <input
+                    type="number"
+                    min={-12}
+                    max={12}
+                    step={1}
+                    value={state.transpose}
+                    onChange={e => handleTranspose(parseInt(e.currentTarget.value, 10))}
+                    style={{ width: '4em' }}
+                />
+            </label>
+            {audio && (
+                <>
+                    <select value={state.monitor} onChange={e => handleMonitor(e.currentTarget.value as MonitorMode)} title="What to hear">
+                        <option value="notes">Notes (A)</option>
+                        <option value="original">Original (B)</option>
+                        <option value="mix">Mix</option>
+                    </select>
+                    <button
+                        onClick={() => handleMonitor(state.monitor === 'notes' ? 'original' : 'notes')}
+                        style={{ padding: '5px 10px' }}
+                        title="Switch between the notes and the original at the same position"
+                    >
+                        A/B
+                    </button>
+                </>
+            )}
+            {state.loop ? (
+                <>
+                    <span>Loop {formatTime(state.loop.start)}–{formatTime(state.loop.end)}</span>
+                    <button onClick={handleClearLoop} style={{ padding: '5px 10px' }}>
+                        Clear Loop
+                    </button>
+                </>
+            ) : (
+                <span style={{ color: '#888' }}>Click the timeline to seek, drag to loop</span>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,135 @@
+import { PitchEstimate } from "./PitchTracker";
+import { centsBetween, DEFAULT_TUNING, nearestNote, noteStep, stepFrequency, stepName, Tuning } from "./Tuning";
+
+const WINDOW_MS = 400; // Estimates the reading is taken from
+const HOLD_MS = 1500; // Keep showing the last reading this long after the pitch stops
+const STABLE_SPREAD = 1; // cents, spread counted as perfectly stable
+const UNSTABLE_SPREAD = 15; // cents, spread counted as not stable at all
+const MIN_CONFIDENCE = 0.9;
+const MIN_STABLE_ESTIMATES = 8; // Fewer than this can't show the note is steady
+
+export interface TuningTarget {
+    name: string;
+    notes: string[]; // Lowest string first
+}
+
+// Null target = chromatic, whatever note is nearest
+export const TUNING_TARGETS: TuningTarget[] = [
+    { name: 'Guitar', notes: ['E2', 'A2', 'D3', 'G3', 'B3', 'E4'] },
+    { name: 'Bass', notes: ['E1', 'A1', 'D2', 'G2'] },
+    { name: 'Ukulele', notes: ['G4', 'C4', 'E4', 'A4'] },
+    { name: 'Violin', notes: ['G3', 'D4', 'A4', 'E5'] },
+    { name: 'Viola', notes: ['C3', 'G3', 'D4', 'A4'] },
+    { name: 'Cello', notes: ['C2', 'G2', 'D3', 'A3'] },
+];
+
+export interface TunerReading {
+    frequency: number; // Hz, median of the recent estimates
+    note: string; // Being tuned to
+    targetFrequency: number; // Hz, of `note` in the tuning
+    cents: number; // Positive = sharp
+    stability: number; // 0-1, 1 = steady to within STABLE_SPREAD
+    string: number | null; // Index into the target's notes
+    held: boolean; // No pitch now, showing the last one
+}
+
+interface Estimate {
+    time: number; // ms
+    frequency: number;
+}
+
+// Turns the pitch tracker's estimates into a steady reading: the median
+// frequency over a short window so one bad frame doesn't kick the needle,
+// and how much the estimates spread as a measure of how settled the note is
+export class Tuner {
+    private estimates: Estimate[] = [];
+    private tuning = DEFAULT_TUNING;
+    private target: TuningTarget | null = null;
+    private lastReading: TunerReading | null = null;
+    private lastPitchTime = -Infinity;
+
+    setTuning(tuning: Tuning) {
+        this.tuning = tuning;
+    }
+
+    setTarget(target: TuningTarget | null) {
+        this.target = target;
+    }
+
+    update(pitch: PitchEstimate | null, nowMs: number) {
+        this.estimates = this.estimates.filter(e => nowMs - e.time <= WINDOW_MS);
+        if (pitch && pitch.confidence >= MIN_CONFIDENCE) {
+            // A new note clears out the old one's estimates
+            const last = this.estimates[this.estimates.length - 1];
+            if (last && Math.abs(centsBetween(last.frequency, pitch.frequency)) > 50) this.estimates = [];
+            this.estimates.push({ time: nowMs, frequency: pitch.frequency });
+            this.lastPitchTime = nowMs;
+        }
+
+        if (this.estimates.length > 0) {
+            this.lastReading = this.read();
+        } else if (this.lastReading && nowMs - this.lastPitchTime > HOLD_MS) {
+            this.lastReading = null;
+        } else if (this.lastReading) {
+            this.lastReading = { ...this.lastReading, held: true };
+        }
+    }
+
+    getReading(): TunerReading | null {
+        return this.lastReading;
+    }
+
+    reset() {
+        this.estimates = [];
+        this.lastReading = null;
+        this.lastPitchTime = -Infinity;
+    }
+
+    private read(): TunerReading | null {
+        const frequencies = this.estimates.map(e => e.frequency).sort((a, b) => a - b);
+        const frequency = frequencies[Math.floor(frequencies.length / 2)]!;
+
+        let step: number;
+        let targetFrequency: number;
+        let string: number | null = null;
+        if (this.target) {
+            // The string closest in pitch, strings missing from the tuning are skipped
+            let bestCents = Infinity;
+            step = 0;
+            targetFrequency = 0;
+            for (let i = 0; i < this.target.notes.length; i++) {
+                const stringStep = noteStep(this.target.notes[i]!, this.tuning);
+                const stringFrequency = stringStep === null ? null : stepFrequency(stringStep, this.tuning);
+                if (stringStep === null || stringFrequency === null) continue;
+                const cents = Math.abs(centsBetween(stringFrequency, frequency));
+                if (cents < bestCents) {
+                    bestCents = cents;
+                    step = stringStep;
+                    targetFrequency = stringFrequency;
+                    string = i;
+                }
+            }
+            if (string === null) return null;
+        } else {
+            const nearest = nearestNote(frequency, this.tuning);
+            if (!nearest) return null;
+            step = nearest.step;
+            targetFrequency = stepFrequency(step, this.tuning)!;
+        }
+
+        const cents = frequencies.map(f => centsBetween(targetFrequency, f));
+        const spread = Math.max(...cents) - Math.min(...cents);
+        const stability = Math.max(0, Math.min(1, (UNSTABLE_SPREAD - spread) / (UNSTABLE_SPREAD - STABLE_SPREAD)))
+            * Math.min(1, frequencies.length / MIN_STABLE_ESTIMATES);
+
+        return {
+            frequency,
+            note: stepName(step, this.tuning),
+            targetFrequency,
+            cents: centsBetween(targetFrequency, frequency),
+            stability,
+            string,
+            held: false,
+        };
+    }
+}
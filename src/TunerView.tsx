@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from "preact/hooks";
+
+import { Tuner, TUNING_TARGETS } from "./Tuner";
+import { Tuning } from "./Tuning";
+import { TuningPanel } from "./TuningPanel";
+
+interface TunerViewProps {
+    tuner: Tuner; // Fed pitch estimates by the owner
+    tuning: Tuning;
+    onTuningChange: (tuning: Tuning) => void;
+}
+
+const NEEDLE_RANGE = 50; // cents either side of centre
+const NEEDLE_ANGLE = 60; // degrees at full deflection
+const IN_TUNE_CENTS = 3;
+const CLOSE_CENTS = 10;
+const TICKS = [-50, -25, -10, 0, 10, 25, 50];
+
+function needleColour(cents: number): string {
+    const off = Math.abs(cents);
+    if (off <= IN_TUNE_CENTS) return 'limegreen';
+    if (off <= CLOSE_CENTS) return 'gold';
+    return 'tomato';
+}
+
+export const TunerView = ({ tuner, tuning, onTuningChange }: TunerViewProps) => {
+    const [targetIndex, setTargetIndex] = useState<number | null>(null);
+    const [activeString, setActiveString] = useState<number | null>(null);
+    const noteRef = useRef<HTMLDivElement>(null);
+    const centsRef = useRef<HTMLDivElement>(null);
+    const frequencyRef = useRef<HTMLDivElement>(null);
+    const needleRef = useRef<HTMLDivElement>(null);
+    const stabilityRef = useRef<HTMLDivElement>(null);
+
+    const target = targetIndex === null ? null : TUNING_TARGETS[targetIndex] ?? null;
+
+    useEffect(() => {
+        tuner.setTarget(target);
+    }, [tuner, target]);
+
+    // Drawn directly rather than through state, it changes every frame
+    useEffect(() => {
+        let animationId: number;
+        const draw = () => {
+            animationId = requestAnimationFrame(draw);
+            const reading = tuner.getReading();
+            setActiveString(reading?.string ?? null);
+            if (!noteRef.current || !centsRef.current || !frequencyRef.current || !needleRef.current || !stabilityRef.current) return;
+
+            if (!reading) {
+                noteRef.current.textContent = '—';
+                centsRef.current.textContent = '';
+                frequencyRef.current.textContent = '';
+                needleRef.current.style.transform = 'rotate(0deg)';
+                needleRef.current.style.background = '#666';
+                stabilityRef.current.style.width = '0%';
+                return;
+            }
+
+            const cents = Math.max(-NEEDLE_RANGE, Math.min(NEEDLE_RANGE, reading.cents));
+            noteRef.current.textContent = reading.note;
+            noteRef.current.style.opacity = reading.held ? '0.5' : '1';
+            centsRef.current.textContent = `${reading.cents >= 0 ? '+' : ''}${reading.cents.toFixed(1)}¢`;
+            frequencyRef.current.textContent = `${reading.frequency.toFixed(2)} Hz → ${reading.targetFrequency.toFixed(2)} Hz`;
+            needleRef.current.style.transform = `rotate(${cents / NEEDLE_RANGE * NEEDLE_ANGLE}deg)`;
+            needleRef.current.style.background = reading.held ? '#666' : needleColour(reading.cents);
+            stabilityRef.current.style.width = `${reading.stability * 100}%`;
+        };
+        animationId = requestAnimationFrame(draw);
+        return () => cancelAnimationFrame(animationId);
+    }, [tuner]);
+
+    return (
+        <div className="tuner" style={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            gap: '8px',
+            padding: '10px',
+            color: 'white',
+            background: 'rgba(0,0,0,0.8)',
+        }}>
+            <div style={{ position: 'relative', width: '280px', height: '150px', overflow: 'hidden' }}>
+                {TICKS.map(tick => (
+                    <div key={tick} style={{
+                        position: 'absolute',
+                        left: '139px',
+                        bottom: 0,
+                        width: '2px',
+                        height: '140px',
+                        transformOrigin: 'bottom center',
+                        transform: `rotate(${tick / NEEDLE_RANGE * NEEDLE_ANGLE}deg)`,
+                        background: `linear-gradient(to bottom, ${tick === 0 ? 'white' : '#888'} 0 ${tick === 0 ? 16 : 10}px, transparent 0)`,
+                    }} />
+                ))}
+                <div ref={needleRef} style={{
+                    position: 'absolute',
+                    left: '139px',
+                    bottom: 0,
+                    width: '3px',
+                    height: '125px',
+                    transformOrigin: 'bottom center',
+                    background: '#666',
+                    transition: 'transform 0.08s linear',
+                }} />
+            </div>
+            <div ref={noteRef} style={{ fontSize: '40px', fontFamily: 'monospace', fontWeight: 'bold' }}>—</div>
+            <div ref={centsRef} style={{ fontFamily: 'monospace', fontSize: '18px' }} />
+            <div ref={frequencyRef} style={{ fontFamily: 'monospace' }} />
+            <div style={{ width: '200px', height: '6px', background: '#333' }} title="Stability">
+                <div ref={stabilityRef} style={{ height: '100%', width: '0%', background: 'deepskyblue' }} />
+            </div>
+            {target && (
+                <div style={{ display: 'flex', gap: '6px' }}>
+                    {target.notes.map((note, i) => (
+                        <span key={i} style={{
+                            padding: '2px 6px',
+                            fontFamily: 'monospace',
+                            border: '1px solid #888',
+                            background: activeString === i ? '#2a6' : 'transparent',
+                        }}>
+                            {note}
+                        </span>
+                    ))}
+                </div>
+            )}
+            <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', justifyContent: 'center', gap: '10px' }}>
+                <select
+                    value={targetIndex ?? ''}
+                    onChange={e => setTargetIndex(e.currentTarget.value === '' ? null : parseInt(e.currentTarget.value, 10))}
+                    title="Strings to tune to"
+                >
+                    <option value="">Chromatic</option>
+                    {TUNING_TARGETS.map((t, i) => <option key={t.name} value={i}>{t.name} ({t.notes.join(' ')})</option>)}
+                </select>
+            </div>
+            <TuningPanel tuning={tuning} onChange={onTuningChange} />
+        </div>
+    );
+};
@@ -0,0 +1,370 @@
+import { degreeCents, KeyboardMapping, keyDegree, referenceDegree, ScalaScale } from "./Scala";
+
+// The pitch model shared by detection, recording and playback: what
+// frequency each note of a tuning sounds at and what it is called.
+//
+// Notes are numbered by integer steps. In twelve note temperaments and
+// Scala tunings a step is a MIDI key, in an EDO (equal division of the
+// octave into N) it is (octave + 1) * N + degree, so C-1 is step 0 in both.
+// Names are scientific pitch notation carried over to any EDO by the chain
+// of fifths, with "^" and "v" raising and lowering by one step where the
+// sharps and flats don't reach, e.g. quarter tones in 24-EDO: "^C4" is a
+// quarter tone above C4, "vE4" a quarter tone below E4.
+
+export type Temperament = 'equal' | 'just' | 'pythagorean' | 'meantone';
+
+export type Spelling = 'sharps' | 'flats';
+
+export type TuningSystem =
+    // The non-equal temperaments are built up from `tonic`, the pitch class
+    // 0-11 (0 = C), so are only in tune for keys near it
+    | { kind: 'temperament', temperament: Temperament, tonic: number }
+    | { kind: 'edo', divisions: number }
+    | { kind: 'scala', name: string, scale: ScalaScale, keyboard: KeyboardMapping | null };
+
+export interface Tuning {
+    referencePitch: number; // Hz of A4, a Scala keyboard mapping has its own reference in its place
+    system: TuningSystem;
+    spelling: Spelling; // Of the notes between naturals, "C#" or "Db"
+}
+
+export const DEFAULT_TUNING: Tuning = {
+    referencePitch: 440,
+    system: { kind: 'temperament', temperament: 'equal', tonic: 0 },
+    spelling: 'sharps',
+};
+
+export const MIN_REFERENCE_PITCH = 400; // Hz, below baroque A415
+export const MAX_REFERENCE_PITCH = 480; // Hz
+export const MIN_EDO = 5;
+export const MAX_EDO = 72;
+export const COMMON_EDOS = [12, 17, 19, 22, 24, 31, 41, 53];
+
+export const TEMPERAMENT_LABELS: Record<Temperament, string> = {
+    equal: 'Equal',
+    just: 'Just (5-limit)',
+    pythagorean: 'Pythagorean',
+    meantone: '¼-comma meantone',
+};
+
+function ratiosToCents(ratios: number[]): number[] {
+    return ratios.map(ratio => 1200 * Math.log2(ratio));
+}
+
+// Fifths from Eb to G# of 1200 * log2(5) / 4 cents, each brought into the
+// octave above the tonic
+function meantoneCents(): number[] {
+    const fifth = 1200 * Math.log2(5) / 4;
+    const cents = new Array<number>(12).fill(0);
+    for (let fifths = -3; fifths <= 8; fifths++) {
+        const pitchClass = ((fifths * 7) % 12 + 12) % 12;
+        cents[pitchClass] = ((fifths * fifth) % 1200 + 1200) % 1200;
+    }
+    return cents;
+}
+
+// Cents above the tonic of each semitone of the scale
+const TEMPERAMENT_CENTS: Record<Temperament, number[]> = {
+    equal: Array.from({ length: 12 }, (_, i) => i * 100),
+    just: ratiosToCents([1, 16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8]),
+    pythagorean: ratiosToCents([1, 256 / 243, 9 / 8, 32 / 27, 81 / 64, 4 / 3, 729 / 512, 3 / 2, 128 / 81, 27 / 16, 16 / 9, 243 / 128]),
+    meantone: meantoneCents(),
+};
+
+// Cents the temperament moves `midi` from equal temperament, relative to A
+// so A4 stays on the reference pitch
+function temperamentOffset(midi: number, temperament: Temperament, tonic: number): number {
+    const cents = TEMPERAMENT_CENTS[temperament];
+    const offset = (pitchClass: number) => {
+        const degree = ((pitchClass - tonic) % 12 + 12) % 12;
+        return cents[degree]! - degree * 100;
+    };
+    return offset(((midi % 12) + 12) % 12) - offset(9);
+}
+
+const NATURALS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const NATURAL_FIFTHS = [0, 2, 4, -1, 1, 3, 5]; // Fifths above C of each natural
+const MAX_ACCIDENTALS = 2; // Double sharp or flat
+
+interface EdoLayout {
+    naturals: number[]; // Degree of each of NATURALS
+    sharp: number; // Steps a sharp raises by, 7 fifths less 4 octaves
+}
+
+// Naturals are stacked fifths of the EDO's closest step count to 3/2
+function edoLayout(divisions: number): EdoLayout {
+    const fifth = Math.round(divisions * Math.log2(3 / 2));
+    return {
+        naturals: NATURAL_FIFTHS.map(fifths => ((fifths * fifth) % divisions + divisions) % divisions),
+        sharp: 7 * fifth - 4 * divisions,
+    };
+}
+
+const degreeNameCache = new Map<string, string[]>();
+
+// Name of each degree of the octave without the octave number: the natural
+// needing the fewest ups, downs, sharps and flats, then the fewest ups or
+// downs, then the preferred spelling
+function degreeNames(divisions: number, spelling: Spelling): string[] {
+    const key = `${divisions} ${spelling}`;
+    const cached = degreeNameCache.get(key);
+    if (cached) return cached;
+
+    const { naturals, sharp } = edoLayout(divisions);
+    const names: string[] = [];
+    for (let degree = 0; degree < divisions; degree++) {
+        let best: { name: string, score: number[] } | null = null;
+        for (let i = 0; i < NATURALS.length; i++) {
+            // Without a sharp bigger than a step only ups and downs can tell notes apart
+            for (let accidentals = -MAX_ACCIDENTALS; accidentals <= MAX_ACCIDENTALS; accidentals++) {
+                if (accidentals !== 0 && sharp <= 0) continue;
+                const ups = degree - naturals[i]! - accidentals * sharp;
+                const unwanted = spelling === 'sharps' ? accidentals < 0 : accidentals > 0;
+                const score = [Math.abs(ups) + Math.abs(accidentals), Math.abs(ups), unwanted ? 1 : 0];
+                if (best && !lessThan(score, best.score)) continue;
+                const name = (ups > 0 ? '^'.repeat(ups) : 'v'.repeat(-ups))
+                    + NATURALS[i]
+                    + (accidentals > 0 ? '#'.repeat(accidentals) : 'b'.repeat(-accidentals));
+                best = { name, score };
+            }
+        }
+        names.push(best!.name);
+    }
+    degreeNameCache.set(key, names);
+    return names;
+}
+
+function lessThan(a: number[], b: number[]): boolean {
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) return a[i]! < b[i]!;
+    }
+    return false;
+}
+
+function edoName(step: number, divisions: number, spelling: Spelling): string {
+    const degree = ((step % divisions) + divisions) % divisions;
+    return `${degreeNames(divisions, spelling)[degree]}${Math.floor(step / divisions) - 1}`;
+}
+
+// Any spelling is accepted, not just the one names are given in
+function edoStep(name: string, divisions: number): number | null {
+    const match = name.match(/^(\^+|v+)?([A-G])(#{1,2}|b{1,2})?(-?\d+)$/);
+    if (!match) return null;
+    const { naturals, sharp } = edoLayout(divisions);
+    const ups = match[1] ? match[1].length * (match[1][0] === '^' ? 1 : -1) : 0;
+    const accidentals = match[3] ? match[3].length * (match[3][0] === '#' ? 1 : -1) : 0;
+    const octave = parseInt(match[4]!, 10);
+    return (octave + 1) * divisions + naturals[NATURALS.indexOf(match[2]!)]! + accidentals * sharp + ups;
+}
+
+interface ScalaKey {
+    frequency: number | null; // Hz, null when unmapped
+    name: string;
+}
+
+const scalaKeyCache = new WeakMap<TuningSystem, { referencePitch: number, spelling: Spelling, keys: ScalaKey[] }>();
+
+// Scales of twelve notes, or mapped to a twelve key pattern, are played
+// from a piano keyboard so their keys go by its note names. Otherwise a key
+// is named by its degree and period, "degree:period" with the period
+// numbered so middle C's is 4.
+function scalaKeys(system: Extract<TuningSystem, { kind: 'scala' }>, tuning: Tuning): ScalaKey[] {
+    const cached = scalaKeyCache.get(system);
+    if (cached && cached.referencePitch === tuning.referencePitch && cached.spelling === tuning.spelling) return cached.keys;
+
+    const { scale, keyboard } = system;
+    const size = scale.cents.length;
+    const pianoNames = size === 12 || keyboard?.size === 12;
+    // Without a mapping, as in Scala, middle C is degree 0 and tuned to
+    // equal temperament from the reference pitch
+    const degreeOf = (key: number) => keyboard ? keyDegree(key, keyboard) : key - 60;
+    const referenceCents = keyboard ? degreeCents(referenceDegree(keyboard), scale) : 0;
+    const referenceFrequency = keyboard?.referenceFrequency ?? tuning.referencePitch * Math.pow(2, -9 / 12);
+
+    const keys: ScalaKey[] = [];
+    for (let key = 0; key <= 127; key++) {
+        const degree = degreeOf(key);
+        if (degree === null) {
+            keys.push({ frequency: null, name: '' });
+            continue;
+        }
+        const frequency = referenceFrequency * Math.pow(2, (degreeCents(degree, scale) - referenceCents) / 1200);
+        const name = pianoNames
+            ? edoName(key, 12, tuning.spelling)
+            : `${((degree % size) + size) % size}:${Math.floor(degree / size) + 4}`;
+        keys.push({ frequency, name });
+    }
+    scalaKeyCache.set(system, { referencePitch: tuning.referencePitch, spelling: tuning.spelling, keys });
+    return keys;
+}
+
+// Frequency of the note `step` (an integer) in the tuning, null when the
+// tuning has no such note
+export function stepFrequency(step: number, tuning = DEFAULT_TUNING): number | null {
+    const system = tuning.system;
+    switch (system.kind) {
+        case 'temperament': {
+            const cents = (step - 69) * 100 + temperamentOffset(step, system.temperament, system.tonic);
+            return tuning.referencePitch * Math.pow(2, cents / 1200);
+        }
+        case 'edo': {
+            const a4 = 5 * system.divisions + edoLayout(system.divisions).naturals[5]!;
+            return tuning.referencePitch * Math.pow(2, (step - a4) / system.divisions);
+        }
+        case 'scala':
+            return scalaKeys(system, tuning)[step]?.frequency ?? null;
+    }
+}
+
+// Name of the note `step`, empty when the tuning has no such note
+export function stepName(step: number, tuning = DEFAULT_TUNING): string {
+    const system = tuning.system;
+    switch (system.kind) {
+        case 'temperament':
+            return edoName(step, 12, tuning.spelling);
+        case 'edo':
+            return edoName(step, system.divisions, tuning.spelling);
+        case 'scala':
+            return scalaKeys(system, tuning)[step]?.name ?? '';
+    }
+}
+
+// Step of the note called `name`, null when it isn't a note of the tuning
+export function noteStep(name: string, tuning = DEFAULT_TUNING): number | null {
+    const system = tuning.system;
+    switch (system.kind) {
+        case 'temperament':
+            return edoStep(name, 12);
+        case 'edo':
+            return edoStep(name, system.divisions);
+        case 'scala': {
+            const keys = scalaKeys(system, tuning);
+            const key = edoStep(name, 12) ?? keys.findIndex(k => k.name === name);
+            return keys[key]?.frequency ? key : null;
+        }
+    }
+}
+
+// Frequency of the note called `name`, null when it isn't a note of the tuning
+export function noteFrequency(name: string, tuning = DEFAULT_TUNING): number | null {
+    const step = noteStep(name, tuning);
+    return step === null ? null : stepFrequency(step, tuning);
+}
+
+// Fractional MIDI note in equal temperament from the reference pitch
+export function frequencyToMidi(frequency: number, tuning = DEFAULT_TUNING): number {
+    return 69 + 12 * Math.log2(frequency / tuning.referencePitch);
+}
+
+// The note called `name` as a fractional MIDI note, for formats that only
+// know twelve equal semitones, null when it isn't a note of the tuning
+export function notePitch(name: string, tuning = DEFAULT_TUNING): number | null {
+    const frequency = noteFrequency(name, tuning);
+    return frequency === null ? null : frequencyToMidi(frequency, tuning);
+}
+
+// The note closest to `frequency` in the tuning and how far off it is,
+// null for frequencies that aren't positive or tunings without notes
+export function nearestNote(frequency: number, tuning = DEFAULT_TUNING): { step: number, name: string, cents: number } | null {
+    if (!(frequency > 0)) return null;
+    const system = tuning.system;
+    let steps: number[];
+    if (system.kind === 'scala') {
+        steps = scalaKeys(system, tuning).map((_, key) => key);
+    } else {
+        // A temperament can move a note up to about a quarter tone
+        const divisions = system.kind === 'edo' ? system.divisions : 12;
+        const approximate = Math.round(stepsFromA4(frequency, tuning, divisions));
+        steps = [approximate - 1, approximate, approximate + 1];
+    }
+
+    let best: { step: number, cents: number } | null = null;
+    for (const step of steps) {
+        const target = stepFrequency(step, tuning);
+        if (target === null) continue;
+        const cents = centsBetween(target, frequency);
+        if (!best || Math.abs(cents) < Math.abs(best.cents)) best = { step, cents };
+    }
+    return best && { ...best, name: stepName(best.step, tuning) };
+}
+
+// Fractional step of `frequency` in equal steps of an octave / `divisions`
+function stepsFromA4(frequency: number, tuning: Tuning, divisions: number): number {
+    const a4 = 5 * divisions + edoLayout(divisions).naturals[5]!;
+    return a4 + divisions * Math.log2(frequency / tuning.referencePitch);
+}
+
+// Frequencies of every note of the tuning from `low` to `high` Hz, ascending
+export function noteFrequencies(low: number, high: number, tuning = DEFAULT_TUNING): number[] {
+    const first = tuning.system.kind === 'scala' ? 0 : (nearestNote(low, tuning)?.step ?? 0) - 1;
+    const last = tuning.system.kind === 'scala' ? 127 : (nearestNote(high, tuning)?.step ?? -1) + 1;
+    const frequencies: number[] = [];
+    for (let step = first; step <= last; step++) {
+        const frequency = stepFrequency(step, tuning);
+        if (frequency !== null && frequency >= low && frequency <= high) frequencies.push(frequency);
+    }
+    return frequencies.sort((a, b) => a - b);
+}
+
+// Positive when `frequency` is above `target`
+export function centsBetween(target: number, frequency: number): number {
+    return 1200 * Math.log2(frequency / target);
+}
+
+// Anything missing or invalid in a stored tuning falls back to the default,
+// it may be from an older version or edited by hand
+export function sanitizeTuning(value: unknown): Tuning {
+    const stored = (typeof value === 'object' && value !== null ? value : {}) as Partial<Record<keyof Tuning, unknown>>;
+    const referencePitch = typeof stored.referencePitch === 'number' && Number.isFinite(stored.referencePitch)
+        ? Math.max(MIN_REFERENCE_PITCH, Math.min(MAX_REFERENCE_PITCH, stored.referencePitch))
+        : DEFAULT_TUNING.referencePitch;
+    return {
+        referencePitch,
+        system: sanitizeSystem(stored.system) ?? DEFAULT_TUNING.system,
+        spelling: stored.spelling === 'flats' ? 'flats' : 'sharps',
+    };
+}
+
+function sanitizeSystem(value: unknown): TuningSystem | null {
+    if (typeof value !== 'object' || value === null) return null;
+    const system = value as Record<string, unknown>;
+    switch (system.kind) {
+        case 'temperament': {
+            const temperament = system.temperament as Temperament;
+            const tonic = system.tonic;
+            if (!(temperament in TEMPERAMENT_LABELS) || !Number.isInteger(tonic)) return null;
+            return { kind: 'temperament', temperament, tonic: (((tonic as number) % 12) + 12) % 12 };
+        }
+        case 'edo': {
+            const divisions = system.divisions;
+            if (!Number.isInteger(divisions)) return null;
+            return { kind: 'edo', divisions: Math.max(MIN_EDO, Math.min(MAX_EDO, divisions as number)) };
+        }
+        case 'scala': {
+            const scale = system.scale as Partial<ScalaScale> | null;
+            const cents = scale?.cents;
+            if (!Array.isArray(cents) || cents.length === 0 || !cents.every(c => typeof c === 'number' && Number.isFinite(c))) return null;
+            if (!(cents[cents.length - 1]! > 0)) return null;
+            return {
+                kind: 'scala',
+                name: typeof system.name === 'string' ? system.name : '',
+                scale: { description: typeof scale?.description === 'string' ? scale.description : '', cents },
+                keyboard: sanitizeKeyboard(system.keyboard),
+            };
+        }
+        default:
+            return null;
+    }
+}
+
+// Null, the default mapping, when invalid
+function sanitizeKeyboard(value: unknown): KeyboardMapping | null {
+    if (typeof value !== 'object' || value === null) return null;
+    const keyboard = value as Partial<Record<keyof KeyboardMapping, unknown>>;
+    const integers = [keyboard.size, keyboard.firstKey, keyboard.lastKey, keyboard.middleKey, keyboard.referenceKey, keyboard.periodDegree];
+    if (!integers.every(Number.isInteger)) return null;
+    if (typeof keyboard.referenceFrequency !== 'number' || !(keyboard.referenceFrequency > 0)) return null;
+    const mapping = keyboard.mapping;
+    if (!Array.isArray(mapping) || mapping.length !== keyboard.size || !mapping.every(d => d === null || Number.isInteger(d))) return null;
+    return keyboard as KeyboardMapping;
+}
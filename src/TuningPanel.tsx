@@ -0,0 +1,165 @@
+import { useState } from "preact/hooks";
+
+import { NOTE_NAMES } from "./Constants";
+import { parseKbm, parseScl } from "./Scala";
+import { COMMON_EDOS, MAX_EDO, MAX_REFERENCE_PITCH, MIN_EDO, MIN_REFERENCE_PITCH, Spelling, Temperament, TEMPERAMENT_LABELS, Tuning, TuningSystem } from "./Tuning";
+
+interface TuningPanelProps {
+    tuning: Tuning;
+    onChange: (tuning: Tuning) => void;
+}
+
+type ScalaSystem = Extract<TuningSystem, { kind: 'scala' }>;
+
+const DEFAULT_EDO = 24; // Quarter tones, the first one tried
+
+function readFileInput(e: Event): File | null {
+    const input = e.currentTarget as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    return file ?? null;
+}
+
+export const TuningPanel = ({ tuning, onChange }: TuningPanelProps) => {
+    // The last Scala file loaded, to go back to after trying another system
+    const [scala, setScala] = useState<ScalaSystem | null>(tuning.system.kind === 'scala' ? tuning.system : null);
+    const system = tuning.system;
+
+    const selectSystem = (next: TuningSystem) => {
+        if (next.kind === 'scala') setScala(next);
+        onChange({ ...tuning, system: next });
+    };
+
+    const handleKind = (kind: TuningSystem['kind']) => {
+        if (kind === 'temperament') selectSystem({ kind, temperament: 'equal', tonic: 0 });
+        else if (kind === 'edo') selectSystem({ kind, divisions: DEFAULT_EDO });
+        else if (scala) selectSystem(scala);
+    };
+
+    const handleReferencePitch = (value: number) => {
+        if (!Number.isFinite(value)) return;
+        onChange({ ...tuning, referencePitch: Math.max(MIN_REFERENCE_PITCH, Math.min(MAX_REFERENCE_PITCH, value)) });
+    };
+
+    const handleDivisions = (value: number) => {
+        if (!Number.isFinite(value)) return;
+        selectSystem({ kind: 'edo', divisions: Math.round(Math.max(MIN_EDO, Math.min(MAX_EDO, value))) });
+    };
+
+    const handleSclInput = async (e: Event) => {
+        const file = readFileInput(e);
+        if (!file) return;
+        try {
+            const scale = parseScl(await file.text());
+            selectSystem({ kind: 'scala', name: file.name.replace(/\.scl$/i, ''), scale, keyboard: null });
+        } catch (err) {
+            console.error("Error loading scale:", err);
+            alert(`Could not load ${file.name}: ${(err as Error).message}`);
+        }
+    };
+
+    const handleKbmInput = async (e: Event) => {
+        const file = readFileInput(e);
+        if (!file || system.kind !== 'scala') return;
+        try {
+            selectSystem({ ...system, keyboard: parseKbm(await file.text()) });
+        } catch (err) {
+            console.error("Error loading keyboard mapping:", err);
+            alert(`Could not load ${file.name}: ${(err as Error).message}`);
+        }
+    };
+
+    const mapped = system.kind === 'scala' && system.keyboard !== null;
+
+    return (
+        <div className="tuning-panel" style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px', padding: '10px 0' }}>
+            <label
+                style={{ display: 'flex', alignItems: 'center', gap: '4px' }}
+                title={mapped ? "Set by the keyboard mapping" : "Frequency of A4"}
+            >
+                A4
+                <input
+                    type="number"
+                    min={MIN_REFERENCE_PITCH}
+                    max={MAX_REFERENCE_PITCH}
+                    step={0.1}
+                    value={tuning.referencePitch}
+                    onChange={e => handleReferencePitch(parseFloat(e.currentTarget.value))}
+                    disabled={mapped}
+                    style={{ width: '5em' }}
+                />
+                Hz
+            </label>
+            <select value={system.kind} onChange={e => handleKind(e.currentTarget.value as TuningSystem['kind'])} title="Tuning system">
+                <option value="temperament">12-tone</option>
+                <option value="edo">Equal divisions</option>
+                {scala && <option value="scala">{scala.name}</option>}
+            </select>
+            {system.kind === 'temperament' && (
+                <>
+                    <select
+                        value={system.temperament}
+                        onChange={e => selectSystem({ ...system, temperament: e.currentTarget.value as Temperament })}
+                        title="Temperament"
+                    >
+                        {(Object.keys(TEMPERAMENT_LABELS) as Temperament[]).map(t => (
+                            <option key={t} value={t}>{TEMPERAMENT_LABELS[t]}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={system.tonic}
+                        onChange={e => selectSystem({ ...system, tonic: parseInt(e.currentTarget.value, 10) })}
+                        disabled={system.temperament === 'equal'}
+                        title="Key the temperament is built on"
+                    >
+                        {NOTE_NAMES.map((name, i) => <option key={name} value={i}>{name}</option>)}
+                    </select>
+                </>
+            )}
+            {system.kind === 'edo' && (
+                <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }} title="Equal steps to the octave, e.g. 24 for quarter tones">
+                    <input
+                        type="number"
+                        min={MIN_EDO}
+                        max={MAX_EDO}
+                        step={1}
+                        list="common-edos"
+                        value={system.divisions}
+                        onChange={e => handleDivisions(parseFloat(e.currentTarget.value))}
+                        style={{ width: '4em' }}
+                    />
+                    <datalist id="common-edos">
+                        {COMMON_EDOS.map(n => <option key={n} value={n} />)}
+                    </datalist>
+                    -EDO
+                </label>
+            )}
+            {system.kind === 'scala' && (
+                <span title={system.scale.description}>{system.scale.cents.length} notes</span>
+            )}
+            <label className="button" style={{ padding: '5px 10px' }} title="Scala scale file">
+                Load .scl
+                <input type="file" accept=".scl" onChange={handleSclInput} style={{ display: 'none' }} />
+            </label>
+            {system.kind === 'scala' && (
+                <label className="button" style={{ padding: '5px 10px' }} title="Scala keyboard mapping, which keys play which degrees">
+                    Load .kbm
+                    <input type="file" accept=".kbm" onChange={handleKbmInput} style={{ display: 'none' }} />
+                </label>
+            )}
+            {system.kind === 'scala' && system.keyboard && (
+                <button onClick={() => selectSystem({ ...system, keyboard: null })} style={{ padding: '5px 10px' }} title="Middle C degree 0, A4 the reference">
+                    Default Mapping
+                </button>
+            )}
+            <select
+                value={tuning.spelling}
+                onChange={e => onChange({ ...tuning, spelling: e.currentTarget.value as Spelling })}
+                title="Notes between the naturals named as"
+            >
+                <option value="sharps">Sharps</option>
+                <option value="flats">Flats</option>
+            </select>
+        </div>
+    );
+};
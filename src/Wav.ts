@@ -0,0 +1,147 @@
+// Minimal RIFF WAVE reader so audio can be transcribed where there is no
+// AudioContext.decodeAudioData, e.g. under Node, and writer for exporting
+// recorded audio
+
+export interface DecodedAudio {
+    sampleRate: number;
+    channelData: Float32Array[];
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+
+export function decodeWav(bytes: ArrayBuffer): DecodedAudio {
+    const view = new DataView(bytes);
+    if (view.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+        throw new Error("Not a WAV file");
+    }
+
+    let format = 0;
+    let channels = 0;
+    let sampleRate = 0;
+    let bitsPerSample = 0;
+    let dataOffset = -1;
+    let dataLength = 0;
+
+    let offset = 12;
+    while (offset + 8 <= view.byteLength) {
+        const tag = readTag(view, offset);
+        const size = view.getUint32(offset + 4, true);
+        const body = offset + 8;
+
+        if (tag === 'fmt ') {
+            format = view.getUint16(body, true);
+            channels = view.getUint16(body + 2, true);
+            sampleRate = view.getUint32(body + 4, true);
+            bitsPerSample = view.getUint16(body + 14, true);
+            if (format === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+                // First two bytes of the sub format GUID are the real format
+                format = view.getUint16(body + 24, true);
+            }
+        } else if (tag === 'data') {
+            dataOffset = body;
+            dataLength = Math.min(size, view.byteLength - body);
+        }
+
+        // Chunks are padded to an even number of bytes
+        offset = body + size + (size % 2);
+    }
+
+    if (!channels || !sampleRate) throw new Error("WAV file has no fmt chunk");
+    if (dataOffset === -1) throw new Error("WAV file has no data chunk");
+    if (format !== WAVE_FORMAT_PCM && format !== WAVE_FORMAT_IEEE_FLOAT) {
+        throw new Error(`Unsupported WAV format ${format}`);
+    }
+
+    const bytesPerSample = bitsPerSample / 8;
+    const frameCount = Math.floor(dataLength / (bytesPerSample * channels));
+    const channelData: Float32Array[] = [];
+    for (let c = 0; c < channels; c++) channelData.push(new Float32Array(frameCount));
+
+    for (let i = 0; i < frameCount; i++) {
+        for (let c = 0; c < channels; c++) {
+            const position = dataOffset + (i * channels + c) * bytesPerSample;
+            channelData[c]![i] = readSample(view, position, format, bitsPerSample);
+        }
+    }
+
+    return { sampleRate, channelData };
+}
+
+// 16 bit PCM, which anything can play
+export function encodeWav(audio: DecodedAudio): Uint8Array {
+    const channels = audio.channelData.length;
+    const frameCount = audio.channelData[0]?.length ?? 0;
+    const blockAlign = channels * 2;
+    const dataLength = frameCount * blockAlign;
+    const view = new DataView(new ArrayBuffer(44 + dataLength));
+
+    writeTag(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataLength, true);
+    writeTag(view, 8, 'WAVE');
+    writeTag(view, 12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, WAVE_FORMAT_PCM, true);
+    view.setUint16(22, channels, true);
+    view.setUint32(24, audio.sampleRate, true);
+    view.setUint32(28, audio.sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, 16, true);
+    writeTag(view, 36, 'data');
+    view.setUint32(40, dataLength, true);
+
+    for (let i = 0; i < frameCount; i++) {
+        for (let c = 0; c < channels; c++) {
+            const sample = Math.max(-1, Math.min(1, audio.channelData[c]![i]!));
+            view.setInt16(44 + i * blockAlign + c * 2, sample < 0 ? sample * 32768 : sample * 32767, true);
+        }
+    }
+    return new Uint8Array(view.buffer);
+}
+
+export function mixToMono(channelData: Float32Array[]): Float32Array {
+    if (channelData.length === 1) return channelData[0]!;
+
+    const length = channelData[0]?.length ?? 0;
+    const mono = new Float32Array(length);
+    for (const channel of channelData) {
+        for (let i = 0; i < length; i++) {
+            mono[i] = mono[i]! + channel[i]! / channelData.length;
+        }
+    }
+    return mono;
+}
+
+function readTag(view: DataView, offset: number): string {
+    return String.fromCharCode(
+        view.getUint8(offset),
+        view.getUint8(offset + 1),
+        view.getUint8(offset + 2),
+        view.getUint8(offset + 3),
+    );
+}
+
+function writeTag(view: DataView, offset: number, tag: string) {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+}
+
+function readSample(view: DataView, position: number, format: number, bitsPerSample: number): number {
+    if (format === WAVE_FORMAT_IEEE_FLOAT) {
+        if (bitsPerSample === 32) return view.getFloat32(position, true);
+        if (bitsPerSample === 64) return view.getFloat64(position, true);
+    } else {
+        switch (bitsPerSample) {
+            case 8: return (view.getUint8(position) - 128) / 128;
+            case 16: return view.getInt16(position, true) / 32768;
+            case 24: {
+                const value = view.getUint8(position)
+                    | (view.getUint8(position + 1) << 8)
+                    | (view.getInt8(position + 2) << 16);
+                return value / 8388608;
+            }
+            case 32: return view.getInt32(position, true) / 2147483648;
+        }
+    }
+    throw new Error(`Unsupported WAV bit depth ${bitsPerSample}`);
+}
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { beatGridFromRecording } from "../src/BeatTracker";
+import { RecordedNote } from "../src/Recorder";
+
+const START = 300; // ms, first downbeat
+
+// Bars of four beats with a note at each of `pattern`, in beats into the
+// bar. Downbeats are loudest, the other beats louder than what's between.
+function rhythm(bpm: number, pattern: number[], bars: number, jitterMs = 0): RecordedNote[] {
+    const beatMs = 60000 / bpm;
+    let seed = 1;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const notes: RecordedNote[] = [];
+    for (let bar = 0; bar < bars; bar++) {
+        for (const beat of pattern) {
+            notes.push({
+                note: 'C4',
+                startTime: START + (bar * 4 + beat) * beatMs + (random() * 2 - 1) * jitterMs,
+                duration: 100,
+                velocity: beat === 0 ? 120 : Number.isInteger(beat) ? 100 : 70,
+            });
+        }
+    }
+    return notes;
+}
+
+const EIGHTHS = [0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5];
+const QUARTERS = [0, 1, 2, 3];
+const TRIPLETS = [0, 1 / 3, 2 / 3, 1, 4 / 3, 5 / 3, 2, 7 / 3, 8 / 3, 3, 10 / 3, 11 / 3];
+
+function assertTempo(notes: RecordedNote[], bpm: number) {
+    const grid = beatGridFromRecording(notes);
+    assert.ok(grid, "no tempo found");
+    assert.ok(Math.abs(grid.bpm - bpm) / bpm < 0.02, `${grid.bpm.toFixed(1)} BPM for ${bpm}`);
+    // A beat lands on the first downbeat
+    const beatMs = 60000 / grid.bpm;
+    const phase = (((START - grid.offset) % beatMs) + beatMs) % beatMs;
+    assert.ok(Math.min(phase, beatMs - phase) < 20, `beats ${phase.toFixed(0)} ms off`);
+}
+
+describe("beatGridFromRecording", () => {
+    it("finds 70 BPM in eighth notes, not 3:2 of it", () => {
+        assertTempo(rhythm(70, EIGHTHS, 8), 70);
+    });
+
+    it("finds 150 BPM in eighth notes and in quarter notes, not 2:3 of it", () => {
+        assertTempo(rhythm(150, EIGHTHS, 8), 150);
+        assertTempo(rhythm(150, QUARTERS, 8), 150);
+    });
+
+    it("follows loose timing", () => {
+        assertTempo(rhythm(128, EIGHTHS, 8, 8), 128);
+    });
+
+    it("finds the beat of triplets", () => {
+        assertTempo(rhythm(70, TRIPLETS, 6), 70);
+        assertTempo(rhythm(120, TRIPLETS, 6), 120);
+    });
+
+    it("needs a few beats to go on", () => {
+        assert.equal(beatGridFromRecording(rhythm(120, [0], 1)), null);
+    });
+});
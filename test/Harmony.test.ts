@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { computeChroma, recognizeChord } from "../src/Harmony";
+import { SpectrumAnalyser } from "../src/SpectrumAnalyser";
+import { DEFAULT_TUNING } from "../src/Tuning";
+import { SAMPLE_RATE, synthesize } from "./signals";
+
+// Chroma of one frame from the middle of `frequencies` sounding together
+function chromaOf(frequencies: number[], tuning = DEFAULT_TUNING): Float32Array {
+    const fftSize = 8192;
+    const samples = synthesize([{ frequencies, start: 0, duration: 1 }], 1);
+    const start = Math.floor((samples.length - fftSize) / 2);
+    const frame = new SpectrumAnalyser(fftSize, 0).process(samples.subarray(start, start + fftSize), SAMPLE_RATE, 0);
+    return computeChroma(frame.floatFrequencyData, SAMPLE_RATE, tuning);
+}
+
+describe("Harmony", () => {
+    it("names a triad by its quality", () => {
+        assert.equal(recognizeChord(chromaOf([261.63, 329.63, 392.00]))?.name, 'C');
+        assert.equal(recognizeChord(chromaOf([220.00, 261.63, 329.63]))?.name, 'Am');
+    });
+
+    it("names a root and fifth as a power chord rather than a major triad", () => {
+        assert.equal(recognizeChord(chromaOf([261.63, 392.00]))?.name, 'C5');
+    });
+
+    it("bins the chroma against the tuning's reference pitch", () => {
+        // C major at A4 = 415 Hz is about a semitone below C major at A440
+        const baroque = { ...DEFAULT_TUNING, referencePitch: 415 };
+        const triad = [261.63, 329.63, 392.00].map(f => f * 415 / 440);
+        assert.equal(recognizeChord(chromaOf(triad, baroque))?.name, 'C');
+        assert.equal(recognizeChord(chromaOf(triad))?.name, 'B');
+    });
+});
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { midiToRecording, parseMidiFile, writeMidiFile } from "../src/MidiFile";
+import { RecordedNote } from "../src/Recorder";
+
+// Whether `bytes` has `sequence` anywhere in it
+function contains(bytes: Uint8Array, sequence: number[]): boolean {
+    for (let i = 0; i + sequence.length <= bytes.length; i++) {
+        if (sequence.every((b, j) => bytes[i + j] === b)) return true;
+    }
+    return false;
+}
+
+// A format 0 file at 96 ticks per quarter note with one track of `events`
+function midiFile(events: number[]): Uint8Array {
+    const track = [...events, 0x00, 0xFF, 0x2F, 0x00];
+    const length = [track.length >> 24, track.length >> 16, track.length >> 8, track.length].map(b => b & 0xFF);
+    return new Uint8Array([
+        ...new TextEncoder().encode('MThd'), 0, 0, 0, 6, 0, 0, 0, 1, 0, 96,
+        ...new TextEncoder().encode('MTrk'), ...length, ...track,
+    ]);
+}
+
+describe("MIDI files", () => {
+    const recording: RecordedNote[] = [
+        { note: 'C4', startTime: 0, duration: 500, velocity: 90 },
+        { note: 'E4', startTime: 0, duration: 500, velocity: 80 },
+        { note: 'G#4', startTime: 500, duration: 250, velocity: 100 },
+        { note: 'A0', startTime: 1000, duration: 1500, velocity: 1 },
+    ];
+
+    for (const format of [0, 1] as const) {
+        it(`writes the header and tracks of format ${format}`, () => {
+            const bytes = writeMidiFile(recording, { format, beatGrid: { bpm: 120, offset: 0 }, ppq: 480 });
+            assert.equal(new TextDecoder().decode(bytes.subarray(0, 4)), 'MThd');
+            assert.deepEqual([...bytes.subarray(8, 14)], [0, format, 0, format === 0 ? 1 : 2, 480 >> 8, 480 & 0xFF]);
+            // 500000 microseconds per quarter note
+            assert.ok(contains(bytes, [0xFF, 0x51, 0x03, 0x07, 0xA1, 0x20]));
+        });
+    }
+
+    it("writes each note with its velocity and a note off at its end", () => {
+        const bytes = writeMidiFile(recording, { beatGrid: { bpm: 120, offset: 0 }, ppq: 480 });
+        assert.ok(contains(bytes, [0x90, 60, 90]));
+        assert.ok(contains(bytes, [0x90, 64, 80]));
+        assert.ok(contains(bytes, [0x90, 68, 100]));
+        assert.ok(contains(bytes, [0x90, 21, 1]));
+        // G#4 ends an eighth note, 240 ticks (0x81 0x70), after it starts
+        assert.ok(contains(bytes, [0x81, 0x70, 0x80, 68, 0]));
+    });
+
+    for (const format of [0, 1] as const) {
+        it(`reads back the notes written in format ${format}`, () => {
+            const data = parseMidiFile(writeMidiFile(recording, { format, beatGrid: { bpm: 120, offset: 0 }, ppq: 480 }));
+            assert.equal(data.ppq, 480);
+            assert.equal(Math.round(60000000 / data.tempoMap[0]!.microsecondsPerQuarter), 120);
+            const notes = midiToRecording(data).sort((a, b) => a.startTime - b.startTime || a.note.localeCompare(b.note));
+            assert.deepEqual(notes.map(n => [n.note, Math.round(n.startTime), Math.round(n.duration), n.velocity]), [
+                ['C4', 0, 500, 90],
+                ['E4', 0, 500, 80],
+                ['G#4', 500, 250, 100],
+                ['A0', 1000, 1500, 1],
+            ]);
+        });
+    }
+
+    it("keeps times at another tempo", () => {
+        const data = parseMidiFile(writeMidiFile(recording, { beatGrid: { bpm: 73, offset: 0 }, ppq: 96 }));
+        const notes = midiToRecording(data);
+        assert.ok(notes.every(n => recording.some(r => r.note === n.note && Math.abs(r.startTime - n.startTime) < 10)));
+    });
+
+    it("puts the beats on quarter notes", () => {
+        const data = parseMidiFile(writeMidiFile(recording, { beatGrid: { bpm: 120, offset: 100 }, ppq: 480 }));
+        const notes = midiToRecording(data);
+        // The beat before the recording, at -400 ms, becomes the start
+        assert.deepEqual([...new Set(notes.map(n => Math.round(n.startTime)))], [400, 900, 1400]);
+    });
+
+    it("reads notes written with running status", () => {
+        // Note on C4 then E4, and both off as note ons of velocity 0
+        const data = parseMidiFile(midiFile([0x00, 0x90, 60, 90, 0x00, 64, 80, 0x60, 60, 0, 0x00, 64, 0]));
+        assert.deepEqual(midiToRecording(data).map(n => [n.note, Math.round(n.duration)]), [['C4', 500], ['E4', 500]]);
+    });
+
+    it("refuses running status after a meta or SysEx event", () => {
+        for (const event of [[0xFF, 0x01, 0x01, 0x41], [0xF0, 0x01, 0xF7]]) {
+            assert.throws(() => parseMidiFile(midiFile([0x00, 0x90, 60, 90, 0x00, ...event, 0x60, 60, 0])), /Invalid MIDI track data/);
+        }
+    });
+
+    it("refuses bytes that aren't a MIDI file", () => {
+        assert.throws(() => parseMidiFile(new TextEncoder().encode("RIFF not midi at all")));
+    });
+});
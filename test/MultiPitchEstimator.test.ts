@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { MultiPitchEstimator } from "../src/MultiPitchEstimator";
+import { DEFAULT_SETTINGS } from "../src/Settings";
+import { SpectrumAnalyser } from "../src/SpectrumAnalyser";
+import { nearestNote } from "../src/Tuning";
+import { SAMPLE_RATE, synthesize } from "./signals";
+
+const C_MAJOR = [261.63, 329.63, 392.00]; // Hz, C4 E4 G4
+
+// Notes found in one frame from the middle of `samples`
+function estimateNotes(samples: Float32Array, fftSize: number): string[] {
+    const analyser = new SpectrumAnalyser(fftSize, 0);
+    const start = Math.floor((samples.length - fftSize) / 2);
+    const frame = analyser.process(samples.subarray(start, start + fftSize), SAMPLE_RATE, 0);
+    const estimator = new MultiPitchEstimator({ ...DEFAULT_SETTINGS, fftSize });
+    return estimator.estimate(frame.floatFrequencyData, SAMPLE_RATE)
+        .map(candidate => nearestNote(candidate.frequency)!.name)
+        .sort();
+}
+
+describe("MultiPitchEstimator", () => {
+    for (const fftSize of [2048, 8192]) {
+        it(`finds the notes of a triad rather than the note below them at FFT size ${fftSize}`, () => {
+            // Weak upper partials line C4 E4 G4 up with the 2nd to 6th partials of C3
+            const triad = synthesize([{ frequencies: C_MAJOR, start: 0, duration: 1, partials: [1, 1 / 3] }], 1);
+            assert.deepEqual(estimateNotes(triad, fftSize), ['C4', 'E4', 'G4']);
+        });
+    }
+
+    it("finds a low note whose fundamental is much weaker than its partials", () => {
+        const low = synthesize([{ frequencies: [55], start: 0, duration: 1, partials: [0.05, 1, 0.8, 0.5, 0.3, 0.2] }], 1);
+        assert.deepEqual(estimateNotes(low, 2048), ['A1']);
+        assert.deepEqual(estimateNotes(low, 8192), ['A1']);
+    });
+});
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { EditHistory, mergeNotes, splitNote } from "../src/NoteEditing";
+import { RecordedNote } from "../src/Recorder";
+
+describe("note editing", () => {
+    const recording: RecordedNote[] = [
+        { note: 'C4', startTime: 0, duration: 400, velocity: 80, pitchBend: [{ time: 0, cents: 0 }, { time: 400, cents: 100 }] },
+        { note: 'E4', startTime: 500, duration: 200, velocity: 100 },
+    ];
+
+    it("splits a note in two, dividing its pitch bend", () => {
+        const { recording: split, selection } = splitNote(recording, 0, 100);
+        assert.deepEqual(selection, [0, 1]);
+        assert.equal(split.length, 3);
+        assert.deepEqual(split[0], { note: 'C4', startTime: 0, duration: 100, velocity: 80, pitchBend: [{ time: 0, cents: 0 }] });
+        assert.deepEqual(split[1], { note: 'C4', startTime: 100, duration: 300, velocity: 80, pitchBend: [{ time: 0, cents: 25 }, { time: 300, cents: 100 }] });
+        assert.equal(split[2], recording[1]);
+    });
+
+    it("doesn't split at the very edge of a note", () => {
+        assert.equal(splitNote(recording, 0, 2).recording, recording);
+        assert.equal(splitNote(recording, 0, 398).recording, recording);
+    });
+
+    it("merges notes into one spanning them", () => {
+        const { recording: merged, selection } = mergeNotes(recording, [1, 0]);
+        assert.deepEqual(selection, [0]);
+        assert.equal(merged.length, 1);
+        assert.equal(merged[0]!.note, 'C4');
+        assert.equal(merged[0]!.startTime, 0);
+        assert.equal(merged[0]!.duration, 700);
+        assert.equal(merged[0]!.velocity, 100);
+    });
+
+    it("undoes and redoes edits in order", () => {
+        const history = new EditHistory();
+        const first = splitNote(recording, 0, 200).recording;
+        history.push(recording);
+        const second = mergeNotes(first, [0, 1]).recording;
+        history.push(first);
+
+        assert.equal(history.undo(second), first);
+        assert.equal(history.undo(first), recording);
+        assert.equal(history.canUndo(), false);
+        assert.equal(history.undo(recording), null);
+        assert.equal(history.redo(recording), first);
+        assert.equal(history.redo(first), second);
+        assert.equal(history.canRedo(), false);
+    });
+
+    it("forgets what could be redone after a new edit", () => {
+        const history = new EditHistory();
+        const edited = splitNote(recording, 0, 200).recording;
+        history.push(recording);
+        history.undo(edited);
+        history.push(recording);
+        assert.equal(history.canRedo(), false);
+    });
+});
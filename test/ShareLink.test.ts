@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { RecordedNote } from "../src/Recorder";
+import { decodeShareFragment, encodeShareFragment, MAX_SHARED_NOTES } from "../src/ShareLink";
+
+describe("share links", () => {
+    const recording: RecordedNote[] = [
+        { note: 'C4', startTime: 0, duration: 480, velocity: 90 },
+        { note: 'E4', startTime: 0, duration: 480, velocity: 70 },
+        { note: 'G4', startTime: 500.4, duration: 240.6 },
+    ];
+
+    it("decodes the notes it encodes, to the nearest ms", async () => {
+        const fragment = await encodeShareFragment(recording);
+        assert.match(fragment, /^share=1\.[A-Za-z0-9_-]+$/);
+        assert.deepEqual(await decodeShareFragment(`#${fragment}`), [
+            { note: 'C4', startTime: 0, duration: 480, velocity: 90 },
+            { note: 'E4', startTime: 0, duration: 480, velocity: 70 },
+            { note: 'G4', startTime: 500, duration: 241, velocity: 100 },
+        ]);
+    });
+
+    it("ignores fragments without a recording", async () => {
+        assert.equal(await decodeShareFragment(''), null);
+        assert.equal(await decodeShareFragment('#section-2'), null);
+    });
+
+    it("refuses damaged and unknown links", async () => {
+        const fragment = await encodeShareFragment(recording);
+        await assert.rejects(decodeShareFragment(fragment.slice(0, -4)));
+        await assert.rejects(decodeShareFragment('share=1.!!!'));
+        await assert.rejects(decodeShareFragment('share=1.AAAA'));
+        await assert.rejects(decodeShareFragment(fragment.replace('share=1.', 'share=2.')), /newer version/);
+    });
+
+    it("refuses recordings too big for a link", async () => {
+        await assert.rejects(encodeShareFragment([]));
+        const tooMany = Array.from({ length: MAX_SHARED_NOTES + 1 }, (_, i) => ({ note: 'C4', startTime: i * 10, duration: 5 }));
+        await assert.rejects(encodeShareFragment(tooMany));
+    });
+});
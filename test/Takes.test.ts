@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { DEFAULT_SETTINGS } from "../src/Settings";
+import { createTake, exportTakes, importTakes, TAKE_FILE_FORMAT, TAKE_FILE_VERSION } from "../src/Takes";
+import { DEFAULT_TUNING } from "../src/Tuning";
+
+function takesFile(takes: unknown[], version = TAKE_FILE_VERSION): string {
+    return JSON.stringify({ format: TAKE_FILE_FORMAT, version, takes });
+}
+
+describe("importTakes", () => {
+    it("reads back exported takes", () => {
+        const take = createTake("Verse", {
+            detectionMode: 'monophonic',
+            settings: DEFAULT_SETTINGS,
+            tuning: DEFAULT_TUNING,
+            beatGrid: { bpm: 96, offset: 120 },
+            notes: [{ note: 'A4', startTime: 0, duration: 400, velocity: 64, pitchBend: [{ time: 0, cents: -20 }] }],
+            harmony: { chords: [{ name: 'Am', root: 9, quality: 'min', startTime: 0, duration: 400, confidence: 0.9 }], keys: [] },
+            contour: [{ time: 10, frequency: 440, cents: 0 }],
+        }, true);
+        const [imported] = importTakes(exportTakes([take]));
+        assert.notEqual(imported!.id, take.id);
+        assert.equal(imported!.hasAudio, false, "the audio isn't in the file");
+        assert.deepEqual({ ...imported!, id: take.id, hasAudio: true }, take);
+    });
+
+    it("leaves out invalid notes and fields", () => {
+        const [take] = importTakes(takesFile([{
+            detectionMode: 'guessing',
+            beatGrid: { bpm: -1, offset: 0 },
+            notes: [
+                { note: 'C4', startTime: 0, duration: 100, velocity: 500, pitchBend: 'up', vibrato: null },
+                { note: 'D4', startTime: -5, duration: 100 },
+                { note: '', startTime: 0, duration: 100 },
+                { note: 'E4', startTime: 0, duration: 0 },
+                'F4',
+            ],
+            harmony: { chords: [{ name: 'X', root: 12, quality: 'maj', startTime: 0, duration: 1 }], keys: 'C' },
+            contour: [{ time: 0, frequency: 0 }],
+        }]));
+        assert.equal(take!.name, "Take 1");
+        assert.equal(take!.detectionMode, 'peaks');
+        assert.equal(take!.beatGrid, null);
+        assert.deepEqual(take!.settings, DEFAULT_SETTINGS);
+        assert.deepEqual(take!.tuning, DEFAULT_TUNING);
+        assert.deepEqual(take!.notes, [{ note: 'C4', startTime: 0, duration: 100, velocity: 127 }]);
+        assert.equal(take!.harmony, null);
+        assert.equal(take!.contour, null);
+    });
+
+    it("refuses files that aren't takes", () => {
+        assert.throws(() => importTakes("{"), /Not a JSON file/);
+        assert.throws(() => importTakes("[]"), /Not a takes file/);
+        assert.throws(() => importTakes(JSON.stringify({ format: TAKE_FILE_FORMAT, version: 1 })), /No takes/);
+        assert.throws(() => importTakes(takesFile([], TAKE_FILE_VERSION + 1)), /newer version/);
+    });
+});
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { transcribe } from "../src/Transcriber";
+import { SAMPLE_RATE, synthesize } from "./signals";
+
+const C4 = 261.63; // Hz
+const E4 = 329.63;
+const G4 = 392.00;
+const PARTIALS = [1, 0.5, 0.25];
+const TIMING_TOLERANCE = 120; // ms, a few frames of smoothing and the note debouncing
+
+describe("transcribe", () => {
+    const melody = synthesize([
+        { frequencies: [C4], start: 0.1, duration: 0.5, partials: PARTIALS },
+        { frequencies: [G4], start: 0.7, duration: 0.5, partials: PARTIALS },
+    ], 1.4);
+
+    for (const mode of ['monophonic', 'polyphonic'] as const) {
+        it(`finds each note of a melody in ${mode} mode`, () => {
+            const notes = transcribe(melody, SAMPLE_RATE, { mode });
+            assert.deepEqual(notes.map(n => n.note), ['C4', 'G4']);
+            assert.ok(Math.abs(notes[0]!.startTime - 100) < TIMING_TOLERANCE);
+            assert.ok(Math.abs(notes[1]!.startTime - 700) < TIMING_TOLERANCE);
+            for (const note of notes) assert.ok(Math.abs(note.duration - 500) < 2 * TIMING_TOLERANCE);
+        });
+    }
+
+    it("finds the notes of a chord in polyphonic mode", () => {
+        const chord = synthesize([{ frequencies: [C4, E4, G4], start: 0.1, duration: 1, partials: [1, 1 / 3] }], 1.3);
+        const notes = transcribe(chord, SAMPLE_RATE, { mode: 'polyphonic' });
+        assert.deepEqual(notes.map(n => n.note).sort(), ['C4', 'E4', 'G4']);
+        for (const note of notes) {
+            assert.ok(Math.abs(note.startTime - 100) < TIMING_TOLERANCE);
+            assert.ok(Math.abs(note.duration - 1000) < 2 * TIMING_TOLERANCE);
+        }
+    });
+
+    it("gives the same notes for the same samples", () => {
+        assert.deepEqual(transcribe(melody, SAMPLE_RATE), transcribe(melody, SAMPLE_RATE));
+    });
+
+    it("finds nothing in silence", () => {
+        assert.deepEqual(transcribe(new Float32Array(SAMPLE_RATE), SAMPLE_RATE, { mode: 'polyphonic' }), []);
+    });
+});
@@ -0,0 +1,35 @@
+// Synthetic input for the tests
+
+export const SAMPLE_RATE = 44100;
+
+export interface Tone {
+    frequencies: number[]; // Hz, sounding together
+    start: number; // seconds
+    duration: number; // seconds
+    partials?: number[]; // Amplitude of harmonic 1, 2, 3..., defaults to a plain sine
+}
+
+// Tones summed into one buffer, each with a short fade in and out so its
+// edges don't click
+export function synthesize(tones: Tone[], length: number, sampleRate = SAMPLE_RATE): Float32Array {
+    const samples = new Float32Array(Math.round(length * sampleRate));
+    const fade = Math.round(0.005 * sampleRate);
+    for (const tone of tones) {
+        const partials = tone.partials ?? [1];
+        const first = Math.round(tone.start * sampleRate);
+        const count = Math.min(Math.round(tone.duration * sampleRate), samples.length - first);
+        const scale = 0.2 / partials.reduce((sum, a) => sum + a, 0);
+        for (let i = 0; i < count; i++) {
+            const envelope = Math.min(1, i / fade, (count - i) / fade);
+            const t = i / sampleRate;
+            let value = 0;
+            for (const frequency of tone.frequencies) {
+                partials.forEach((amplitude, k) => {
+                    value += amplitude * Math.sin(2 * Math.PI * frequency * (k + 1) * t);
+                });
+            }
+            samples[first + i]! += scale * envelope * value;
+        }
+    }
+    return samples;
+}